@@ -0,0 +1,186 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import { HostPatternList, normalizeHost, unmapIPv4 } from './host-pattern';
+import { DnsResolver } from './dns-resolver';
+import { logger } from './logger';
+
+/**
+ * 访问控制规则
+ * hosts 支持精确域名 (api.binance.com)、通配域名 (*.binance.com)、IP 和 CIDR (10.0.0.0/8)
+ * ports 支持单个端口 (443) 和端口范围 ('8000-8100')，不填表示所有端口
+ */
+export interface AccessRule {
+  id?: string;
+  action: 'allow' | 'deny';
+  hosts?: string[];
+  ports?: Array<number | string>;
+}
+
+export interface AccessControlOptions {
+  rules?: AccessRule[];
+  // 没有规则匹配时的默认动作（默认 allow）
+  defaultAction?: 'allow' | 'deny';
+  // 阻止解析到私有/回环/链路本地地址的目标，防止SSRF（默认开启）
+  blockPrivateNetworks?: boolean;
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  ruleId: string;
+  // 本次检查解析出的地址，连接时应使用这些地址，避免DNS重绑定
+  addresses: dns.LookupAddress[];
+}
+
+interface CompiledRule {
+  id: string;
+  action: 'allow' | 'deny';
+  hosts: HostPatternList;
+  ports: Array<[number, number]>;
+}
+
+const PRIVATE_NETWORKS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  // 未指定地址、回环地址和 IPv4 兼容地址（::a.b.c.d，例如 ::7f00:1）
+  ['::', 96, 'ipv6'],
+  // NAT64（64:ff9b::a.b.c.d）可以转换为任意IPv4地址，包括私有地址
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+/**
+ * CONNECT 和转发请求的访问控制
+ */
+export class AccessControl {
+  private rules: CompiledRule[];
+  private defaultAction: 'allow' | 'deny';
+  private blockPrivateNetworks: boolean;
+  private privateNetworks: net.BlockList;
+  private resolver: DnsResolver;
+
+  constructor(options: AccessControlOptions = {}, resolver: DnsResolver = new DnsResolver()) {
+    this.resolver = resolver;
+    this.rules = (options.rules || []).map((rule, index) => compileRule(rule, index));
+    this.defaultAction = options.defaultAction || 'allow';
+    this.blockPrivateNetworks = options.blockPrivateNetworks !== false;
+
+    this.privateNetworks = new net.BlockList();
+    for (const [network, prefix, type] of PRIVATE_NETWORKS) {
+      this.privateNetworks.addSubnet(network, prefix, type);
+    }
+  }
+
+  /**
+   * 检查目标是否允许访问，规则按顺序匹配，第一个匹配的规则生效
+   */
+  public async check(hostname: string, port: number): Promise<AccessDecision> {
+    const addresses = await this.resolve(normalizeHost(hostname));
+    return this.evaluate(hostname, port, addresses);
+  }
+
+  /**
+   * 使用已经解析好的地址检查（例如在全局检查之后再应用用户策略）
+   */
+  public evaluate(hostname: string, port: number, addresses: dns.LookupAddress[]): AccessDecision {
+    const host = normalizeHost(hostname);
+    const privateTarget = this.blockPrivateNetworks && addresses.some(address => this.isPrivate(address.address));
+
+    for (const rule of this.rules) {
+      if (!matchPort(rule, port)) continue;
+      // 没有配置 hosts 的规则匹配所有目标（例如只按端口限制）
+      if (rule.hosts.isEmpty || rule.hosts.matchHost(host) || rule.hosts.matchAddresses(addresses)) {
+        // 只有明确列出主机或网段的 allow 规则才能放行私有地址
+        if (privateTarget && rule.action === 'allow' && rule.hosts.isEmpty) break;
+        return { allowed: rule.action === 'allow', ruleId: rule.id, addresses };
+      }
+    }
+
+    if (privateTarget) {
+      return { allowed: false, ruleId: 'private-network', addresses };
+    }
+
+    return { allowed: this.defaultAction === 'allow', ruleId: 'default', addresses };
+  }
+
+  /**
+   * 判断地址是否属于私有/回环/链路本地网段
+   */
+  public isPrivate(address: string): boolean {
+    const normalized = unmapIPv4(address);
+    const family = net.isIPv4(normalized) ? 'ipv4' : 'ipv6';
+    return this.privateNetworks.check(normalized, family);
+  }
+
+  private async resolve(host: string): Promise<dns.LookupAddress[]> {
+    try {
+      return await this.resolver.resolve(host);
+    } catch (error: any) {
+      // 本地无法解析的目标只能经上游代理访问（由 selectUpstreams 排除直连），IP类规则不会匹配
+      logger.warn(`⚠️  访问控制DNS解析失败 ${host}: ${error.code || error.message}`);
+      return [];
+    }
+  }
+}
+
+/**
+ * 生成只返回已检查地址的 lookup 函数，供 net.connect / http.request 使用
+ */
+export function pinnedLookup(addresses: dns.LookupAddress[]): net.LookupFunction {
+  return ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    const candidates = options.family
+      ? addresses.filter(address => address.family === options.family)
+      : addresses;
+
+    if (candidates.length === 0) {
+      const error: NodeJS.ErrnoException = new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+      error.code = 'ENOTFOUND';
+      callback(error);
+    } else if (options.all) {
+      callback(null, candidates);
+    } else {
+      callback(null, candidates[0].address, candidates[0].family);
+    }
+  }) as net.LookupFunction;
+}
+
+function compileRule(rule: AccessRule, index: number): CompiledRule {
+  const id = rule.id || `rule-${index + 1}`;
+
+  if (rule.action !== 'allow' && rule.action !== 'deny') {
+    throw new Error(`访问控制规则 ${id} 的 action 无效: ${rule.action}`);
+  }
+
+  let hosts: HostPatternList;
+  try {
+    hosts = new HostPatternList(rule.hosts);
+  } catch (error: any) {
+    throw new Error(`访问控制规则 ${id} 无效: ${error.message}`);
+  }
+
+  const ports: Array<[number, number]> = [];
+  for (const port of rule.ports || []) {
+    const [start, end] = String(port).split('-').map(part => parseInt(part, 10));
+    const range: [number, number] = [start, isNaN(end) ? start : end];
+    if (isNaN(range[0]) || range[0] < 1 || range[1] > 65535 || range[0] > range[1]) {
+      throw new Error(`访问控制规则 ${id} 的端口无效: ${port}`);
+    }
+    ports.push(range);
+  }
+
+  return { id, action: rule.action, hosts, ports };
+}
+
+function matchPort(rule: CompiledRule, port: number): boolean {
+  return rule.ports.length === 0 || rule.ports.some(([start, end]) => port >= start && port <= end);
+}
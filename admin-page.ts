@@ -0,0 +1,205 @@
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { unmapIPv4 } from './host-pattern';
+
+/**
+ * 检查管理接口权限，返回拒绝原因，允许时返回 null
+ * 配置了令牌时校验 Authorization: Bearer，否则只允许本机访问；浏览器的跨站请求一律拒绝
+ */
+export function checkAdminAccess(req: Pick<IncomingMessage, 'headers' | 'socket'>, adminToken: string | null): string | null {
+  const origin = req.headers.origin;
+  if (origin) {
+    let originHost: string;
+    try {
+      originHost = new URL(origin).host;
+    } catch (error) {
+      originHost = '';
+    }
+    // HTTP/2 请求没有 Host 头，用 :authority 比较
+    if (originHost !== (req.headers.host || req.headers[':authority'])) {
+      return '不允许跨站请求';
+    }
+  }
+
+  if (adminToken) {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    const expected = Buffer.from(adminToken);
+    const actual = Buffer.from(match ? match[1].trim() : '');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected) ? null : '管理令牌无效';
+  }
+
+  const address = unmapIPv4(req.socket.remoteAddress || '');
+  return address === '127.0.0.1' || address === '::1' ? null : '只允许本机访问（可配置管理令牌）';
+}
+
+/**
+ * 连接管理页面：定时读取 /admin/api/connections 和 /admin/api/traffic，可以断开单个隧道或到某个主机的所有隧道
+ * 配置了管理令牌时，令牌来自输入框或页面地址的 #token=，只保存在 sessionStorage 中并放在请求头里，
+ * 不会出现在请求的URL、浏览历史和 Referer 中
+ */
+export function renderAdminPage(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>📡 连接管理 - HTTPS 代理服务器</title>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.6; }
+    .header { background: #2c3e50; color: white; padding: 20px; border-radius: 5px; }
+    table { border-collapse: collapse; width: 100%; margin-top: 10px; font-size: 14px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+    th { background: #f4f4f4; }
+    button { cursor: pointer; }
+    .muted { color: #888; }
+    .error { color: #e74c3c; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>📡 连接管理</h1>
+    <p>当前隧道 <strong id="count">-</strong> 个 · 每2秒刷新 · <a href="#" onclick="askToken(); return false" style="color: #ecf0f1">输入管理令牌</a> · <a href="/" style="color: #ecf0f1">返回首页</a></p>
+  </div>
+
+  <h2>🔗 当前隧道</h2>
+  <p>
+    <input id="host" placeholder="目标主机，例如 api.binance.com">
+    <button onclick="killHost()">断开到该主机的所有隧道</button>
+    <span id="message" class="muted"></span>
+  </p>
+  <table>
+    <thead><tr><th>#</th><th>客户端</th><th>用户</th><th>目标</th><th>上游</th><th>开始时间</th><th>上传</th><th>下载</th><th></th></tr></thead>
+    <tbody id="active"></tbody>
+  </table>
+
+  <h2>🕘 最近关闭</h2>
+  <table>
+    <thead><tr><th>#</th><th>客户端</th><th>用户</th><th>目标</th><th>上游</th><th>开始时间</th><th>结束时间</th><th>上传</th><th>下载</th></tr></thead>
+    <tbody id="recent"></tbody>
+  </table>
+
+  <h2>📶 流量配额</h2>
+  <table>
+    <thead><tr><th>类型</th><th>对象</th><th>今日</th><th>本月</th></tr></thead>
+    <tbody id="traffic"></tbody>
+  </table>
+
+  <script>
+    // 用 /admin#token=<令牌> 打开时读取后立即从地址栏中去掉，片段不会发送给服务器
+    const fragment = new URLSearchParams(location.hash.slice(1)).get('token');
+    if (fragment) {
+      sessionStorage.setItem('adminToken', fragment);
+      history.replaceState(null, '', location.pathname + location.search);
+    }
+    let headers = {};
+    let tokenDeclined = false;
+
+    function useToken(token) {
+      headers = token ? { Authorization: 'Bearer ' + token } : {};
+    }
+    useToken(sessionStorage.getItem('adminToken'));
+
+    function askToken() {
+      const token = prompt('管理令牌');
+      if (token === null) {
+        tokenDeclined = true;
+        return;
+      }
+      tokenDeclined = false;
+      sessionStorage.setItem('adminToken', token.trim());
+      useToken(token.trim());
+      refresh();
+    }
+
+    function escape(value) {
+      return String(value == null ? '' : value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    }
+
+    function bytes(value) {
+      const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+      let index = 0;
+      while (value >= 1024 && index < units.length - 1) { value /= 1024; index++; }
+      return value.toFixed(index ? 1 : 0) + ' ' + units[index];
+    }
+
+    function row(tunnel, closed) {
+      const cells = [
+        tunnel.id,
+        tunnel.client,
+        tunnel.user || '-',
+        tunnel.hostname + ':' + tunnel.port + (tunnel.intercepted ? ' 🔍' : ''),
+        tunnel.upstream,
+        new Date(tunnel.startTime).toLocaleTimeString()
+      ];
+      if (closed) cells.push(new Date(tunnel.endTime).toLocaleTimeString());
+      cells.push(bytes(tunnel.bytesSent), bytes(tunnel.bytesReceived));
+      const action = closed ? '' : '<td><button onclick="kill(' + tunnel.id + ', ' + (tunnel.worker || 0) + ')">断开</button></td>';
+      return '<tr>' + cells.map(cell => '<td>' + escape(cell) + '</td>').join('') + action + '</tr>';
+    }
+
+    const scopes = { client: '客户端', user: '用户', host: '目标' };
+
+    function usage(used, limit) {
+      return limit ? bytes(used) + ' / ' + bytes(limit) + ' (' + Math.floor(used / limit * 100) + '%)' : bytes(used);
+    }
+
+    function trafficRow(item) {
+      const cells = [
+        scopes[item.scope] || item.scope,
+        item.key + (item.worker ? ' (进程 ' + item.worker + ')' : ''),
+        usage(item.dailyBytes, item.dailyLimit),
+        usage(item.monthlyBytes, item.monthlyLimit)
+      ];
+      return '<tr>' + cells.map(cell => '<td>' + escape(cell) + '</td>').join('') + '</tr>';
+    }
+
+    async function refresh() {
+      try {
+        const response = await fetch('/admin/api/connections', { headers });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          // 令牌无效或还没有输入令牌时询问一次，取消后不再自动询问
+          if (response.status === 403 && data.error === '管理令牌无效' && !tokenDeclined) {
+            askToken();
+            return;
+          }
+          throw new Error(data.error || response.statusText);
+        }
+        const data = await response.json();
+        document.getElementById('count').textContent = data.active.length;
+        document.getElementById('active').innerHTML = data.active.map(tunnel => row(tunnel, false)).join('') ||
+          '<tr><td colspan="9" class="muted">没有打开的隧道</td></tr>';
+        document.getElementById('recent').innerHTML = data.recent.map(tunnel => row(tunnel, true)).join('') ||
+          '<tr><td colspan="9" class="muted">暂无记录</td></tr>';
+
+        const traffic = await fetch('/admin/api/traffic', { headers }).then(response => response.json());
+        document.getElementById('traffic').innerHTML = (traffic.usage || []).map(trafficRow).join('') ||
+          '<tr><td colspan="4" class="muted">暂无记录（没有配置流量配额时为空）</td></tr>';
+      } catch (error) {
+        document.getElementById('message').innerHTML = '<span class="error">' + escape(error.message) + '</span>';
+      }
+    }
+
+    async function request(path) {
+      const response = await fetch(path, { method: 'DELETE', headers });
+      const data = await response.json().catch(() => ({}));
+      document.getElementById('message').textContent = response.ok ? '已断开 ' + data.killed + ' 个隧道' : (data.error || response.statusText);
+      refresh();
+    }
+
+    // 集群模式下隧道编号在每个工作进程内唯一，需要同时指定工作进程
+    function kill(id, worker) {
+      request('/admin/api/connections/' + id + (worker ? '?worker=' + worker : ''));
+    }
+
+    function killHost() {
+      const host = document.getElementById('host').value.trim();
+      if (host) request('/admin/api/connections?host=' + encodeURIComponent(host));
+    }
+
+    refresh();
+    setInterval(refresh, 2000);
+  </script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,157 @@
+import * as http from 'http';
+import { describeUpstream } from './tunnel';
+
+export interface AgentPoolOptions {
+  // 每个源站的最大并发连接数（默认 50）
+  maxSockets?: number;
+  // 每个源站保留的空闲连接数（默认 10）
+  maxFreeSockets?: number;
+  // 空闲连接的关闭时间（默认 30 秒）
+  idleTimeout?: number;
+  // 最多保留多少个源站的 Agent，超过后淘汰最久未使用且没有活动连接的（默认 100）
+  maxAgents?: number;
+}
+
+/**
+ * 单个源站（经某个上游）的连接池状态，admin API 直接返回这些字段
+ */
+export interface AgentStats {
+  // DIRECT 或脱敏后的上游代理地址
+  upstream: string;
+  origin: string;
+  activeSockets: number;
+  idleSockets: number;
+  pendingRequests: number;
+  requests: number;
+  // 复用已有连接的请求数
+  reusedRequests: number;
+  lastUsed: string;
+  // 集群模式下所在的工作进程编号
+  worker?: number;
+}
+
+interface PooledAgent {
+  agent: http.Agent;
+  upstream: string;
+  origin: string;
+  requests: number;
+  reusedRequests: number;
+  lastUsed: number;
+}
+
+/**
+ * 转发请求使用的 keep-alive Agent，按源站（经上游代理时按上游和源站）共享
+ */
+export class AgentPool {
+  private options: Required<AgentPoolOptions>;
+  // Map 保持插入顺序，每次使用时移到末尾，开头就是最久未使用的
+  private agents: Map<string, PooledAgent> = new Map();
+  private entries: WeakMap<http.Agent, PooledAgent> = new WeakMap();
+
+  constructor(options: AgentPoolOptions = {}) {
+    this.options = resolveOptions(options);
+  }
+
+  /**
+   * 更新连接池参数，只影响之后创建的 Agent
+   */
+  public configure(options: AgentPoolOptions = {}): void {
+    this.options = resolveOptions(options);
+  }
+
+  /**
+   * 取得源站的 Agent，没有时用 create 创建；create 返回 undefined（例如不支持的上游协议）时不缓存
+   */
+  public acquire<T extends http.Agent>(upstream: string | null, origin: string,
+                                       create: (options: http.AgentOptions) => T | undefined): T | undefined {
+    const key = `${upstream || 'DIRECT'} ${origin}`;
+    let entry = this.agents.get(key);
+
+    if (entry) {
+      this.agents.delete(key);
+    } else {
+      const agent = create({
+        keepAlive: true,
+        maxSockets: this.options.maxSockets,
+        maxFreeSockets: this.options.maxFreeSockets,
+        timeout: this.options.idleTimeout
+      });
+      if (!agent) return undefined;
+      entry = { agent, upstream: upstream ? describeUpstream(upstream) : 'DIRECT', origin, requests: 0, reusedRequests: 0, lastUsed: 0 };
+      this.entries.set(agent, entry);
+    }
+
+    entry.requests++;
+    entry.lastUsed = Date.now();
+    this.agents.set(key, entry);
+    this.evict(key);
+    return entry.agent as T;
+  }
+
+  /**
+   * 记录请求是否复用了已有连接
+   */
+  public observe(req: http.ClientRequest, agent: http.Agent | undefined): void {
+    req.once('socket', () => {
+      const entry = agent ? this.entries.get(agent) : undefined;
+      if (entry && req.reusedSocket) {
+        entry.reusedRequests++;
+      }
+    });
+  }
+
+  public stats(): AgentStats[] {
+    return Array.from(this.agents.values(), entry => ({
+      upstream: entry.upstream,
+      origin: entry.origin,
+      activeSockets: countSockets(entry.agent.sockets),
+      idleSockets: countSockets(entry.agent.freeSockets),
+      pendingRequests: countSockets(entry.agent.requests),
+      requests: entry.requests,
+      reusedRequests: entry.reusedRequests,
+      lastUsed: new Date(entry.lastUsed).toISOString()
+    })).reverse();
+  }
+
+  /**
+   * 关闭所有连接（停止服务时使用）
+   */
+  public destroy(): void {
+    for (const entry of this.agents.values()) {
+      entry.agent.destroy();
+    }
+    this.agents.clear();
+  }
+
+  /**
+   * 超过数量上限时淘汰最久未使用的 Agent，正在使用的不淘汰
+   */
+  private evict(current: string): void {
+    if (this.agents.size <= this.options.maxAgents) return;
+
+    for (const [key, entry] of this.agents) {
+      if (this.agents.size <= this.options.maxAgents) break;
+      if (key !== current && countSockets(entry.agent.sockets) === 0 && countSockets(entry.agent.requests) === 0) {
+        entry.agent.destroy();
+        this.agents.delete(key);
+      }
+    }
+  }
+}
+
+function resolveOptions(options: AgentPoolOptions): Required<AgentPoolOptions> {
+  return {
+    maxSockets: options.maxSockets || 50,
+    maxFreeSockets: options.maxFreeSockets || 10,
+    idleTimeout: options.idleTimeout || 30000,
+    maxAgents: options.maxAgents || 100
+  };
+}
+
+function countSockets(group: NodeJS.ReadOnlyDict<any[]>): number {
+  let count = 0;
+  for (const list of Object.values(group)) {
+    count += list ? list.length : 0;
+  }
+  return count;
+}
@@ -0,0 +1,88 @@
+import * as net from 'net';
+import * as url from 'url';
+
+/**
+ * CONNECT 请求目标解析出的主机和端口
+ * hostname 为小写 ASCII：国际化域名转换为 punycode，IPv6 地址不带方括号并压缩为标准形式
+ */
+export interface Authority {
+  hostname: string;
+  port: number;
+}
+
+/**
+ * 按 RFC 9110 的 authority-form（host:port）解析CONNECT目标，不合法时抛出异常
+ * IPv6 地址必须用方括号括起来（[2001:db8::1]:443），不允许用户信息（user@host）；没有端口时使用 defaultPort
+ */
+export function parseAuthority(authority: string, defaultPort?: number): Authority {
+  if (!authority) {
+    throw new Error('目标地址为空');
+  }
+  // 不在错误信息中回显，避免把用户信息中的密码写进日志
+  if (authority.includes('@')) {
+    throw new Error('目标地址不能包含用户信息');
+  }
+
+  let hostname: string;
+  let portText: string | undefined;
+
+  if (authority.startsWith('[')) {
+    const match = /^\[([^\]]*)\](?::(.*))?$/.exec(authority);
+    // 不支持区域标识（fe80::1%25eth0）和 IPvFuture
+    if (!match || !net.isIPv6(match[1]) || match[1].includes('%')) {
+      throw new Error(`IPv6地址格式不正确: ${authority}`);
+    }
+    hostname = new URL(`http://[${match[1]}]/`).hostname.replace(/^\[|\]$/g, '');
+    portText = match[2];
+  } else {
+    const index = authority.lastIndexOf(':');
+    if (index !== authority.indexOf(':')) {
+      throw new Error(`IPv6地址需要用方括号括起来: ${authority}`);
+    }
+    hostname = parseHostname(index === -1 ? authority : authority.slice(0, index));
+    portText = index === -1 ? undefined : authority.slice(index + 1);
+  }
+
+  if (portText === undefined) {
+    if (defaultPort === undefined) {
+      throw new Error(`缺少端口: ${authority}`);
+    }
+    return { hostname, port: defaultPort };
+  }
+
+  const port = /^\d{1,5}$/.test(portText) ? parseInt(portText, 10) : NaN;
+  if (!(port >= 1 && port <= 65535)) {
+    throw new Error(`无效的端口: ${portText}`);
+  }
+  return { hostname, port };
+}
+
+/**
+ * 检查域名或IPv4地址并转换为小写 ASCII，国际化域名按 IDNA 转换为 punycode，不合法时抛出异常
+ */
+export function parseHostname(host: string): string {
+  if (net.isIPv4(host)) {
+    return host;
+  }
+
+  // 请求行只能是 ASCII，国际化域名以百分号编码的 UTF-8 发送（b%C3%BCcher.example）
+  let decoded = host;
+  if (host.includes('%')) {
+    try {
+      decoded = decodeURIComponent(host);
+    } catch {
+      throw new Error(`域名格式不正确: ${host}`);
+    }
+  }
+
+  // domainToASCII 无法转换时返回空字符串
+  const ascii = /[^\x00-\x7f]/.test(decoded) ? url.domainToASCII(decoded) : decoded.toLowerCase();
+  // 允许表示完整域名的结尾点
+  const name = ascii.replace(/\.$/, '');
+  const valid = name.length > 0 && name.length <= 253 &&
+    name.split('.').every(label => label.length <= 63 && /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(label));
+  if (!valid) {
+    throw new Error(`域名格式不正确: ${host}`);
+  }
+  return ascii;
+}
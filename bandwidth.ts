@@ -0,0 +1,388 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeHost, unmapIPv4 } from './host-pattern';
+import { RateLimitError, RateLimitKeys, RateLimitScope } from './rate-limit';
+import { logger } from './logger';
+import { TunnelSocket } from './tunnel-socket';
+
+// 默认的流量用量文件（项目根目录下的 data 目录）
+export const DEFAULT_USAGE_FILE = path.resolve(__dirname, '..', 'data', 'traffic-usage.json');
+
+// 有变化时每隔多久保存一次用量
+const SAVE_INTERVAL = 30000;
+
+export interface RateOptions {
+  // 每秒字节数，不填表示不限制
+  upload?: number;
+  download?: number;
+}
+
+export interface QuotaOptions {
+  // 每天/每月（本地时间）允许的流量，上传和下载字节数合计
+  daily?: number;
+  monthly?: number;
+}
+
+export interface BandwidthOptions {
+  // 所有隧道合计的带宽
+  global?: RateOptions;
+  // 每个客户端IP的带宽
+  client?: RateOptions;
+  // 每个认证用户的带宽
+  user?: RateOptions;
+  // 流量配额，用完后拒绝新的隧道和请求，直到下一天/下个月
+  quotas?: {
+    client?: QuotaOptions;
+    user?: QuotaOptions;
+    host?: QuotaOptions;
+  };
+  // 保存用量的文件（默认 data/traffic-usage.json），重启后继续累计
+  usageFile?: string;
+}
+
+/**
+ * 流量配额已用完，retryAfter 为到配额重置的秒数
+ */
+export class QuotaExceededError extends RateLimitError {
+  constructor(message: string, scope: RateLimitScope, retryAfter: number) {
+    super(message, scope, retryAfter);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * 一个客户端/用户/目标主机的流量用量，admin API 直接返回这些字段
+ */
+export interface TrafficUsage {
+  scope: RateLimitScope;
+  key: string;
+  // YYYY-MM-DD / YYYY-MM
+  day: string;
+  dailyBytes: number;
+  dailyLimit?: number;
+  month: string;
+  monthlyBytes: number;
+  monthlyLimit?: number;
+  // 集群模式下所在的工作进程编号
+  worker?: number;
+}
+
+interface UsageEntry {
+  day: string;
+  dailyBytes: number;
+  month: string;
+  monthlyBytes: number;
+}
+
+/**
+ * 按字节计的令牌桶，桶容量为一秒的流量；rate 为 0 表示不限制
+ */
+class ByteBucket {
+  // 使用该桶的隧道数，为 0 时删除
+  public refs = 0;
+  public rate = 0;
+  private tokens = 0;
+  private updated = Date.now();
+
+  constructor(public readonly name: string, public readonly scope: string, public readonly direction: keyof RateOptions) {}
+
+  public setRate(rate: number): void {
+    if (!this.rate) this.tokens = rate;
+    this.rate = rate;
+  }
+
+  /**
+   * 扣除已经转发的字节，返回需要暂停读取的毫秒数
+   */
+  public take(bytes: number): number {
+    if (!this.rate) return 0;
+    const now = Date.now();
+    this.tokens = Math.min(this.rate, this.tokens + (now - this.updated) / 1000 * this.rate) - bytes;
+    this.updated = now;
+    return this.tokens < 0 ? Math.ceil(-this.tokens / this.rate * 1000) : 0;
+  }
+}
+
+/**
+ * 隧道的带宽限制和流量配额
+ */
+export class BandwidthManager {
+  private options: BandwidthOptions = {};
+  private usageFile: string | null = null;
+  // "scope key direction" -> 正在使用的令牌桶
+  private buckets: Map<string, ByteBucket> = new Map();
+  // "scope key" -> 用量
+  private usage: Map<string, UsageEntry> = new Map();
+  private dirty = false;
+  private saveTimer: NodeJS.Timeout;
+
+  constructor(options: BandwidthOptions = {}) {
+    this.configure(options);
+    this.saveTimer = setInterval(() => this.save(), SAVE_INTERVAL);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * 更新限制：新的带宽限制对已建立的隧道同样生效，已有的用量保留
+   */
+  public configure(options: BandwidthOptions = {}): void {
+    const usageFile = options.quotas ? path.resolve(options.usageFile || DEFAULT_USAGE_FILE) : null;
+    if (usageFile !== this.usageFile) {
+      this.save();
+      this.usageFile = usageFile;
+      this.usage = usageFile ? loadUsage(usageFile) : new Map();
+    }
+
+    this.options = options;
+    for (const bucket of this.buckets.values()) {
+      bucket.setRate(this.rateOf(bucket.scope, bucket.direction));
+    }
+  }
+
+  /**
+   * 检查配额，任何一个已用完时抛出 QuotaExceededError
+   */
+  public checkQuota(keys: RateLimitKeys): void {
+    for (const [scope, key, quota] of this.quotaTargets(keys)) {
+      const entry = this.entry(scope, key);
+      const period = currentPeriod();
+      if (quota.daily && entry.dailyBytes >= quota.daily) {
+        throw new QuotaExceededError(`流量配额已用完: ${describe(scope, key)} 今日已用 ${formatBytes(entry.dailyBytes)} / ${formatBytes(quota.daily)}`,
+                                     scope, Math.ceil((period.dayEnd - Date.now()) / 1000));
+      }
+      if (quota.monthly && entry.monthlyBytes >= quota.monthly) {
+        throw new QuotaExceededError(`流量配额已用完: ${describe(scope, key)} 本月已用 ${formatBytes(entry.monthlyBytes)} / ${formatBytes(quota.monthly)}`,
+                                     scope, Math.ceil((period.monthEnd - Date.now()) / 1000));
+      }
+    }
+  }
+
+  /**
+   * 记录不经过隧道的流量（例如转发的HTTP请求）
+   */
+  public record(keys: RateLimitKeys, bytes: number): void {
+    if (bytes <= 0) return;
+    for (const [scope, key] of this.quotaTargets(keys)) {
+      this.add(this.entry(scope, key), bytes);
+    }
+  }
+
+  /**
+   * 对隧道的双向数据限速并计入配额，在开始转发之后调用；隧道关闭时自动释放
+   * 超过带宽时暂停读取来源socket，不额外缓存数据
+   */
+  public attach(clientSocket: TunnelSocket, serverSocket: TunnelSocket, keys: RateLimitKeys): void {
+    const client = unmapIPv4(keys.client);
+    const owners: Array<[string, string]> = [['global', '*'], ['client', client]];
+    if (keys.user) {
+      owners.push(['user', keys.user]);
+    }
+    const upload = owners.map(([scope, key]) => this.bucket(scope, key, 'upload'));
+    const download = owners.map(([scope, key]) => this.bucket(scope, key, 'download'));
+    const entries = this.quotaTargets(keys).map(([scope, key]) => this.entry(scope, key));
+
+    const shape = (source: TunnelSocket, destination: TunnelSocket, buckets: ByteBucket[]) => {
+      let timer: NodeJS.Timeout | null = null;
+      source.on('data', (chunk: Buffer) => {
+        for (const entry of entries) {
+          this.add(entry, chunk.length);
+        }
+        const wait = Math.max(0, ...buckets.map(bucket => bucket.take(chunk.length)));
+        if (wait === 0) return;
+        // pipe 在目标缓冲区满时也会暂停/恢复来源，这里在恢复时检查目标是否仍需等待
+        source.pause();
+        if (!timer) {
+          timer = setTimeout(() => {
+            timer = null;
+            if (!source.destroyed && !destination.writableNeedDrain) {
+              source.resume();
+            }
+          }, wait);
+        }
+      });
+      source.once('close', () => {
+        if (timer) clearTimeout(timer);
+      });
+    };
+    shape(clientSocket, serverSocket, upload);
+    shape(serverSocket, clientSocket, download);
+
+    clientSocket.once('close', () => {
+      for (const bucket of [...upload, ...download]) {
+        this.release(bucket);
+      }
+    });
+  }
+
+  /**
+   * 当前的流量用量（只包括配置了配额的类型）
+   */
+  public list(): TrafficUsage[] {
+    const quotas = this.options.quotas || {};
+    const result: TrafficUsage[] = [];
+    for (const [name, entry] of this.usage) {
+      const index = name.indexOf(' ');
+      const scope = name.slice(0, index) as RateLimitScope;
+      const quota = quotas[scope];
+      if (!quota) continue;
+      this.roll(entry);
+      result.push({
+        scope,
+        key: name.slice(index + 1),
+        day: entry.day,
+        dailyBytes: entry.dailyBytes,
+        dailyLimit: quota.daily,
+        month: entry.month,
+        monthlyBytes: entry.monthlyBytes,
+        monthlyLimit: quota.monthly
+      });
+    }
+    return result.sort((a, b) => b.monthlyBytes - a.monthlyBytes);
+  }
+
+  /**
+   * 保存用量并停止定时保存（停止服务时使用）
+   */
+  public close(): void {
+    clearInterval(this.saveTimer);
+    this.save();
+  }
+
+  private rateOf(scope: string, direction: keyof RateOptions): number {
+    const rates = scope === 'global' ? this.options.global : scope === 'client' ? this.options.client : this.options.user;
+    return (rates && rates[direction]) || 0;
+  }
+
+  private bucket(scope: string, key: string, direction: keyof RateOptions): ByteBucket {
+    const name = `${scope} ${key} ${direction}`;
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      bucket = new ByteBucket(name, scope, direction);
+      bucket.setRate(this.rateOf(scope, direction));
+      this.buckets.set(name, bucket);
+    }
+    bucket.refs++;
+    return bucket;
+  }
+
+  private release(bucket: ByteBucket): void {
+    if (--bucket.refs === 0) {
+      this.buckets.delete(bucket.name);
+    }
+  }
+
+  private quotaTargets(keys: RateLimitKeys): Array<[RateLimitScope, string, QuotaOptions]> {
+    const quotas = this.options.quotas;
+    if (!quotas) return [];
+
+    const targets: Array<[RateLimitScope, string, QuotaOptions]> = [];
+    if (quotas.client) targets.push(['client', unmapIPv4(keys.client), quotas.client]);
+    if (quotas.user && keys.user) targets.push(['user', keys.user, quotas.user]);
+    if (quotas.host) targets.push(['host', normalizeHost(keys.host), quotas.host]);
+    return targets;
+  }
+
+  private entry(scope: RateLimitScope, key: string): UsageEntry {
+    const name = `${scope} ${key}`;
+    let entry = this.usage.get(name);
+    if (!entry) {
+      const period = currentPeriod();
+      entry = { day: period.day, dailyBytes: 0, month: period.month, monthlyBytes: 0 };
+      this.usage.set(name, entry);
+    }
+    this.roll(entry);
+    return entry;
+  }
+
+  private add(entry: UsageEntry, bytes: number): void {
+    this.roll(entry);
+    entry.dailyBytes += bytes;
+    entry.monthlyBytes += bytes;
+    this.dirty = true;
+  }
+
+  /**
+   * 跨天/跨月后从零开始计数
+   */
+  private roll(entry: UsageEntry): void {
+    const period = currentPeriod();
+    if (entry.month !== period.month) {
+      entry.month = period.month;
+      entry.monthlyBytes = 0;
+    }
+    if (entry.day !== period.day) {
+      entry.day = period.day;
+      entry.dailyBytes = 0;
+    }
+  }
+
+  private save(): void {
+    if (!this.dirty || !this.usageFile) return;
+
+    // 上个月之前的记录不再需要
+    const month = currentPeriod().month;
+    const entries: Record<string, UsageEntry> = {};
+    for (const [name, entry] of this.usage) {
+      if (entry.month === month) entries[name] = entry;
+    }
+
+    // 先写临时文件再重命名，避免写到一半时退出导致文件损坏
+    const temporary = `${this.usageFile}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.usageFile), { recursive: true });
+      fs.writeFileSync(temporary, JSON.stringify({ entries }, null, 2));
+      fs.renameSync(temporary, this.usageFile);
+      this.dirty = false;
+    } catch (error: any) {
+      logger.error(`❌ 保存流量用量失败 ${this.usageFile}:`, error.message);
+    }
+  }
+}
+
+function loadUsage(file: string): Map<string, UsageEntry> {
+  const usage: Map<string, UsageEntry> = new Map();
+  if (!fs.existsSync(file)) return usage;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const [name, entry] of Object.entries<UsageEntry>(data.entries || {})) {
+      usage.set(name, { day: entry.day, dailyBytes: entry.dailyBytes || 0, month: entry.month, monthlyBytes: entry.monthlyBytes || 0 });
+    }
+    logger.info(`📶 已加载 ${usage.size} 条流量用量记录 (${file})`);
+  } catch (error: any) {
+    logger.warn(`⚠️  读取流量用量失败 ${file}，从零开始计数:`, error.message);
+  }
+  return usage;
+}
+
+// 当前的日期和月份，到下一天之前重复使用
+let cachedPeriod = { day: '', month: '', dayEnd: 0, monthEnd: 0 };
+
+function currentPeriod(): typeof cachedPeriod {
+  const now = Date.now();
+  if (now < cachedPeriod.dayEnd) return cachedPeriod;
+
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  cachedPeriod = {
+    day: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    month: `${date.getFullYear()}-${pad(date.getMonth() + 1)}`,
+    dayEnd: new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime(),
+    monthEnd: new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()
+  };
+  return cachedPeriod;
+}
+
+function describe(scope: RateLimitScope, key: string): string {
+  return `${scope === 'client' ? '客户端' : scope === 'user' ? '用户' : '目标'} ${key}`;
+}
+
+function formatBytes(value: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let index = 0;
+  while (value >= 1024 && index < units.length - 1) {
+    value /= 1024;
+    index++;
+  }
+  return `${value.toFixed(index ? 1 : 0)} ${units[index]}`;
+}
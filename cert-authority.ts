@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as forge from 'node-forge';
+
+// 签发的叶子证书有效期（不超过398天，兼容Apple等客户端的限制）
+const LEAF_VALIDITY_DAYS = 365;
+// 新建CA的有效期
+const CA_VALIDITY_DAYS = 3650;
+
+const CA_SUBJECT = [
+  { name: 'countryName', value: 'CN' },
+  { name: 'stateOrProvinceName', value: 'Local' },
+  { name: 'localityName', value: 'Local' },
+  { name: 'organizationName', value: 'Local CA' },
+  { name: 'organizationalUnitName', value: 'Local CA' },
+  { name: 'commonName', value: 'Local CA' }
+];
+
+/**
+ * 本地CA：使用 certs/ca.key 为任意主机名签发证书
+ */
+export class CertificateAuthority {
+  public readonly certPem: string;
+  private caCert: forge.pki.Certificate;
+  private caKey: forge.pki.rsa.PrivateKey;
+
+  constructor(certPem: string, keyPem: string) {
+    this.certPem = certPem;
+    try {
+      this.caCert = forge.pki.certificateFromPem(certPem);
+      this.caKey = forge.pki.privateKeyFromPem(keyPem);
+    } catch (error: any) {
+      throw new Error(`无法解析CA证书或私钥（目前只支持RSA）: ${error.message}`);
+    }
+  }
+
+  public static fromFiles(certFile: string, keyFile: string): CertificateAuthority {
+    try {
+      return new CertificateAuthority(fs.readFileSync(certFile, 'utf8'), fs.readFileSync(keyFile, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`无法读取CA证书文件: ${error.message}`);
+    }
+  }
+
+  /**
+   * 生成新的自签名CA（RSA 4096），返回PEM格式的证书和私钥
+   */
+  public static generate(): { certPem: string; keyPem: string } {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 4096 });
+    const keyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+    cert.serialNumber = randomSerial();
+
+    const now = Date.now();
+    cert.validity.notBefore = new Date(now - 24 * 60 * 60 * 1000);
+    cert.validity.notAfter = new Date(now + CA_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+    cert.setSubject(CA_SUBJECT);
+    cert.setIssuer(CA_SUBJECT);
+    cert.setExtensions([
+      { name: 'basicConstraints', cA: true, critical: true },
+      { name: 'keyUsage', keyCertSign: true, cRLSign: true, critical: true },
+      { name: 'subjectKeyIdentifier' }
+    ]);
+    cert.sign(forge.pki.privateKeyFromPem(keyPem), forge.md.sha256.create());
+
+    return { certPem: forge.pki.certificateToPem(cert), keyPem };
+  }
+
+  /**
+   * 为主机名（或IP）签发叶子证书，返回PEM；第一个名称作为CN
+   */
+  public issue(hostnames: string | string[], publicKeyPem: string, validityDays: number = LEAF_VALIDITY_DAYS): string {
+    const names = Array.isArray(hostnames) ? hostnames : [hostnames];
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = forge.pki.publicKeyFromPem(publicKeyPem);
+    cert.serialNumber = randomSerial();
+
+    const now = Date.now();
+    cert.validity.notBefore = new Date(now - 24 * 60 * 60 * 1000);
+    cert.validity.notAfter = new Date(now + validityDays * 24 * 60 * 60 * 1000);
+
+    cert.setSubject([{ name: 'commonName', value: names[0].slice(0, 64) }]);
+    cert.setIssuer(this.caCert.subject.attributes);
+    cert.setExtensions([
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: names.map(name => net.isIP(name) ? { type: 7, ip: name } : { type: 2, value: name })
+      },
+      { name: 'subjectKeyIdentifier' },
+      { name: 'authorityKeyIdentifier', keyIdentifier: this.caCert.generateSubjectKeyIdentifier().getBytes() }
+    ]);
+
+    cert.sign(this.caKey, forge.md.sha256.create());
+    return forge.pki.certificateToPem(cert);
+  }
+
+  /**
+   * 检查证书是否由本CA签发且在 minValidity 毫秒后仍然有效
+   */
+  public isValidIssued(certPem: string, minValidity: number = 0): boolean {
+    try {
+      const cert = forge.pki.certificateFromPem(certPem);
+      return cert.validity.notAfter.getTime() > Date.now() + minValidity && this.caCert.verify(cert);
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+/**
+ * 证书序列号必须为正数，最高位清零
+ */
+function randomSerial(): string {
+  const serial = crypto.randomBytes(16);
+  serial[0] &= 0x7f;
+  return serial.toString('hex');
+}
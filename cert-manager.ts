@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { CertificateAuthority } from './cert-authority';
+import { logger } from './logger';
+
+export interface CertificateManagerOptions {
+  caCertFile: string;
+  caKeyFile: string;
+  certFile: string;
+  keyFile: string;
+  fullchainFile: string;
+  // 除 localhost 和本机地址外，服务器证书需要包含的域名/IP
+  hostnames?: string[];
+  // 服务器证书剩余有效期少于多少天时重新签发（默认30天）
+  renewBefore?: number;
+  // 检查有效期的间隔（默认12小时）
+  checkInterval?: number;
+}
+
+// 服务器证书有效期
+const SERVER_VALIDITY_DAYS = 365;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 管理本地CA和服务器证书：首次启动时创建，报告有效期，到期前自动更换服务器证书
+ */
+export class CertificateManager {
+  private options: CertificateManagerOptions;
+  private renewBefore: number;
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: CertificateManagerOptions) {
+    this.options = options;
+    this.renewBefore = (options.renewBefore || 30) * DAY;
+  }
+
+  /**
+   * 服务器证书需要包含的名称：localhost、本机主机名、所有网卡地址和配置的域名
+   */
+  public get hostnames(): string[] {
+    const names = ['localhost', '*.localhost', os.hostname().toLowerCase(), '127.0.0.1', '::1'];
+    for (const addresses of Object.values(os.networkInterfaces())) {
+      for (const address of addresses || []) {
+        // 链路本地IPv6地址带有网卡作用域，不能放进证书
+        if (!address.address.includes('%') && !address.address.toLowerCase().startsWith('fe80:')) {
+          names.push(address.address);
+        }
+      }
+    }
+    names.push(...(this.options.hostnames || []).map(name => name.toLowerCase()));
+    return Array.from(new Set(names));
+  }
+
+  /**
+   * 确保CA和服务器证书存在且有效，必要时创建或重新签发
+   */
+  public ensure(): void {
+    const { caCertFile, caKeyFile, certFile, keyFile } = this.options;
+
+    if (!fs.existsSync(caCertFile) && !fs.existsSync(caKeyFile)) {
+      logger.info('🔑 没有找到CA证书，正在生成本地CA...');
+      const { certPem, keyPem } = CertificateAuthority.generate();
+      writeFile(caKeyFile, keyPem, 0o600);
+      writeFile(caCertFile, certPem, 0o644);
+      logger.info(`✅ 已生成CA证书: ${caCertFile}`);
+    }
+
+    if (!fs.existsSync(certFile) || !fs.existsSync(keyFile)) {
+      this.issueServerCertificate('服务器证书不存在');
+    } else {
+      const reason = this.renewalReason();
+      if (reason) {
+        this.issueServerCertificate(reason);
+      }
+    }
+
+    this.reportExpiry();
+  }
+
+  /**
+   * 定时检查服务器证书，重新签发后调用 onRenew
+   */
+  public startRenewal(onRenew: () => void): void {
+    if (this.checkTimer) return;
+
+    this.checkTimer = setInterval(() => {
+      try {
+        const reason = this.renewalReason();
+        if (reason) {
+          this.issueServerCertificate(reason);
+          onRenew();
+        }
+        this.reportExpiry();
+      } catch (error: any) {
+        logger.error('❌ 更新服务器证书失败:', error.message);
+      }
+    }, this.options.checkInterval || 12 * 60 * 60 * 1000);
+    this.checkTimer.unref();
+  }
+
+  public stopRenewal(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * 判断服务器证书是否需要重新签发，只处理由本地CA签发的证书
+   */
+  private renewalReason(): string | null {
+    const server = readCertificate(this.options.certFile);
+    const ca = readCertificate(this.options.caCertFile);
+    if (!server || !ca || !server.checkIssued(ca) || !server.verify(ca.publicKey)) {
+      return null;
+    }
+
+    if (new Date(server.validTo).getTime() - Date.now() < this.renewBefore) {
+      return `服务器证书将于 ${server.validTo} 过期`;
+    }
+
+    const dnsNames = (server.subjectAltName || '').split(/,\s*/)
+      .filter(name => name.startsWith('DNS:'))
+      .map(name => name.slice(4).toLowerCase());
+    const missing = this.hostnames.filter(name =>
+      net.isIP(name) ? !server.checkIP(name) : !dnsNames.includes(name)
+    );
+    if (missing.length > 0) {
+      return `服务器证书缺少名称: ${missing.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  private issueServerCertificate(reason: string): void {
+    const { caCertFile, caKeyFile, certFile, keyFile, fullchainFile } = this.options;
+    logger.info(`📜 ${reason}，正在签发新的服务器证书...`);
+
+    const ca = CertificateAuthority.fromFiles(caCertFile, caKeyFile);
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const certPem = ca.issue(this.hostnames, publicKey.export({ type: 'spki', format: 'pem' }).toString(), SERVER_VALIDITY_DAYS);
+
+    writeFile(keyFile, privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), 0o600);
+    writeFile(certFile, certPem, 0o644);
+    writeFile(fullchainFile, certPem + ca.certPem, 0o644);
+    logger.info(`✅ 已签发服务器证书: ${certFile}`);
+  }
+
+  private reportExpiry(): void {
+    for (const [label, file] of [['CA证书', this.options.caCertFile], ['服务器证书', this.options.certFile]]) {
+      const cert = readCertificate(file);
+      if (!cert) continue;
+
+      const daysLeft = Math.floor((new Date(cert.validTo).getTime() - Date.now()) / DAY);
+      if (daysLeft < 0) {
+        logger.error(`❌ ${label}已过期: ${cert.validTo}`);
+      } else if (daysLeft * DAY < this.renewBefore) {
+        logger.warn(`⚠️  ${label}即将过期: ${cert.validTo} (剩余 ${daysLeft} 天)`);
+      } else {
+        logger.info(`📅 ${label}有效期至 ${cert.validTo} (剩余 ${daysLeft} 天)`);
+      }
+    }
+  }
+}
+
+function readCertificate(file: string): crypto.X509Certificate | null {
+  try {
+    return new crypto.X509Certificate(fs.readFileSync(file));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * 先写临时文件再重命名，避免证书监听读到写了一半的文件
+ */
+function writeFile(file: string, content: string, mode: number): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, content, { mode });
+  fs.renameSync(tempFile, file);
+}
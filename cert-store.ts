@@ -0,0 +1,227 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tls from 'tls';
+import { logger } from './logger';
+
+export interface CertificateEntry {
+  certFile: string;
+  keyFile: string;
+  // 证书对应的主机名（支持 *.example.com），不填则使用证书中的 subjectAltName
+  hosts?: string[];
+}
+
+export interface CertificateStoreOptions {
+  // PEM 证书目录：name.crt + name.key，或 name.pem + name-key.pem
+  directory?: string;
+  certificates?: CertificateEntry[];
+  // 文件变化时自动重新加载（默认开启）
+  watch?: boolean;
+}
+
+interface LoadedCertificate {
+  hosts: string[];
+  context: tls.SecureContext;
+}
+
+// 文件变化后等待一段时间再重新加载，避免证书和私钥只写了一半
+const RELOAD_DELAY = 1000;
+
+/**
+ * 按主机名选择证书（SNI），支持从目录加载和热更新
+ */
+export class CertificateStore {
+  private directory: string | null;
+  private entries: CertificateEntry[];
+  private watchEnabled: boolean;
+  private exact: Map<string, LoadedCertificate> = new Map();
+  private wildcard: Map<string, LoadedCertificate> = new Map();
+  private watchers: fs.FSWatcher[] = [];
+  private reloadTimer: NodeJS.Timeout | null = null;
+  // 创建证书上下文时附加的选项（例如验证客户端证书的CA）
+  private contextOptions: () => tls.SecureContextOptions;
+
+  constructor(options: CertificateStoreOptions = {}, contextOptions: () => tls.SecureContextOptions = () => ({})) {
+    this.contextOptions = contextOptions;
+    this.directory = options.directory || null;
+    this.entries = options.certificates || [];
+    this.watchEnabled = options.watch !== false;
+  }
+
+  public get size(): number {
+    return new Set([...this.exact.values(), ...this.wildcard.values()]).size;
+  }
+
+  public get hostnames(): string[] {
+    return [...this.exact.keys(), ...Array.from(this.wildcard.keys(), suffix => `*.${suffix}`)];
+  }
+
+  /**
+   * 加载所有证书，单个证书出错只记录日志，不影响其他证书
+   */
+  public load(): void {
+    const exact: Map<string, LoadedCertificate> = new Map();
+    const wildcard: Map<string, LoadedCertificate> = new Map();
+    const contextOptions = this.contextOptions();
+
+    const pairs = [...this.scanDirectory(), ...this.entries];
+    for (const entry of pairs) {
+      let loaded: LoadedCertificate | null;
+      try {
+        loaded = loadCertificate(entry, contextOptions);
+      } catch (error: any) {
+        logger.error(`❌ 加载证书失败 ${entry.certFile}:`, error.message);
+        continue;
+      }
+      if (!loaded) continue;
+
+      for (const host of loaded.hosts) {
+        if (host.startsWith('*.')) {
+          wildcard.set(host.slice(2), loaded);
+        } else {
+          exact.set(host, loaded);
+        }
+      }
+    }
+
+    this.exact = exact;
+    this.wildcard = wildcard;
+  }
+
+  /**
+   * 返回主机名对应的证书，没有匹配时返回 null（使用默认证书）
+   */
+  public getContext(servername: string): tls.SecureContext | null {
+    const host = servername.toLowerCase().replace(/\.$/, '');
+    const exact = this.exact.get(host);
+    if (exact) return exact.context;
+
+    // 通配证书只匹配一级子域名
+    const dot = host.indexOf('.');
+    const wildcard = dot > 0 ? this.wildcard.get(host.slice(dot + 1)) : undefined;
+    return wildcard ? wildcard.context : null;
+  }
+
+  /**
+   * 监听证书目录，变化时重新加载并通知调用方（用于更新默认证书）
+   */
+  public watch(extraDirectories: string[], onReload: () => void): void {
+    if (!this.watchEnabled || this.watchers.length > 0) return;
+
+    const directories = new Set(extraDirectories.map(dir => path.resolve(dir)));
+    if (this.directory) {
+      directories.add(path.resolve(this.directory));
+    }
+    for (const entry of this.entries) {
+      directories.add(path.dirname(path.resolve(entry.certFile)));
+      directories.add(path.dirname(path.resolve(entry.keyFile)));
+    }
+
+    for (const directory of directories) {
+      try {
+        const watcher = fs.watch(directory, { persistent: false }, () => this.scheduleReload(onReload));
+        watcher.on('error', (error) => logger.warn(`⚠️  证书目录监听出错 ${directory}:`, error.message));
+        this.watchers.push(watcher);
+      } catch (error: any) {
+        logger.warn(`⚠️  无法监听证书目录 ${directory}:`, error.message);
+      }
+    }
+  }
+
+  public close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  private scheduleReload(onReload: () => void): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      try {
+        this.load();
+      } catch (error: any) {
+        logger.error('❌ 重新加载证书失败:', error.message);
+        return;
+      }
+      logger.info(`🔄 证书已重新加载 (${this.size} 个SNI证书)`);
+      onReload();
+    }, RELOAD_DELAY);
+    this.reloadTimer.unref();
+  }
+
+  /**
+   * 在目录中查找证书和私钥成对的文件
+   */
+  private scanDirectory(): CertificateEntry[] {
+    if (!this.directory) return [];
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.directory);
+    } catch (error: any) {
+      logger.error(`❌ 读取证书目录失败 ${this.directory}:`, error.message);
+      return [];
+    }
+
+    const pairs: CertificateEntry[] = [];
+    for (const file of files) {
+      const match = /^(.+)\.(crt|pem)$/.exec(file);
+      if (!match || file.endsWith('-key.pem')) continue;
+
+      const keyFile = [`${match[1]}.key`, `${match[1]}-key.pem`].find(name => files.includes(name));
+      if (keyFile) {
+        pairs.push({ certFile: path.join(this.directory, file), keyFile: path.join(this.directory, keyFile) });
+      }
+    }
+    return pairs;
+  }
+}
+
+function loadCertificate(entry: CertificateEntry, contextOptions: tls.SecureContextOptions): LoadedCertificate | null {
+  const certPem = fs.readFileSync(entry.certFile);
+  const keyPem = fs.readFileSync(entry.keyFile);
+  const x509 = new crypto.X509Certificate(certPem);
+
+  // 跳过目录中的CA证书（自签名的服务器证书通常也带有CA标记，但有 subjectAltName）
+  if (x509.ca && !x509.subjectAltName) return null;
+
+  if (!x509.checkPrivateKey(crypto.createPrivateKey(keyPem))) {
+    throw new Error(`私钥与证书不匹配: ${entry.keyFile}`);
+  }
+
+  const hosts = (entry.hosts && entry.hosts.length > 0 ? entry.hosts : certificateHosts(x509))
+    .map(host => host.toLowerCase().replace(/\.$/, ''));
+  if (hosts.length === 0) {
+    throw new Error('证书中没有可用的主机名');
+  }
+
+  if (new Date(x509.validTo).getTime() < Date.now()) {
+    logger.warn(`⚠️  证书已过期 ${entry.certFile} (${x509.validTo})`);
+  }
+
+  return {
+    hosts,
+    context: tls.createSecureContext({ ...contextOptions, cert: certPem, key: keyPem })
+  };
+}
+
+/**
+ * 证书中的 DNS 名称，没有 subjectAltName 时使用 CN
+ */
+function certificateHosts(x509: crypto.X509Certificate): string[] {
+  if (x509.subjectAltName) {
+    return x509.subjectAltName.split(/,\s*/)
+      .filter(name => name.startsWith('DNS:'))
+      .map(name => name.slice(4));
+  }
+  const commonName = /^CN=(.+)$/m.exec(x509.subject);
+  return commonName ? [commonName[1]] : [];
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export type ClientIdentityField = 'cn' | 'email' | 'dns' | 'uri';
+
+export interface ClientAuthOptions {
+  // 签发客户端证书的CA
+  caFile: string;
+  // 证书吊销列表（PEM或DER），文件更新后自动重新加载
+  crlFile?: string;
+  // 允许没有客户端证书的连接（之后仍需通过 Basic 认证，如果已开启），默认 false
+  optional?: boolean;
+  // 作为用户名的证书字段（默认 cn；email/dns/uri 取 subjectAltName 中的第一个对应条目）
+  identityField?: ClientIdentityField;
+}
+
+/**
+ * 客户端证书（mTLS）认证：验证证书链和吊销状态，并从证书中取出用户身份
+ */
+export class ClientCertificateAuth {
+  public readonly optional: boolean;
+  private caFile: string;
+  private crlFile: string | null;
+  private identityField: ClientIdentityField;
+
+  constructor(options: ClientAuthOptions) {
+    if (!options.caFile) {
+      throw new Error('客户端证书认证需要配置 caFile');
+    }
+    if (options.identityField && !['cn', 'email', 'dns', 'uri'].includes(options.identityField)) {
+      throw new Error(`客户端证书身份字段无效: ${options.identityField}`);
+    }
+
+    this.caFile = options.caFile;
+    this.crlFile = options.crlFile || null;
+    this.optional = options.optional === true;
+    this.identityField = options.identityField || 'cn';
+  }
+
+  /**
+   * 需要监听变化的文件（CA 和 CRL）
+   */
+  public get files(): string[] {
+    return this.crlFile ? [this.caFile, this.crlFile] : [this.caFile];
+  }
+
+  /**
+   * 验证客户端证书用的CA和CRL，每次调用都重新读取文件，用于热更新
+   */
+  public contextOptions(): tls.SecureContextOptions {
+    return {
+      ca: [fs.readFileSync(this.caFile)],
+      ...(this.crlFile && { crl: fs.readFileSync(this.crlFile) })
+    };
+  }
+
+  /**
+   * 客户端是否发送了证书（不论是否通过验证）
+   */
+  public hasCertificate(socket: net.Socket): boolean {
+    // 明文HTTP监听端口上的连接没有客户端证书
+    if (!(socket instanceof tls.TLSSocket)) return false;
+    const cert = socket.getPeerCertificate();
+    return !!cert && Object.keys(cert).length > 0;
+  }
+
+  /**
+   * 返回通过验证的客户端证书对应的用户名，没有证书或验证失败返回 null
+   */
+  public identify(socket: net.Socket): string | null {
+    if (!(socket instanceof tls.TLSSocket) || !socket.authorized || !this.hasCertificate(socket)) {
+      return null;
+    }
+
+    const cert = socket.getPeerCertificate();
+
+    if (this.identityField === 'cn') {
+      const commonName = cert.subject && cert.subject.CN;
+      return (Array.isArray(commonName) ? commonName[0] : commonName) || null;
+    }
+
+    const prefix = { email: 'email:', dns: 'DNS:', uri: 'URI:' }[this.identityField];
+    const entry = (cert.subjectaltname || '').split(/,\s*/).find(name => name.startsWith(prefix));
+    return entry ? entry.slice(prefix.length) : null;
+  }
+
+  /**
+   * 客户端证书验证失败的原因，用于日志
+   */
+  public describeFailure(socket: net.Socket): string {
+    return socket instanceof tls.TLSSocket && socket.authorizationError ? String(socket.authorizationError) : '没有客户端证书';
+  }
+}
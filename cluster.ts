@@ -0,0 +1,508 @@
+import cluster, { Worker } from 'cluster';
+import * as os from 'os';
+import * as path from 'path';
+import type { HttpsProxyOptions } from './https-server';
+import { ProxyMetrics, MetricsSnapshot, Counter, Gauge } from './metrics';
+import { TunnelRecord } from './connection-registry';
+import { AgentStats } from './agent-pool';
+import { TrafficUsage, DEFAULT_USAGE_FILE, BandwidthOptions, QuotaOptions, RateOptions } from './bandwidth';
+import { LimitOptions, RateLimitOptions } from './rate-limit';
+import { logger } from './logger';
+
+// 工作进程编号（从1开始），工作进程重启后编号不变
+const WORKER_INDEX_ENV = 'PROXY_WORKER_INDEX';
+
+// 向其他工作进程收集数据的超时时间，没有按时回复的进程会被跳过
+const COLLECT_TIMEOUT = 2000;
+
+export interface ClusterOptions {
+  workers: number;
+  // 重启崩溃的工作进程前的等待时间（默认1秒），连续崩溃时加倍，最多30秒
+  restartDelay?: number;
+  // 等待工作进程启动的时间（默认30秒）
+  startTimeout?: number;
+  // 停止时等待工作进程结束已有连接的时间，之后强制结束（默认35秒）
+  stopTimeout?: number;
+}
+
+/**
+ * 工作进程提供给集群的数据和操作
+ */
+export interface WorkerHandlers {
+  metrics: () => MetricsSnapshot;
+  connections: () => { active: TunnelRecord[]; recent: TunnelRecord[] };
+  kill: (id: number) => boolean;
+  killHost: (hostname: string) => number;
+  pools: () => AgentStats[];
+  traffic: () => TrafficUsage[];
+  // 主进程要求重新加载配置 / 停止服务
+  reload: () => void;
+  shutdown: () => void;
+}
+
+export interface ClusterConnections {
+  active: TunnelRecord[];
+  recent: TunnelRecord[];
+}
+
+type ClusterAction = 'metrics' | 'connections' | 'kill' | 'killHost' | 'pools' | 'traffic';
+
+type ClusterMessage =
+  | { type: 'cluster-ready' }
+  | { type: 'cluster-request'; id: number; action: ClusterAction; args: any[]; worker?: number }
+  | { type: 'cluster-response'; id: number; result?: any; error?: string }
+  | { type: 'cluster-collect'; id: number; action: ClusterAction; args: any[] }
+  | { type: 'cluster-collected'; id: number; result: any }
+  | { type: 'cluster-reload' }
+  | { type: 'cluster-shutdown' };
+
+/**
+ * 工作进程数量："auto" 表示CPU核数，不填或 1 表示不使用集群模式
+ */
+export function resolveWorkerCount(value: string | undefined): number {
+  if (!value) return 1;
+  if (value === 'auto') return os.cpus().length;
+  const count = parseInt(value, 10);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`无效的工作进程数量: ${value}`);
+  }
+  return count;
+}
+
+/**
+ * 当前进程在集群中的编号，不是集群工作进程时返回 null
+ */
+export function clusterWorkerIndex(): number | null {
+  return cluster.isWorker && process.env[WORKER_INDEX_ENV] ? parseInt(process.env[WORKER_INDEX_ENV]!, 10) : null;
+}
+
+/**
+ * 工作进程使用各自的日志文件（access.log -> access.2.log）和流量用量文件，避免多个进程同时写同一个文件；
+ * 限速、带宽和流量配额在每个工作进程中分别计数，按工作进程数平分，集群合计与配置的值大致相同
+ */
+export function workerOptions(options: HttpsProxyOptions, index: number, count: number): HttpsProxyOptions {
+  const suffix = (file: string | undefined) => {
+    if (!file || file === '-') return file;
+    const parsed = path.parse(file);
+    return path.join(parsed.dir, `${parsed.name}.${index}${parsed.ext}`);
+  };
+
+  const result = { ...options };
+  if (options.logging) {
+    result.logging = { ...options.logging, file: suffix(options.logging.file), accessLog: suffix(options.logging.accessLog) };
+  }
+  if (options.bandwidth && options.bandwidth.quotas) {
+    result.bandwidth = { ...options.bandwidth, usageFile: suffix(options.bandwidth.usageFile || DEFAULT_USAGE_FILE) };
+  }
+  if (count > 1) {
+    if (options.rateLimits) {
+      result.rateLimits = divideRateLimits(options.rateLimits, count);
+    }
+    if (result.bandwidth) {
+      result.bandwidth = divideBandwidth(result.bandwidth, count);
+    }
+  }
+  return result;
+}
+
+/**
+ * 整数限额（突发数、并发数、字节数）平分后向下取整，至少为 1
+ */
+function share(value: number | undefined, count: number): number | undefined {
+  return value === undefined ? undefined : Math.max(1, Math.floor(value / count));
+}
+
+function divideLimit<T extends LimitOptions>(limit: T, count: number): T {
+  return {
+    ...limit,
+    rate: limit.rate === undefined ? undefined : limit.rate / count,
+    burst: share(limit.burst, count),
+    maxConcurrent: share(limit.maxConcurrent, count)
+  };
+}
+
+function divideRateLimits(options: RateLimitOptions, count: number): RateLimitOptions {
+  return {
+    ...options,
+    client: options.client && divideLimit(options.client, count),
+    user: options.user && divideLimit(options.user, count),
+    host: options.host && divideLimit(options.host, count),
+    hostRules: options.hostRules && options.hostRules.map(rule => divideLimit(rule, count))
+  };
+}
+
+function divideBandwidth(options: BandwidthOptions, count: number): BandwidthOptions {
+  const rates = (rate: RateOptions | undefined) => rate && { upload: share(rate.upload, count), download: share(rate.download, count) };
+  const quota = (value: QuotaOptions | undefined) => value && { daily: share(value.daily, count), monthly: share(value.monthly, count) };
+  const quotas = options.quotas;
+  return {
+    ...options,
+    global: rates(options.global),
+    client: rates(options.client),
+    user: rates(options.user),
+    quotas: quotas && { client: quota(quotas.client), user: quota(quotas.user), host: quota(quotas.host) }
+  };
+}
+
+/**
+ * 集群主进程：启动工作进程并在崩溃后重启，汇总各进程的监控指标和连接，协调重新加载和停止
+ * 监听端口由 Node.js cluster 在工作进程间共享
+ */
+export class ClusterPrimary {
+  private options: Required<ClusterOptions>;
+  // 编号 -> 当前的工作进程
+  private slots: Map<number, Worker> = new Map();
+  private ready: Set<Worker> = new Set();
+  // 每个编号最近的崩溃时间，用于计算重启等待时间
+  private crashes: Map<number, number[]> = new Map();
+  private stopping = false;
+  private restarting = false;
+  private nextRequestId = 1;
+  private collecting: Map<number, { results: Array<{ worker: number; result: any }>; remaining: number; finish: () => void }> = new Map();
+  private restarts = new Counter('proxy_cluster_worker_restarts_total', '工作进程异常退出后的重启次数');
+
+  constructor(options: ClusterOptions) {
+    this.options = {
+      workers: options.workers,
+      restartDelay: options.restartDelay || 1000,
+      startTimeout: options.startTimeout || 30000,
+      stopTimeout: options.stopTimeout || 35000
+    };
+  }
+
+  /**
+   * 先启动一个工作进程（首次运行时由它生成证书），成功后再启动其余的工作进程
+   */
+  public async start(): Promise<void> {
+    await this.waitReady(this.fork(1));
+    const others: Promise<void>[] = [];
+    for (let index = 2; index <= this.options.workers; index++) {
+      others.push(this.waitReady(this.fork(index)));
+    }
+    await Promise.all(others);
+  }
+
+  /**
+   * 通知所有工作进程重新加载配置
+   */
+  public reload(): void {
+    for (const worker of this.slots.values()) {
+      this.send(worker, { type: 'cluster-reload' });
+    }
+  }
+
+  /**
+   * 逐个替换工作进程：新进程开始接受连接后，旧进程停止接受连接并等待已有连接结束
+   */
+  public async restartWorkers(): Promise<void> {
+    if (this.restarting || this.stopping) return;
+    this.restarting = true;
+    try {
+      for (const [index, old] of Array.from(this.slots)) {
+        const worker = this.fork(index);
+        try {
+          await this.waitReady(worker);
+        } catch (error: any) {
+          // 新进程启动失败时保留旧进程，停止替换
+          this.slots.set(index, old);
+          throw new Error(`工作进程 #${index} 启动失败: ${error.message}`);
+        }
+        logger.info(`🔁 工作进程 #${index} 已替换 (PID ${old.process.pid} -> ${worker.process.pid})`);
+        this.send(old, { type: 'cluster-shutdown' });
+      }
+    } finally {
+      this.restarting = false;
+    }
+  }
+
+  /**
+   * 停止所有工作进程，超过 stopTimeout 后强制结束
+   */
+  public stop(): Promise<void> {
+    this.stopping = true;
+    const workers = Object.values(cluster.workers || {}).filter((worker): worker is Worker => !!worker);
+    if (workers.length === 0) return Promise.resolve();
+
+    return new Promise(resolve => {
+      let remaining = workers.length;
+      const timer = setTimeout(() => {
+        logger.warn(`⚠️  ${remaining} 个工作进程没有按时退出，强制结束`);
+        workers.forEach(worker => worker.isDead() || worker.process.kill('SIGKILL'));
+      }, this.options.stopTimeout);
+
+      for (const worker of workers) {
+        worker.once('exit', () => {
+          if (--remaining === 0) {
+            clearTimeout(timer);
+            resolve();
+          }
+        });
+        this.send(worker, { type: 'cluster-shutdown' });
+      }
+    });
+  }
+
+  private fork(index: number): Worker {
+    const worker = cluster.fork({ [WORKER_INDEX_ENV]: String(index) });
+    this.slots.set(index, worker);
+    worker.on('message', (message: ClusterMessage) => this.handleMessage(worker, message));
+    worker.on('exit', (code, signal) => this.handleExit(worker, index, code, signal));
+    return worker;
+  }
+
+  private waitReady(worker: Worker): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        cleanup();
+        worker.process.kill();
+        reject(new Error(`${this.options.startTimeout / 1000} 秒内没有开始接受连接`));
+      }, this.options.startTimeout);
+      const onMessage = (message: ClusterMessage) => {
+        if (message && message.type === 'cluster-ready') {
+          cleanup();
+          resolve();
+        }
+      };
+      const onExit = (code: number | null, signal: string | null) => {
+        cleanup();
+        reject(new Error(`进程已退出 (退出码 ${code === null ? signal : code})`));
+      };
+      const cleanup = () => {
+        clearTimeout(timer);
+        worker.removeListener('message', onMessage);
+        worker.removeListener('exit', onExit);
+      };
+      worker.on('message', onMessage);
+      worker.once('exit', onExit);
+    });
+  }
+
+  private handleExit(worker: Worker, index: number, code: number | null, signal: string | null): void {
+    this.ready.delete(worker);
+    // 已被替换的旧进程、启动失败的新进程和停止时退出的进程都不需要重启
+    if (this.stopping || this.slots.get(index) !== worker) return;
+    this.slots.delete(index);
+
+    const now = Date.now();
+    const recent = (this.crashes.get(index) || []).filter(time => now - time < 60000);
+    recent.push(now);
+    this.crashes.set(index, recent);
+    const delay = Math.min(this.options.restartDelay * 2 ** (recent.length - 1), 30000);
+
+    logger.error(`❌ 工作进程 #${index} (PID ${worker.process.pid}) 退出 (${signal || `退出码 ${code}`})，${delay / 1000} 秒后重启`);
+    this.restarts.inc();
+    setTimeout(() => {
+      if (this.stopping || this.slots.has(index)) return;
+      this.waitReady(this.fork(index)).catch((error: Error) => {
+        logger.error(`❌ 工作进程 #${index} 重启失败:`, error.message);
+      });
+    }, delay);
+  }
+
+  private handleMessage(worker: Worker, message: ClusterMessage): void {
+    if (!message || typeof message !== 'object') return;
+
+    switch (message.type) {
+      case 'cluster-ready':
+        this.ready.add(worker);
+        break;
+      case 'cluster-request':
+        this.collect(message.action, message.args, message.worker)
+          .then(result => this.send(worker, { type: 'cluster-response', id: message.id, result }))
+          .catch((error: Error) => this.send(worker, { type: 'cluster-response', id: message.id, error: error.message }));
+        break;
+      case 'cluster-collected': {
+        const request = this.collecting.get(message.id);
+        if (request) {
+          request.results.push({ worker: this.indexOf(worker), result: message.result });
+          if (--request.remaining === 0) request.finish();
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 向工作进程收集数据并汇总，worker 指定时只发给该编号的进程
+   */
+  private collect(action: ClusterAction, args: any[], only?: number): Promise<any> {
+    const targets = Array.from(this.slots)
+      .filter(([index, worker]) => this.ready.has(worker) && (only === undefined || index === only))
+      .map(([, worker]) => worker);
+    const id = this.nextRequestId++;
+
+    return new Promise<Array<{ worker: number; result: any }>>(resolve => {
+      const results: Array<{ worker: number; result: any }> = [];
+      const finish = () => {
+        clearTimeout(timer);
+        this.collecting.delete(id);
+        resolve(results);
+      };
+      const timer = setTimeout(finish, COLLECT_TIMEOUT);
+      if (targets.length === 0) {
+        finish();
+        return;
+      }
+      this.collecting.set(id, { results, remaining: targets.length, finish });
+      targets.forEach(worker => this.send(worker, { type: 'cluster-collect', id, action, args }));
+    }).then(results => this.combine(action, results));
+  }
+
+  private combine(action: ClusterAction, results: Array<{ worker: number; result: any }>): any {
+    switch (action) {
+      case 'metrics': {
+        const metrics = new ProxyMetrics();
+        results.forEach(({ result }) => metrics.merge(result));
+        const workers = new Gauge('proxy_cluster_workers', '正在运行的工作进程数');
+        workers.inc({}, this.ready.size);
+        return [metrics.render().trimEnd(), workers.render(), this.restarts.render()].join('\n') + '\n';
+      }
+      case 'connections': {
+        const connections: ClusterConnections = { active: [], recent: [] };
+        for (const { result } of results) {
+          connections.active.push(...result.active);
+          connections.recent.push(...result.recent);
+        }
+        connections.active.sort((a, b) => a.startTime.localeCompare(b.startTime));
+        connections.recent.sort((a, b) => (b.endTime || '').localeCompare(a.endTime || ''));
+        connections.recent.length = Math.min(connections.recent.length, 100);
+        return connections;
+      }
+      case 'kill':
+        return results.some(({ result }) => result);
+      case 'killHost':
+        return results.reduce((total, { result }) => total + result, 0);
+      case 'pools':
+      case 'traffic':
+        return results.reduce((all: any[], { result }) => all.concat(result), []);
+    }
+  }
+
+  private indexOf(worker: Worker): number {
+    for (const [index, current] of this.slots) {
+      if (current === worker) return index;
+    }
+    return 0;
+  }
+
+  private send(worker: Worker, message: ClusterMessage): void {
+    if (worker.isConnected()) {
+      worker.send(message);
+    }
+  }
+}
+
+/**
+ * 集群工作进程：回复主进程的数据收集，通过主进程查询整个集群的指标和连接
+ */
+export class ClusterWorker {
+  public readonly index: number;
+  private nextRequestId = 1;
+  private pending: Map<number, { resolve: (result: any) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = new Map();
+
+  constructor(private handlers: WorkerHandlers) {
+    this.index = parseInt(process.env[WORKER_INDEX_ENV] || '0', 10);
+    process.on('message', (message: ClusterMessage) => this.handleMessage(message));
+  }
+
+  /**
+   * 通知主进程已开始接受连接
+   */
+  public ready(): void {
+    this.send({ type: 'cluster-ready' });
+  }
+
+  public metrics(): Promise<string> {
+    return this.request('metrics', []);
+  }
+
+  public connections(): Promise<ClusterConnections> {
+    return this.request('connections', []);
+  }
+
+  /**
+   * 断开隧道，worker 为隧道所在的工作进程编号（不填则在所有进程中查找）
+   */
+  public kill(id: number, worker?: number): Promise<boolean> {
+    return this.request('kill', [id], worker);
+  }
+
+  public killHost(hostname: string): Promise<number> {
+    return this.request('killHost', [hostname]);
+  }
+
+  public pools(): Promise<AgentStats[]> {
+    return this.request('pools', []);
+  }
+
+  public traffic(): Promise<TrafficUsage[]> {
+    return this.request('traffic', []);
+  }
+
+  private request(action: ClusterAction, args: any[], worker?: number): Promise<any> {
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error('集群主进程没有响应'));
+      }, COLLECT_TIMEOUT * 2);
+      this.pending.set(id, { resolve, reject, timer });
+      this.send({ type: 'cluster-request', id, action, args, worker });
+    });
+  }
+
+  private handleMessage(message: ClusterMessage): void {
+    if (!message || typeof message !== 'object') return;
+
+    switch (message.type) {
+      case 'cluster-collect':
+        this.send({ type: 'cluster-collected', id: message.id, result: this.local(message.action, message.args) });
+        break;
+      case 'cluster-response': {
+        const request = this.pending.get(message.id);
+        if (!request) return;
+        this.pending.delete(message.id);
+        clearTimeout(request.timer);
+        if (message.error) {
+          request.reject(new Error(message.error));
+        } else {
+          request.resolve(message.result);
+        }
+        break;
+      }
+      case 'cluster-reload':
+        this.handlers.reload();
+        break;
+      case 'cluster-shutdown':
+        this.handlers.shutdown();
+        break;
+    }
+  }
+
+  private local(action: ClusterAction, args: any[]): any {
+    switch (action) {
+      case 'metrics':
+        return this.handlers.metrics();
+      case 'connections': {
+        // 标记隧道所在的工作进程，断开时发给对应的进程
+        const { active, recent } = this.handlers.connections();
+        const mark = (record: TunnelRecord) => ({ ...record, worker: this.index });
+        return { active: active.map(mark), recent: recent.map(mark) };
+      }
+      case 'kill':
+        return this.handlers.kill(args[0]);
+      case 'killHost':
+        return this.handlers.killHost(args[0]);
+      case 'pools':
+        return this.handlers.pools().map(stats => ({ ...stats, worker: this.index }));
+      case 'traffic':
+        return this.handlers.traffic().map(usage => ({ ...usage, worker: this.index }));
+    }
+  }
+
+  private send(message: ClusterMessage): void {
+    if (process.send && process.connected) {
+      process.send(message);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import type { HttpsProxyOptions } from './https-server';
+import { logger } from './logger';
+
+/**
+ * 配置项的结构描述，用于校验配置文件
+ */
+type Schema =
+  | { type: 'string' | 'boolean' }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'enum'; values: string[] }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] }
+  | { type: 'record'; values: Schema }
+  | { type: 'oneOf'; options: Schema[]; description: string };
+
+const str: Schema = { type: 'string' };
+const bool: Schema = { type: 'boolean' };
+const port: Schema = { type: 'number', min: 1, max: 65535, integer: true };
+// 毫秒数
+const duration: Schema = { type: 'number', min: 0, integer: true };
+const count: Schema = { type: 'number', min: 1, integer: true };
+const strings: Schema = { type: 'array', items: str };
+
+function obj(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return { type: 'object', properties, required };
+}
+
+function oneOf(values: string[]): Schema {
+  return { type: 'enum', values };
+}
+
+const accessControl = obj({
+  rules: {
+    type: 'array',
+    items: obj({
+      id: str,
+      action: oneOf(['allow', 'deny']),
+      hosts: strings,
+      ports: { type: 'array', items: { type: 'oneOf', options: [port, str], description: '端口号或端口范围字符串（例如 "8000-9000"）' } }
+    }, ['action'])
+  },
+  defaultAction: oneOf(['allow', 'deny']),
+  blockPrivateNetworks: bool
+});
+
+// 限速：每秒请求数可以是小数
+const limit: Record<string, Schema> = {
+  rate: { type: 'number', min: 0 },
+  burst: count,
+  maxConcurrent: count
+};
+
+// 带宽（字节/秒）和流量配额（字节）
+const rates = obj({ upload: count, download: count });
+const quota = obj({ daily: count, monthly: count });
+
+// WebSocket 和隧道的保活（毫秒）
+const keepAlive: Record<string, Schema> = { idleTimeout: duration, pingInterval: duration, pongTimeout: duration };
+
+const upstreamPool = obj({
+  upstreams: strings,
+  strategy: oneOf(['failover', 'round-robin', 'least-connections', 'latency']),
+  healthCheck: obj({ interval: duration, timeout: duration, probeTarget: str }),
+  maxFailures: count,
+  ejectionTime: duration
+}, ['upstreams']);
+
+const PROXY_OPTIONS_SCHEMA = obj({
+  // 监听
+  port,
+  httpPort: port,
+  sniffProtocol: bool,
+  socksPort: port,
+  socksUdp: bool,
+  // 证书和TLS
+  certFile: str,
+  keyFile: str,
+  caFile: str,
+  hostnames: strings,
+  sniCertificates: obj({
+    directory: str,
+    certificates: { type: 'array', items: obj({ certFile: str, keyFile: str, hosts: strings }, ['certFile', 'keyFile']) },
+    watch: bool
+  }),
+  tls: obj({
+    ciphers: strings,
+    minVersion: oneOf(['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3']),
+    sessionTimeout: { type: 'number', min: 0, integer: true }
+  }),
+  intercept: obj({ hosts: strings, ports: { type: 'array', items: port }, caCertFile: str, caKeyFile: str, cacheSize: count, cacheDir: str }),
+  // 超时
+  timeout: duration,
+  timeouts: obj({ connect: duration, tunnelIdle: duration, handshake: duration, keepAlive: duration, headers: duration, drain: duration }),
+  // 认证
+  users: { type: 'array', items: obj({ username: str, password: str }, ['username', 'password']) },
+  htpasswdFile: str,
+  authRealm: str,
+  clientAuth: obj({ caFile: str, crlFile: str, optional: bool, identityField: oneOf(['cn', 'email', 'dns', 'uri']) }, ['caFile']),
+  // 访问控制
+  userPolicies: { type: 'record', values: accessControl },
+  accessControl,
+  rateLimits: obj({
+    client: obj(limit),
+    user: obj(limit),
+    host: obj(limit),
+    hostRules: { type: 'array', items: obj({ id: str, hosts: strings, ...limit }, ['hosts']) },
+    queue: obj({ timeout: duration, maxSize: count })
+  }),
+  bandwidth: obj({
+    global: rates,
+    client: rates,
+    user: rates,
+    quotas: obj({ client: quota, user: quota, host: quota }),
+    usageFile: str
+  }),
+  // 上游
+  upstreamProxy: str,
+  routing: obj({
+    upstreams: { type: 'record', values: { type: 'oneOf', options: [str, upstreamPool], description: '代理地址或代理池配置' } },
+    rules: { type: 'array', items: obj({ id: str, hosts: strings, target: str }, ['hosts', 'target']) },
+    defaultRoute: str,
+    noProxy: str
+  }),
+  pacFile: str,
+  dns: obj({
+    hosts: { type: 'record', values: { type: 'oneOf', options: [str, strings], description: 'IP地址或IP地址列表' } },
+    hostsFile: str,
+    servers: strings,
+    order: oneOf(['ipv4first', 'ipv6first', 'ipv4only', 'ipv6only']),
+    cacheSize: count,
+    // 秒数
+    minTtl: { type: 'number', min: 0, integer: true },
+    maxTtl: { type: 'number', min: 0, integer: true },
+    systemTtl: { type: 'number', min: 0, integer: true },
+    timeout: duration,
+    happyEyeballsDelay: duration
+  }),
+  websocket: obj({
+    ...keepAlive,
+    rules: { type: 'array', items: obj({ id: str, hosts: strings, ...keepAlive }, ['hosts']) }
+  }),
+  agentPool: obj({ maxSockets: count, maxFreeSockets: count, idleTimeout: duration, maxAgents: count }),
+  // 管理和日志
+  adminToken: str,
+  logging: obj({
+    level: oneOf(['debug', 'info', 'warn', 'error']),
+    format: oneOf(['text', 'json']),
+    file: str,
+    accessLog: str,
+    rotation: obj({ maxSize: { type: 'number', min: 0, integer: true }, interval: oneOf(['hourly', 'daily', 'none']), maxFiles: count })
+  })
+});
+
+/**
+ * 按结构描述检查配置，返回所有错误（"路径: 原因"）
+ */
+function validate(value: any, schema: Schema, at: string, errors: string[]): void {
+  const where = at || '(根)';
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') errors.push(`${where}: 应为字符串`);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${where}: 应为 true 或 false`);
+      return;
+    case 'number': {
+      const range = schema.max !== undefined ? ` ${schema.min}-${schema.max} 之间的` : schema.min !== undefined ? `不小于 ${schema.min} 的` : '';
+      const expected = `应为${range}${schema.integer ? '整数' : '数字'}`;
+      if (typeof value !== 'number' || !Number.isFinite(value) || (schema.integer && !Number.isInteger(value)) ||
+          (schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        errors.push(`${where}: ${expected}`);
+      }
+      return;
+    }
+    case 'enum':
+      if (!schema.values.includes(value)) errors.push(`${where}: 应为以下之一: ${schema.values.join(', ')}`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${where}: 应为数组`);
+        return;
+      }
+      value.forEach((item, index) => validate(item, schema.items, `${at}[${index}]`, errors));
+      return;
+    case 'object':
+    case 'record':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${where}: 应为对象`);
+        return;
+      }
+      if (schema.type === 'record') {
+        for (const [key, item] of Object.entries(value)) {
+          validate(item, schema.values, join(at, key), errors);
+        }
+        return;
+      }
+      for (const key of schema.required || []) {
+        if (value[key] === undefined || value[key] === null) errors.push(`${join(at, key)}: 缺少必填项`);
+      }
+      for (const [key, item] of Object.entries(value)) {
+        if (!(key in schema.properties)) {
+          errors.push(`${join(at, key)}: 未知的配置项`);
+        } else if (item !== undefined && item !== null) {
+          validate(item, schema.properties[key], join(at, key), errors);
+        }
+      }
+      return;
+    case 'oneOf': {
+      const matched = schema.options.some(option => {
+        const optionErrors: string[] = [];
+        validate(value, option, at, optionErrors);
+        return optionErrors.length === 0;
+      });
+      if (!matched) errors.push(`${where}: 应为${schema.description}`);
+      return;
+    }
+  }
+}
+
+function join(at: string, key: string): string {
+  return at ? `${at}.${key}` : key;
+}
+
+/**
+ * 检查配置对象，有错误时抛出包含所有错误的异常
+ */
+export function validateConfig(config: unknown, source: string = '配置'): HttpsProxyOptions {
+  const errors: string[] = [];
+  validate(config, PROXY_OPTIONS_SCHEMA, '', errors);
+  if (errors.length > 0) {
+    throw new Error(`${source} 无效:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  // YAML 中的 null（只写了键名）视为未配置
+  return removeNulls(config) as HttpsProxyOptions;
+}
+
+function removeNulls(value: any): any {
+  if (Array.isArray(value)) return value.map(removeNulls);
+  if (typeof value !== 'object' || value === null) return value;
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== null) result[key] = removeNulls(item);
+  }
+  return result;
+}
+
+/**
+ * 读取并检查配置文件：.json 按 JSON 解析，其他扩展名按 YAML 解析
+ */
+export function loadConfigFile(file: string): HttpsProxyOptions {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error: any) {
+    throw new Error(`无法读取配置文件 ${file}: ${error.message}`);
+  }
+
+  let config: unknown;
+  try {
+    config = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : YAML.parse(text);
+  } catch (error: any) {
+    throw new Error(`配置文件 ${file} 格式错误: ${error.message}`);
+  }
+
+  // 空文件等同于没有配置项
+  return validateConfig(config === null || config === undefined ? {} : config, `配置文件 ${file}`);
+}
+
+/**
+ * 监听配置文件变化（包括编辑器先写临时文件再重命名的保存方式），短时间内的多次变化只触发一次
+ * 返回停止监听的函数
+ */
+export function watchConfigFile(file: string, onChange: () => void): () => void {
+  const resolved = path.resolve(file);
+  let timer: NodeJS.Timeout | null = null;
+
+  const watcher = fs.watch(path.dirname(resolved), { persistent: false }, (_event, filename) => {
+    if (filename && filename.toString() !== path.basename(resolved)) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      onChange();
+    }, 500);
+  });
+  watcher.on('error', (error) => logger.warn(`⚠️  配置文件监听出错 ${file}:`, error.message));
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,133 @@
+import * as net from 'net';
+import { unmapIPv4 } from './host-pattern';
+import { logger } from './logger';
+import { TunnelSocket } from './tunnel-socket';
+
+export interface TunnelInfo {
+  hostname: string;
+  port: number;
+  // 使用的上游（DIRECT 或脱敏后的上游代理地址）
+  upstream: string;
+  user: string;
+  // 是否为TLS解密隧道
+  intercepted: boolean;
+}
+
+/**
+ * 隧道记录，admin API 直接返回这些字段
+ */
+export interface TunnelRecord extends TunnelInfo {
+  id: number;
+  client: string;
+  startTime: string;
+  // 客户端发往目标 / 目标发往客户端的字节数
+  bytesSent: number;
+  bytesReceived: number;
+  endTime?: string;
+  // 集群模式下隧道所在的工作进程编号
+  worker?: number;
+}
+
+interface ActiveTunnel {
+  record: TunnelRecord;
+  clientSocket: TunnelSocket;
+  serverSocket: TunnelSocket | null;
+}
+
+/**
+ * 当前打开的隧道和最近关闭的隧道，供管理界面查看和断开连接
+ */
+export class ConnectionRegistry {
+  private nextId = 1;
+  private active: Map<TunnelSocket, ActiveTunnel> = new Map();
+  private closed: TunnelRecord[] = [];
+
+  constructor(private historySize: number = 100) {}
+
+  public get size(): number {
+    return this.active.size;
+  }
+
+  public register(clientSocket: TunnelSocket, serverSocket: TunnelSocket | null, info: TunnelInfo): TunnelRecord {
+    const record: TunnelRecord = {
+      id: this.nextId++,
+      client: formatClient(clientSocket),
+      ...info,
+      startTime: new Date().toISOString(),
+      bytesSent: 0,
+      bytesReceived: 0
+    };
+    this.active.set(clientSocket, { record, clientSocket, serverSocket });
+    return record;
+  }
+
+  /**
+   * 隧道关闭时调用，记录移到最近关闭列表；重复调用无影响
+   */
+  public unregister(clientSocket: TunnelSocket): void {
+    const tunnel = this.active.get(clientSocket);
+    if (!tunnel) return;
+
+    this.active.delete(clientSocket);
+    tunnel.record.endTime = new Date().toISOString();
+    this.closed.unshift(tunnel.record);
+    if (this.closed.length > this.historySize) {
+      this.closed.length = this.historySize;
+    }
+  }
+
+  public list(): TunnelRecord[] {
+    return Array.from(this.active.values(), tunnel => tunnel.record);
+  }
+
+  public recent(): TunnelRecord[] {
+    return this.closed.slice();
+  }
+
+  /**
+   * 断开指定隧道，返回是否找到
+   */
+  public kill(id: number): boolean {
+    for (const tunnel of this.active.values()) {
+      if (tunnel.record.id === id) {
+        this.destroy(tunnel);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 断开到某个主机的所有隧道，返回断开的数量
+   */
+  public killHost(hostname: string): number {
+    const host = hostname.toLowerCase();
+    const tunnels = Array.from(this.active.values()).filter(tunnel => tunnel.record.hostname.toLowerCase() === host);
+    tunnels.forEach(tunnel => this.destroy(tunnel));
+    return tunnels.length;
+  }
+
+  /**
+   * 断开所有隧道（停止服务时使用），返回断开的数量
+   */
+  public killAll(): number {
+    const tunnels = Array.from(this.active.values());
+    tunnels.forEach(tunnel => this.destroy(tunnel));
+    return tunnels.length;
+  }
+
+  private destroy(tunnel: ActiveTunnel): void {
+    logger.info(`✂️  断开隧道 #${tunnel.record.id} ${tunnel.record.hostname}:${tunnel.record.port} (${tunnel.record.client})`);
+    tunnel.clientSocket.destroy();
+    if (tunnel.serverSocket) {
+      tunnel.serverSocket.destroy();
+    }
+    // 正常情况下 socket 关闭时会注销，这里保证被断开的隧道一定离开列表
+    this.unregister(tunnel.clientSocket);
+  }
+}
+
+function formatClient(socket: TunnelSocket): string {
+  const address = unmapIPv4(socket.remoteAddress || '');
+  return net.isIPv6(address) ? `[${address}]:${socket.remotePort}` : `${address}:${socket.remotePort}`;
+}
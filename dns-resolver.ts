@@ -0,0 +1,397 @@
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as net from 'net';
+import { normalizeHost } from './host-pattern';
+import { logger } from './logger';
+
+export type AddressOrder = 'ipv4first' | 'ipv6first' | 'ipv4only' | 'ipv6only';
+
+export interface DnsOptions {
+  // 固定解析（类似 /etc/hosts），例如 { "api.binance.com": "1.2.3.4" }，优先于 hostsFile 和DNS服务器
+  hosts?: Record<string, string | string[]>;
+  // hosts 格式的文件，重新加载配置时重新读取
+  hostsFile?: string;
+  // 上游DNS服务器，按顺序尝试：https:// 开头的是 DNS-over-HTTPS，其他的是 UDP 服务器（例如 "1.1.1.1"、"8.8.8.8:53"）
+  // 不配置时使用系统解析
+  servers?: string[];
+  // 地址族偏好（默认 ipv4first）
+  order?: AddressOrder;
+  // 缓存的域名数量（默认 1000）
+  cacheSize?: number;
+  // 缓存时间的下限和上限（秒），DNS服务器返回的 TTL 会被限制在这个范围内（默认 0 和 3600）
+  minTtl?: number;
+  maxTtl?: number;
+  // 系统解析不返回 TTL，结果缓存的秒数（默认 0，不缓存）
+  systemTtl?: number;
+  // 每次查询的超时时间（默认 5 秒）
+  timeout?: number;
+  // Happy Eyeballs：连接第一个地址后等待多久开始尝试下一个地址（默认 250 毫秒）
+  happyEyeballsDelay?: number;
+}
+
+interface Answer {
+  address: string;
+  ttl: number;
+}
+
+interface CacheEntry {
+  addresses: dns.LookupAddress[];
+  expires: number;
+}
+
+type Upstream =
+  | { type: 'doh'; url: string }
+  | { type: 'udp'; server: string; resolver: dns.promises.Resolver };
+
+// DNS 报文中的记录类型
+const TYPE_A = 1;
+const TYPE_AAAA = 28;
+
+// 这些错误表示域名确实没有对应记录，不再尝试下一个服务器
+const NOT_FOUND_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+/**
+ * 目标主机名解析：固定解析、按 TTL 缓存、DNS-over-HTTPS/UDP 上游服务器和地址族偏好
+ * 返回的地址按偏好的地址族交替排列，供 Happy Eyeballs 依次尝试
+ */
+export class DnsResolver {
+  private options: DnsOptions;
+  private hosts: Map<string, dns.LookupAddress[]>;
+  private upstreams: Upstream[];
+  private cache: Map<string, CacheEntry> = new Map();
+  private pending: Map<string, Promise<dns.LookupAddress[]>> = new Map();
+
+  constructor(options: DnsOptions = {}) {
+    this.options = options;
+    this.hosts = loadHosts(options);
+    this.upstreams = (options.servers || []).map(server => createUpstream(server, options.timeout || 5000));
+
+    if (this.hosts.size > 0) {
+      logger.info(`📒 已加载 ${this.hosts.size} 条固定解析`);
+    }
+    if (this.upstreams.length > 0) {
+      logger.info(`🔎 DNS服务器: ${this.upstreams.map(describeUpstream).join(', ')}`);
+    }
+  }
+
+  public get happyEyeballsDelay(): number {
+    return this.options.happyEyeballsDelay || 250;
+  }
+
+  /**
+   * 解析主机名，没有可用地址时抛出 code 为 ENOTFOUND 的异常
+   */
+  public async resolve(hostname: string): Promise<dns.LookupAddress[]> {
+    const host = normalizeHost(hostname);
+    const family = net.isIP(host);
+    if (family) {
+      return [{ address: host, family }];
+    }
+
+    const pinned = this.hosts.get(host);
+    if (pinned) {
+      return this.sort(pinned, host);
+    }
+
+    const cached = this.cache.get(host);
+    if (cached) {
+      if (cached.expires > Date.now()) {
+        return cached.addresses;
+      }
+      this.cache.delete(host);
+    }
+
+    // 同一域名同时只查询一次
+    let pending = this.pending.get(host);
+    if (!pending) {
+      pending = this.query(host).finally(() => this.pending.delete(host));
+      this.pending.set(host, pending);
+    }
+    return pending;
+  }
+
+  private async query(host: string): Promise<dns.LookupAddress[]> {
+    let answers: Answer[];
+    let ttl: number;
+
+    if (this.upstreams.length > 0) {
+      answers = await this.queryUpstreams(host);
+      ttl = answers.length > 0 ? Math.min(...answers.map(answer => answer.ttl)) : 0;
+    } else {
+      const results = await dns.promises.lookup(host, { all: true });
+      answers = results.map(result => ({ address: result.address, ttl: 0 }));
+      ttl = this.options.systemTtl || 0;
+    }
+
+    const addresses = this.sort(answers.map(answer => ({ address: answer.address, family: net.isIP(answer.address) })), host);
+    ttl = Math.min(Math.max(ttl, this.options.minTtl || 0), this.options.maxTtl ?? 3600);
+    if (ttl > 0) {
+      this.store(host, addresses, ttl);
+    }
+    return addresses;
+  }
+
+  /**
+   * 按顺序查询上游服务器，网络错误时尝试下一个，域名不存在时直接返回
+   */
+  private async queryUpstreams(host: string): Promise<Answer[]> {
+    const order = this.options.order || 'ipv4first';
+    let lastError: any = null;
+
+    for (const upstream of this.upstreams) {
+      try {
+        const [ipv4, ipv6] = await Promise.all([
+          order === 'ipv6only' ? [] : queryUpstream(upstream, host, TYPE_A, this.options.timeout || 5000),
+          order === 'ipv4only' ? [] : queryUpstream(upstream, host, TYPE_AAAA, this.options.timeout || 5000)
+        ]);
+        return [...ipv4, ...ipv6];
+      } catch (error: any) {
+        if (NOT_FOUND_CODES.has(error.code)) throw error;
+        logger.warn(`⚠️  DNS服务器 ${describeUpstream(upstream)} 查询 ${host} 失败: ${error.code || error.message}`);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * 按地址族偏好过滤并交替排列（RFC 8305），没有可用地址时抛出异常
+   */
+  private sort(addresses: dns.LookupAddress[], host: string): dns.LookupAddress[] {
+    const ipv4 = addresses.filter(address => address.family === 4);
+    const ipv6 = addresses.filter(address => address.family === 6);
+
+    let sorted: dns.LookupAddress[];
+    switch (this.options.order || 'ipv4first') {
+      case 'ipv4only':
+        sorted = ipv4;
+        break;
+      case 'ipv6only':
+        sorted = ipv6;
+        break;
+      case 'ipv6first':
+        sorted = interleave(ipv6, ipv4);
+        break;
+      default:
+        sorted = interleave(ipv4, ipv6);
+    }
+
+    if (sorted.length === 0) {
+      throw notFound(host);
+    }
+    return sorted;
+  }
+
+  private store(host: string, addresses: dns.LookupAddress[], ttl: number): void {
+    // Map 保持插入顺序，超过上限时淘汰最早写入的
+    while (this.cache.size >= (this.options.cacheSize || 1000)) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+    this.cache.set(host, { addresses, expires: Date.now() + ttl * 1000 });
+  }
+}
+
+function loadHosts(options: DnsOptions): Map<string, dns.LookupAddress[]> {
+  const hosts: Map<string, dns.LookupAddress[]> = new Map();
+  const add = (host: string, address: string, source: string) => {
+    const family = net.isIP(address);
+    if (!family) {
+      throw new Error(`${source} 中 ${host} 的地址无效: ${address}`);
+    }
+    const key = normalizeHost(host);
+    const list = hosts.get(key) || [];
+    list.push({ address, family });
+    hosts.set(key, list);
+  };
+
+  if (options.hostsFile) {
+    let text: string;
+    try {
+      text = fs.readFileSync(options.hostsFile, 'utf8');
+    } catch (error: any) {
+      throw new Error(`无法读取hosts文件 ${options.hostsFile}: ${error.message}`);
+    }
+    for (const line of text.split('\n')) {
+      const [address, ...names] = line.replace(/#.*/, '').trim().split(/\s+/);
+      for (const name of address ? names : []) {
+        add(name, address, options.hostsFile);
+      }
+    }
+  }
+
+  // 配置中的固定解析覆盖文件中的同名条目
+  for (const [host, value] of Object.entries(options.hosts || {})) {
+    hosts.delete(normalizeHost(host));
+    for (const address of Array.isArray(value) ? value : [value]) {
+      add(host, address, 'dns.hosts');
+    }
+  }
+
+  return hosts;
+}
+
+function createUpstream(server: string, timeout: number): Upstream {
+  if (/^https:\/\//i.test(server)) {
+    try {
+      new URL(server);
+    } catch {
+      throw new Error(`无效的DNS服务器: ${server}`);
+    }
+    return { type: 'doh', url: server };
+  }
+
+  const address = server.replace(/^udp:\/\//i, '');
+  const resolver = new dns.promises.Resolver({ timeout, tries: 2 });
+  try {
+    resolver.setServers([address]);
+  } catch {
+    throw new Error(`无效的DNS服务器: ${server}`);
+  }
+  return { type: 'udp', server: address, resolver };
+}
+
+function describeUpstream(upstream: Upstream): string {
+  return upstream.type === 'doh' ? upstream.url : upstream.server;
+}
+
+async function queryUpstream(upstream: Upstream, host: string, type: number, timeout: number): Promise<Answer[]> {
+  if (upstream.type === 'udp') {
+    try {
+      return type === TYPE_A
+        ? await upstream.resolver.resolve4(host, { ttl: true })
+        : await upstream.resolver.resolve6(host, { ttl: true });
+    } catch (error: any) {
+      // 只有另一种地址族的记录时返回空，两种都没有时由 sort 报告找不到
+      if (error.code === 'ENODATA') return [];
+      throw error;
+    }
+  }
+
+  const response = await postDnsMessage(upstream.url, encodeQuery(host, type), timeout);
+  return decodeAnswers(response, type, host);
+}
+
+/**
+ * RFC 8484：以 application/dns-message 格式 POST 查询
+ */
+function postDnsMessage(url: string, body: Buffer, timeout: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/dns-message',
+        'Accept': 'application/dns-message',
+        'Content-Length': body.length
+      },
+      timeout
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        if (res.statusCode !== 200) {
+          reject(new Error(`HTTP ${res.statusCode}`));
+        } else {
+          resolve(Buffer.concat(chunks));
+        }
+      });
+      res.on('error', reject);
+    });
+    req.on('timeout', () => req.destroy(Object.assign(new Error('查询超时'), { code: 'ETIMEOUT' })));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+function encodeQuery(host: string, type: number): Buffer {
+  const labels = host.split('.').filter(label => label.length > 0);
+  const name = Buffer.concat([
+    ...labels.map(label => {
+      const bytes = Buffer.from(label, 'ascii');
+      return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    }),
+    Buffer.from([0])
+  ]);
+
+  // ID 为 0（RFC 8484 建议），标志位只设置 RD（期望递归）
+  const header = Buffer.from([0, 0, 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 0]);
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(type, 0);
+  question.writeUInt16BE(1, 2);
+  return Buffer.concat([header, name, question]);
+}
+
+function decodeAnswers(message: Buffer, type: number, host: string): Answer[] {
+  if (message.length < 12) {
+    throw new Error('DNS响应格式错误');
+  }
+  const rcode = message[3] & 0x0f;
+  if (rcode === 3) {
+    throw notFound(host);
+  }
+  if (rcode !== 0) {
+    throw Object.assign(new Error(`DNS服务器返回错误 (RCODE ${rcode})`), { code: 'ESERVFAIL' });
+  }
+
+  const questions = message.readUInt16BE(4);
+  const answers = message.readUInt16BE(6);
+  let offset = 12;
+  for (let i = 0; i < questions; i++) {
+    offset = skipName(message, offset) + 4;
+  }
+
+  // CNAME 等其他记录跳过，只取请求类型的地址
+  const results: Answer[] = [];
+  for (let i = 0; i < answers; i++) {
+    offset = skipName(message, offset);
+    if (offset + 10 > message.length) {
+      throw new Error('DNS响应格式错误');
+    }
+    const recordType = message.readUInt16BE(offset);
+    const ttl = message.readUInt32BE(offset + 4);
+    const length = message.readUInt16BE(offset + 8);
+    const data = message.subarray(offset + 10, offset + 10 + length);
+    offset += 10 + length;
+
+    if (recordType === type && type === TYPE_A && data.length === 4) {
+      results.push({ address: Array.from(data).join('.'), ttl });
+    } else if (recordType === type && type === TYPE_AAAA && data.length === 16) {
+      const groups: string[] = [];
+      for (let j = 0; j < 16; j += 2) {
+        groups.push(data.readUInt16BE(j).toString(16));
+      }
+      results.push({ address: groups.join(':'), ttl });
+    }
+  }
+  return results;
+}
+
+/**
+ * 跳过报文中的域名（标签序列或压缩指针），返回之后的位置
+ */
+function skipName(message: Buffer, offset: number): number {
+  while (offset < message.length) {
+    const length = message[offset];
+    if (length === 0) return offset + 1;
+    if ((length & 0xc0) === 0xc0) return offset + 2;
+    offset += length + 1;
+  }
+  throw new Error('DNS响应格式错误');
+}
+
+function interleave(first: dns.LookupAddress[], second: dns.LookupAddress[]): dns.LookupAddress[] {
+  const result: dns.LookupAddress[] = [];
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    if (i < first.length) result.push(first[i]);
+    if (i < second.length) result.push(second[i]);
+  }
+  return result;
+}
+
+function notFound(host: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`无法解析 ${host}`);
+  error.code = 'ENOTFOUND';
+  return error;
+}
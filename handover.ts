@@ -0,0 +1,99 @@
+import { fork, ChildProcess } from 'child_process';
+import * as net from 'net';
+
+// 新进程通过该环境变量得知需要从父进程接收监听socket
+const HANDOVER_ENV = 'PROXY_HANDOVER';
+
+type HandoverMessage =
+  | { type: 'listener'; name: string }
+  | { type: 'listeners-sent' }
+  | { type: 'ready' };
+
+/**
+ * 当前进程是否由平滑重启启动，需要接收旧进程的监听socket
+ */
+export function isHandoverChild(): boolean {
+  return process.env[HANDOVER_ENV] === '1' && typeof process.send === 'function';
+}
+
+/**
+ * 平滑重启：用相同的参数和环境变量启动新进程，把监听socket交给它
+ * 新进程开始接受连接后 resolve，此时旧进程可以停止接受连接并等待已有连接结束
+ */
+export function spawnSuccessor(listeners: Record<string, net.Server>, timeout: number = 30000): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const child = fork(process.argv[1], process.argv.slice(2), {
+      env: { ...process.env, [HANDOVER_ENV]: '1' },
+      execArgv: process.execArgv
+    });
+
+    let settled = false;
+    const finish = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.removeListener('exit', onExit);
+      if (error) {
+        child.kill();
+        reject(error);
+      } else {
+        // 新进程独立运行，旧进程退出不影响它
+        child.disconnect();
+        child.unref();
+        resolve(child);
+      }
+    };
+    const onExit = (code: number | null, signal: string | null) => {
+      finish(new Error(`新进程启动失败 (退出码 ${code === null ? signal : code})`));
+    };
+
+    const timer = setTimeout(() => finish(new Error(`新进程 ${timeout / 1000} 秒内没有开始接受连接`)), timeout);
+    child.once('exit', onExit);
+    child.once('error', (error) => finish(error));
+    child.on('message', (message: HandoverMessage) => {
+      if (message && message.type === 'ready') {
+        finish(null);
+      }
+    });
+
+    // 带socket的消息按发送顺序到达
+    for (const [name, server] of Object.entries(listeners)) {
+      child.send({ type: 'listener', name } as HandoverMessage, server);
+    }
+    child.send({ type: 'listeners-sent' } as HandoverMessage);
+  });
+}
+
+/**
+ * 在新进程中接收旧进程的监听socket（名称 -> 服务器）
+ */
+export function receiveListeners(timeout: number = 10000): Promise<Record<string, net.Server>> {
+  return new Promise((resolve, reject) => {
+    const listeners: Record<string, net.Server> = {};
+
+    const onMessage = (message: HandoverMessage, handle?: net.Server) => {
+      if (message && message.type === 'listener' && handle) {
+        listeners[message.name] = handle;
+      } else if (message && message.type === 'listeners-sent') {
+        clearTimeout(timer);
+        process.removeListener('message', onMessage);
+        resolve(listeners);
+      }
+    };
+    const timer = setTimeout(() => {
+      process.removeListener('message', onMessage);
+      reject(new Error('没有收到旧进程的监听socket'));
+    }, timeout);
+
+    process.on('message', onMessage);
+  });
+}
+
+/**
+ * 通知旧进程新进程已开始接受连接
+ */
+export function notifyReady(): void {
+  if (process.send) {
+    process.send({ type: 'ready' } as HandoverMessage);
+  }
+}
@@ -0,0 +1,86 @@
+import * as dns from 'dns';
+import * as net from 'net';
+
+/**
+ * 主机匹配列表：精确域名 (api.binance.com)、通配域名 (*.binance.com / .binance.com)、IP 和 CIDR (10.0.0.0/8)
+ */
+export class HostPatternList {
+  private hostnames: Set<string> = new Set();
+  private suffixes: string[] = [];
+  private subnets: net.BlockList | null = null;
+
+  constructor(patterns: string[] = []) {
+    for (const pattern of patterns) {
+      this.add(pattern);
+    }
+  }
+
+  public get isEmpty(): boolean {
+    return this.hostnames.size === 0 && this.suffixes.length === 0 && !this.subnets;
+  }
+
+  /**
+   * 添加一个匹配模式，格式无效时抛出异常
+   */
+  public add(pattern: string): void {
+    const value = pattern.trim().toLowerCase();
+    if (!value) return;
+
+    const [network, prefix] = value.split('/');
+    if (net.isIP(network)) {
+      const family = net.isIPv4(network) ? 'ipv4' : 'ipv6';
+      const bits = prefix === undefined ? (family === 'ipv4' ? 32 : 128) : parseInt(prefix, 10);
+      this.subnets = this.subnets || new net.BlockList();
+      try {
+        this.subnets.addSubnet(network, bits, family);
+      } catch (error) {
+        throw new Error(`无效的CIDR: ${pattern}`);
+      }
+    } else if (value.startsWith('*.')) {
+      this.suffixes.push(value.slice(1));
+    } else if (value.startsWith('.')) {
+      this.suffixes.push(value);
+    } else if (prefix === undefined) {
+      this.hostnames.add(value);
+    } else {
+      throw new Error(`无效的主机匹配模式: ${pattern}`);
+    }
+  }
+
+  /**
+   * 按域名匹配（不区分大小写，忽略结尾的点）
+   */
+  public matchHost(hostname: string): boolean {
+    const host = normalizeHost(hostname);
+    if (this.hostnames.has(host) || this.suffixes.some(suffix => host.endsWith(suffix))) {
+      return true;
+    }
+    // IP字面量直接按网段匹配
+    return net.isIP(host) !== 0 && this.matchAddress(host);
+  }
+
+  /**
+   * 按DNS解析后的地址匹配网段
+   */
+  public matchAddresses(addresses: dns.LookupAddress[]): boolean {
+    return addresses.some(({ address }) => this.matchAddress(address));
+  }
+
+  private matchAddress(address: string): boolean {
+    if (!this.subnets) return false;
+    const normalized = unmapIPv4(address);
+    return this.subnets.check(normalized, net.isIPv4(normalized) ? 'ipv4' : 'ipv6');
+  }
+}
+
+export function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+}
+
+/**
+ * ::ffff:10.0.0.1 这类IPv4映射地址按IPv4处理
+ */
+export function unmapIPv4(address: string): string {
+  const match = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return match ? match[1] : address;
+}
@@ -0,0 +1,134 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as http2 from 'http2';
+import { Duplex } from 'stream';
+import { TunnelSocket } from './tunnel-socket';
+
+const { NGHTTP2_CANCEL } = http2.constants;
+
+// HTTP/2 不允许的连接相关头（RFC 9113 8.2.2）
+const CONNECTION_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade'];
+
+/**
+ * 把 HTTP/2 的 CONNECT 流包装成socket，隧道、限速和连接管理的代码按 TunnelSocket 使用；
+ * 同一条TLS连接上的所有流共用底层socket，keep-alive、Nagle 等socket选项不按流设置
+ */
+class Http2StreamSocket extends Duplex implements TunnelSocket {
+  public readonly remoteAddress: string | undefined;
+  public readonly remotePort: number | undefined;
+
+  constructor(private stream: http2.ServerHttp2Stream) {
+    super();
+    const socket = stream.session && stream.session.socket;
+    this.remoteAddress = socket ? socket.remoteAddress : undefined;
+    this.remotePort = socket ? socket.remotePort : undefined;
+
+    stream.on('data', (chunk: Buffer) => {
+      if (!this.push(chunk)) {
+        stream.pause();
+      }
+    });
+    stream.on('end', () => this.push(null));
+    stream.on('timeout', () => this.emit('timeout'));
+    stream.on('error', (error) => this.destroy(error));
+    stream.once('close', () => this.destroy());
+  }
+
+  public get readyState(): string {
+    return this.destroyed ? 'closed' : 'open';
+  }
+
+  public setTimeout(timeout: number, callback?: () => void): this {
+    this.stream.setTimeout(timeout);
+    if (callback) {
+      if (timeout === 0) {
+        this.removeListener('timeout', callback);
+      } else {
+        this.once('timeout', callback);
+      }
+    }
+    return this;
+  }
+
+  public setKeepAlive(): this {
+    return this;
+  }
+
+  public setNoDelay(): this {
+    return this;
+  }
+
+  public _read(): void {
+    this.stream.resume();
+  }
+
+  public _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.stream.write(chunk, encoding, callback);
+  }
+
+  public _final(callback: (error?: Error | null) => void): void {
+    this.stream.end(callback);
+  }
+
+  public _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    if (!this.stream.destroyed) {
+      if (error || !this.writableEnded) {
+        this.stream.close(NGHTTP2_CANCEL);
+      } else {
+        // 已经结束写入时先发完缓冲的数据再关闭流
+        if (!this.stream.writableEnded) {
+          this.stream.end();
+        }
+        this.stream.close();
+      }
+    }
+    callback(error);
+  }
+}
+
+/**
+ * 把 HTTP/2 流当作客户端socket使用，实现了隧道代码用到的 TunnelSocket 成员
+ */
+export function streamSocket(stream: http2.ServerHttp2Stream): TunnelSocket {
+  return new Http2StreamSocket(stream);
+}
+
+/**
+ * HTTP/2 请求没有绝对URL形式的请求行，由 :scheme、:authority 和 :path 组成目标地址
+ */
+export function http2RequestUrl(headers: http.IncomingHttpHeaders): string {
+  return `${headers[':scheme']}://${headers[':authority']}${headers[':path'] || ''}`;
+}
+
+/**
+ * 去掉 HTTP/2 响应中不允许出现的连接相关头，其余的头名称转为小写
+ */
+export function http2ResponseHeaders(headers: http.IncomingHttpHeaders | http.OutgoingHttpHeaders,
+                                     exclude: string[] = []): http.OutgoingHttpHeaders {
+  const result: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    if (value !== undefined && !CONNECTION_HEADERS.includes(lower) && !exclude.includes(lower)) {
+      result[lower] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * 把 HTTP/2 扩展CONNECT（RFC 8441）的 WebSocket 请求头转换为 HTTP/1.1 的升级请求头（RFC 6455），
+ * HTTP/2 没有 Sec-WebSocket-Key，由代理生成
+ */
+export function websocketRequestHeaders(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const result: http.OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!name.startsWith(':') && value !== undefined) {
+      result[name] = value;
+    }
+  }
+  result.host = String(headers[':authority']);
+  result.connection = 'Upgrade';
+  result.upgrade = String(headers[':protocol']);
+  result['sec-websocket-key'] = crypto.randomBytes(16).toString('base64');
+  return result;
+}
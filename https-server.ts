@@ -1,79 +1,387 @@
 import * as http from 'http';
 import * as https from 'https';
+import * as http2 from 'http2';
+import * as tls from 'tls';
+import * as net from 'net';
 import * as fs from 'fs';
-import * as url from 'url';
 import * as path from 'path';
 import { IncomingMessage, ServerResponse } from 'http';
 import { Socket } from 'net';
 import { HttpProxyAgent } from 'http-proxy-agent';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { SocksProxyAgent } from 'socks-proxy-agent';
+import { ProxyAuthenticator, ProxyUser } from './proxy-auth';
+import { AccessControl, AccessControlOptions, AccessDecision, pinnedLookup } from './access-control';
+import { LookupAddress } from 'dns';
+import { unmapIPv4 } from './host-pattern';
+import { parseAuthority } from './authority';
+import { UpstreamRouter, UpstreamRouterOptions } from './upstream-router';
+import { PacResolver } from './pac-resolver';
+import { UpstreamPool } from './upstream-pool';
+import { openTunnel, TunnelError, TunnelOptions, describeUpstream } from './tunnel';
+import { TlsInterceptor, InterceptOptions } from './tls-intercept';
+import { CertificateStore, CertificateStoreOptions } from './cert-store';
+import { CertificateManager } from './cert-manager';
+import { ClientCertificateAuth, ClientAuthOptions } from './client-auth';
+import { Socks5Server, SocksConnectRequest, SocksReply } from './socks-server';
+import { ProxyMetrics } from './metrics';
+import { ConnectionRegistry } from './connection-registry';
+import { checkAdminAccess, renderAdminPage } from './admin-page';
+import { AgentPool, AgentPoolOptions } from './agent-pool';
+import { RateLimiter, RateLimitOptions, RateLimitError, RateLimitLease, validateRateLimits } from './rate-limit';
+import { BandwidthManager, BandwidthOptions, QuotaExceededError } from './bandwidth';
+import { DnsResolver, DnsOptions } from './dns-resolver';
+import { WebSocketPolicy, WebSocketOptions, keepWebSocketAlive } from './websocket';
+import { socketPair } from './socket-pair';
+import { TunnelSocket } from './tunnel-socket';
+import { streamSocket, http2RequestUrl, http2ResponseHeaders, websocketRequestHeaders } from './http2-stream';
+import { logger, LoggerOptions, LogLevel, networkErrorLevel, errorCode } from './logger';
+import { loadConfigFile, watchConfigFile } from './config';
+import { isHandoverChild, receiveListeners, notifyReady, spawnSuccessor } from './handover';
+import cluster from 'cluster';
+import { ClusterPrimary, ClusterWorker, clusterWorkerIndex, resolveWorkerCount, workerOptions } from './cluster';
+
+/**
+ * 服务端TLS参数
+ */
+export interface TlsOptions {
+  // OpenSSL 加密套件列表（默认兼容旧客户端的 ECDHE/AES 套件）
+  ciphers?: string[];
+  // 最低TLS版本（默认由 OpenSSL 协商）
+  minVersion?: tls.SecureVersion;
+  // 会话恢复的有效期（秒，默认300）
+  sessionTimeout?: number;
+}
+
+/**
+ * 超时配置（毫秒）
+ */
+export interface TimeoutOptions {
+  // 连接目标/上游代理和等待转发请求响应的超时（默认30秒，同 timeout）
+  connect?: number;
+  // 隧道空闲超时，两个方向都没有数据时断开（默认60秒）
+  tunnelIdle?: number;
+  // 客户端TLS握手超时，与明文HTTP共用端口时也用于等待第一个字节（默认45秒）
+  handshake?: number;
+  // HTTP keep-alive 空闲超时，同时作为隧道socket的TCP keep-alive 探测间隔（默认30秒）
+  keepAlive?: number;
+  // 接收请求头的超时（默认60秒）
+  headers?: number;
+  // 停止服务时等待已有隧道和请求结束的时间，超时后强制断开（默认30秒）
+  drain?: number;
+}
 
-interface HttpsProxyOptions {
+export interface HttpsProxyOptions {
   port?: number;
+  // 额外的明文HTTP代理端口（不填则不开启）
+  httpPort?: number;
+  // 在HTTPS端口上同时接受明文HTTP代理请求（按第一个字节识别TLS握手）
+  sniffProtocol?: boolean;
+  // SOCKS5 代理端口（不填则不开启），与HTTP CONNECT共用认证、访问控制和上游路由
+  socksPort?: number;
+  // 允许 SOCKS5 UDP ASSOCIATE（只支持直连目标）
+  socksUdp?: boolean;
   timeout?: number;
   certFile?: string;
   keyFile?: string;
   caFile?: string;
+  // 代理认证：内联用户列表和/或 htpasswd 文件，任一配置即开启认证
+  users?: ProxyUser[];
+  htpasswdFile?: string;
+  authRealm?: string;
+  // 客户端证书（mTLS）认证，证书中的身份作为用户名
+  clientAuth?: ClientAuthOptions;
+  // 按用户名的访问策略，在全局访问控制之后检查（"*" 表示其他已认证用户）
+  userPolicies?: Record<string, AccessControlOptions>;
+  // 目标主机/端口访问控制，默认阻止私有和回环地址
+  accessControl?: AccessControlOptions;
+  // 按客户端IP、用户和目标主机的限速和并发数限制，超过时返回 429（集群模式下按工作进程数平分）
+  rateLimits?: RateLimitOptions;
+  // 隧道的带宽限制和每天/每月的流量配额（集群模式下按工作进程数平分）
+  bandwidth?: BandwidthOptions;
+  // 单个上游代理（不填则从环境变量检测）
+  upstreamProxy?: string;
+  // 按目标选择上游代理的路由表，配置后忽略 upstreamProxy 和代理环境变量（NO_PROXY 除外）
+  routing?: UpstreamRouterOptions;
+  // PAC 文件路径或 http(s) 地址，路由表没有匹配的规则时由 PAC 选择上游代理
+  pacFile?: string;
+  // 目标主机名解析：固定解析、缓存、DNS-over-HTTPS/UDP 服务器和IPv4/IPv6偏好
+  dns?: DnsOptions;
+  // 转发的 WebSocket 和长时间的隧道：按目标的空闲超时和 ping 保活
+  websocket?: WebSocketOptions;
+  // 代理对外使用的域名/IP，自动生成的服务器证书会包含这些名称
+  hostnames?: string[];
+  // 按主机名（SNI）选择的证书，用于通过多个域名访问代理
+  sniCertificates?: CertificateStoreOptions;
+  // TLS 解密（MITM）：用本地CA签发目标证书，解密后重新发起请求，不配置则只做透明隧道
+  intercept?: InterceptOptions;
+  // 管理接口（/admin）和 /metrics 的访问令牌，不配置时只允许本机访问
+  adminToken?: string;
+  // 日志级别、格式、日志文件和访问日志
+  logging?: LoggerOptions;
+  // 转发请求的 keep-alive 连接池
+  agentPool?: AgentPoolOptions;
+  // 加密套件、最低TLS版本等
+  tls?: TlsOptions;
+  timeouts?: TimeoutOptions;
+}
+
+// 修改后需要重启才能生效的配置项
+const RESTART_REQUIRED_OPTIONS: Array<keyof HttpsProxyOptions> = [
+  'port', 'httpPort', 'sniffProtocol', 'socksPort', 'socksUdp', 'certFile', 'keyFile', 'caFile',
+  'hostnames', 'sniCertificates', 'clientAuth'
+];
+
+const DEFAULT_CIPHERS = [
+  'ECDHE-RSA-AES128-GCM-SHA256',
+  'ECDHE-RSA-AES256-GCM-SHA384',
+  'ECDHE-RSA-AES128-SHA256',
+  'ECDHE-RSA-AES256-SHA384',
+  'ECDHE-RSA-AES256-SHA256',
+  'ECDHE-RSA-AES128-SHA',
+  'ECDHE-RSA-AES256-SHA',
+  'AES128-GCM-SHA256',
+  'AES256-GCM-SHA384',
+  'AES128-SHA256',
+  'AES256-SHA256',
+  'AES128-SHA',
+  'AES256-SHA'
+];
+
+/**
+ * 为一个目标选择的上游代理
+ */
+interface UpstreamSelection {
+  rejected: boolean;
+  ruleId: string;
+  // 按顺序尝试的上游代理，null 表示直连
+  upstreams: Array<string | null>;
+  // 上游来自代理池时用于记录连接结果
+  pool: UpstreamPool | null;
+}
+
+/**
+ * 转发请求的访问日志信息，由 forwardHttpRequest 填写
+ */
+interface RequestAccess {
+  user?: string;
+  upstream?: string;
+  bytesUp: number;
+  bytesDown: number;
+  error?: string;
+}
+
+/**
+ * 转发和管理接口处理的请求和响应：HTTP/1.1 或 HTTP/2 兼容API的对象
+ */
+type HttpRequest = IncomingMessage | http2.Http2ServerRequest;
+type HttpResponse = ServerResponse | http2.Http2ServerResponse;
+
+/**
+ * CONNECT 和 Upgrade 处理用到的请求成员，HTTP/1.1 的 IncomingMessage 和 HTTP/2 兼容API的请求都有这些成员
+ */
+type ProxyRequest = Pick<IncomingMessage, 'url' | 'method' | 'headers' | 'httpVersionMajor' | 'socket'>;
+
+/**
+ * 向客户端回复隧道结果，不提供时按HTTP CONNECT回复
+ */
+interface ConnectReply {
+  // 隧道已建立，serverSocket 为到目标或上游代理的连接（解密隧道为 null）
+  established: (serverSocket: Socket | null) => void;
+  failed: (status: string, message: string, headers?: Record<string, string>) => void;
+}
+
+/**
+ * 建立CONNECT隧道过程中的回调
+ */
+interface ConnectHooks {
+  // 建立连接失败时的处理（发送错误响应或尝试下一个上游）
+  onFailure?: (status: string, message: string) => void;
+  // 隧道建立后的通知
+  onEstablished?: (serverSocket: Socket) => void;
+  // 代替HTTP 200响应的回复方式（例如SOCKS5、HTTP/2 的CONNECT流）
+  reply?: ConnectReply;
+}
+
+/**
+ * 向客户端回复 Upgrade 请求的结果，不提供时按HTTP/1.1回复（HTTP/2 扩展CONNECT使用）
+ */
+interface UpgradeReply {
+  // 源站接受了升级，res 为源站的 101 响应
+  upgraded: (res: IncomingMessage) => void;
+  // 代理拒绝或源站没有接受升级，返回写入响应体的流，写完后关闭
+  failed: (status: number, headers: http.OutgoingHttpHeaders) => NodeJS.WritableStream;
+}
+
+/**
+ * 补全超时配置的默认值，timeouts.connect 优先于旧的 timeout 选项
+ */
+function resolveTimeouts(options: HttpsProxyOptions): Required<TimeoutOptions> {
+  const timeouts = options.timeouts || {};
+  return {
+    connect: timeouts.connect || options.timeout || 30000,
+    tunnelIdle: timeouts.tunnelIdle || 60000,
+    handshake: timeouts.handshake || 45000,
+    keepAlive: timeouts.keepAlive || 30000,
+    headers: timeouts.headers || 60000,
+    drain: timeouts.drain === undefined ? 30000 : timeouts.drain
+  };
+}
+
+function pickOptions(options: HttpsProxyOptions, keys: Array<keyof HttpsProxyOptions>): HttpsProxyOptions {
+  const picked: Record<string, any> = {};
+  for (const key of keys) {
+    picked[key] = options[key];
+  }
+  return picked as HttpsProxyOptions;
+}
+
+/**
+ * 依次尝试多个地址都失败时 Node 给出没有 message 的 AggregateError，改为列出每个地址的错误
+ */
+function describeConnectError(error: any): string {
+  if (!error.message && Array.isArray(error.errors)) {
+    return error.errors.map((item: Error) => item.message).join('; ');
+  }
+  return error.message;
+}
+
+/**
+ * 按源站的原始响应头生成转发给客户端的响应头，skip 中的头不转发（不再适用时改为 Connection: close）
+ */
+function formatResponseHead(res: IncomingMessage, skip: string[] = []): string {
+  const lines = [`HTTP/1.1 ${res.statusCode} ${res.statusMessage}`];
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    if (skip.includes(res.rawHeaders[i].toLowerCase())) continue;
+    lines.push(`${res.rawHeaders[i]}: ${res.rawHeaders[i + 1]}`);
+  }
+  if (skip.length > 0) {
+    lines.push('Connection: close');
+  }
+  return `${lines.join('\r\n')}\r\n\r\n`;
+}
+
+/**
+ * 请求目标是否为 origin-form（以单个 / 开头的路径），解密隧道内只接受这种形式
+ */
+function isOriginForm(target: string | undefined): target is string {
+  return !!target && target[0] === '/' && target[1] !== '/' && target[1] !== '\\';
+}
+
+function describeListenAddress(server: net.Server): string {
+  const address = server.address();
+  if (!address || typeof address === 'string') return String(address);
+  return net.isIPv6(address.address) ? `[${address.address}]:${address.port}` : `${address.address}:${address.port}`;
 }
 
 class HttpsProxy {
   private port: number;
-  private timeout: number;
+  private httpPort: number | null;
+  private sniffProtocol: boolean;
+  // 创建时的配置，重新加载时用于比较哪些配置项发生了变化
+  private options: HttpsProxyOptions;
+  private timeouts: Required<TimeoutOptions>;
   private certFile: string;
   private keyFile: string;
   private caFile: string;
+  private fullchainFile: string;
+  private caKeyFile: string;
+  private certStore: CertificateStore;
+  private certManager: CertificateManager;
   private httpsOptions: https.ServerOptions;
-  private upstreamProxy: string | null;
+  private router: UpstreamRouter;
+  private pac: PacResolver | null;
+  private authenticator: ProxyAuthenticator | null;
+  // 记录每个隧道（客户端socket）对应的认证用户
+  private tunnelUsers: WeakMap<TunnelSocket, string> = new WeakMap();
+  // 记录每个隧道的请求方式、目标和开始时间，用于访问日志
+  private tunnelRequests: WeakMap<TunnelSocket, { method: string; target: string; startTime: number }> = new WeakMap();
+  private resolver: DnsResolver;
+  private accessControl: AccessControl;
+  private rateLimiter: RateLimiter;
+  private bandwidth: BandwidthManager;
+  private websocketPolicy: WebSocketPolicy;
+  private clientAuth: ClientCertificateAuth | null;
+  private userPolicies: Map<string, AccessControl>;
+  private interceptor: TlsInterceptor | null;
+  private socksServer: Socks5Server | null;
+  private metrics: ProxyMetrics = new ProxyMetrics();
+  private connections: ConnectionRegistry = new ConnectionRegistry();
+  private agentPool: AgentPool;
+  private adminToken: string | null;
+  // start() 之后的HTTPS（HTTP/2 和 HTTP/1.1）/明文HTTP服务器，重新加载配置时更新TLS参数和超时
+  private server: http2.Http2SecureServer | null = null;
+  private plainServer: http.Server | null = null;
+  // HTTPS端口上的 HTTP/2 连接，停止服务时通知客户端不再发起新的请求
+  private http2Sessions: Set<http2.ServerHttp2Session> = new Set();
+  // 接受连接的服务器（开启协议识别时为 net 服务器，否则就是 server）
+  private listener: net.Server | null = null;
+  // 正在处理的HTTP请求数，停止服务时等待它们完成
+  private activeRequests = 0;
+  private stopping: Promise<void> | null = null;
+  // 集群模式下通过主进程查询所有工作进程的指标和连接
+  private clusterWorker: ClusterWorker | null = null;
 
   constructor(options: HttpsProxyOptions = {}) {
+    if (options.logging) {
+      logger.configure(options.logging);
+    }
+
     this.port = options.port || 10443;
-    this.timeout = options.timeout || 30000;
+    this.httpPort = options.httpPort || null;
+    this.sniffProtocol = options.sniffProtocol === true;
+    this.adminToken = options.adminToken || null;
+    this.options = options;
+    this.timeouts = resolveTimeouts(options);
+    this.agentPool = new AgentPool(options.agentPool);
     // 修复路径：从 dist 目录向上找到项目根目录
     const projectRoot = path.resolve(__dirname, '..');
     this.certFile = options.certFile || path.join(projectRoot, 'certs', 'server.crt');
     this.keyFile = options.keyFile || path.join(projectRoot, 'certs', 'server.key');
     this.caFile = options.caFile || path.join(projectRoot, 'certs', 'ca.crt');
 
-    // 读取SSL证书
+    this.fullchainFile = path.join(projectRoot, 'certs', 'fullchain.crt');
+    this.caKeyFile = path.join(projectRoot, 'certs', 'ca.key');
+
+    // 首次启动时创建CA和服务器证书，之后检查有效期
+    this.certManager = new CertificateManager({
+      caCertFile: this.caFile,
+      caKeyFile: this.caKeyFile,
+      certFile: this.certFile,
+      keyFile: this.keyFile,
+      fullchainFile: this.fullchainFile,
+      hostnames: options.hostnames
+    });
     try {
-      // 优先使用完整证书链
-      const fullchainPath = path.join(projectRoot, 'certs', 'fullchain.crt');
-      const certToUse = fs.existsSync(fullchainPath) ? fullchainPath : this.certFile;
+      this.certManager.ensure();
+    } catch (error: any) {
+      throw new Error(`无法创建SSL证书: ${error.message}`);
+    }
 
+    // 客户端证书认证配置
+    this.clientAuth = options.clientAuth ? new ClientCertificateAuth(options.clientAuth) : null;
+
+    // 按主机名选择的证书（SNI），开启客户端证书认证时同样需要验证客户端
+    this.certStore = new CertificateStore(options.sniCertificates,
+      () => this.clientAuth ? this.clientAuth.contextOptions() : {});
+    this.certStore.load();
+
+    // 读取SSL证书
+    try {
       this.httpsOptions = {
-        key: fs.readFileSync(this.keyFile),
-        cert: fs.readFileSync(certToUse),
-        // If not using fullchain, and caFile exists, add it as an array.
-        ...(certToUse !== fullchainPath && fs.existsSync(this.caFile) && { ca: [fs.readFileSync(this.caFile)] }),
+        ...this.loadServerCertificate(),
+        ...this.createTlsOptions(options),
         honorCipherOrder: true,
-        ciphers: [
-          'ECDHE-RSA-AES128-GCM-SHA256',
-          'ECDHE-RSA-AES256-GCM-SHA384',
-          'ECDHE-RSA-AES128-SHA256',
-          'ECDHE-RSA-AES256-SHA384',
-          'ECDHE-RSA-AES256-SHA256',
-          'ECDHE-RSA-AES128-SHA',
-          'ECDHE-RSA-AES256-SHA',
-          'AES128-GCM-SHA256',
-          'AES256-GCM-SHA384',
-          'AES128-SHA256',
-          'AES256-SHA256',
-          'AES128-SHA',
-          'AES256-SHA'
-        ].join(':'),
         // 处理SNI
         SNICallback: (servername: string, callback: (err: Error | null, ctx?: any) => void) => {
-          // 对所有域名返回相同的证书
-          callback(null);
+          // 证书库中没有匹配的证书时使用默认证书
+          callback(null, this.certStore.getContext(servername) || undefined);
         },
-        // 允许不安全的连接用于代理
-        rejectUnauthorized: false,
-        requestCert: false,
-        // 处理会话恢复
-        sessionTimeout: 300,
-        // 优化SSL握手超时设置 - 增加到45秒以适应复杂网络环境和SSL协议协商
-        handshakeTimeout: 45000,
+        // 开启客户端证书认证时请求证书，可选模式下在请求阶段检查
+        rejectUnauthorized: !!this.clientAuth && !this.clientAuth.optional,
+        requestCert: !!this.clientAuth,
+        // SSL握手超时 - 默认45秒以适应复杂网络环境和SSL协议协商
+        handshakeTimeout: this.timeouts.handshake,
         // 当SSL握手失败时不抛出未捕获异常
         allowHalfOpen: false,
         // Allow OpenSSL to automatically negotiate the best protocol version.
@@ -81,13 +389,12 @@ class HttpsProxy {
         secureProtocol: undefined,
         // Session resumption settings
         sessionIdContext: 'https-proxy',
-        // sessionTimeout: 300, // 5 minutes - This was a duplicate, removed.
         // DH parameters for DHE ciphers (if used, though modern ciphers prefer ECDHE)
         // Leaving undefined allows Node.js to use built-in defaults if necessary.
         dhparam: undefined,
         // Keep-alive and header timeouts for the HTTPS server itself
-        keepAliveTimeout: 30000, // 30 seconds
-        headersTimeout: 60000,   // 60 seconds
+        keepAliveTimeout: this.timeouts.keepAlive,
+        headersTimeout: this.timeouts.headers,
         // SSL/TLS options for security and compatibility.
         // For broader compatibility (e.g., with LibreSSL or older clients), these might be removed.
         secureOptions:
@@ -97,16 +404,66 @@ class HttpsProxy {
           // require('constants').SSL_OP_NO_TLSv1 |
           // require('constants').SSL_OP_NO_TLSv1_1 |
           require('constants').SSL_OP_CIPHER_SERVER_PREFERENCE,
-        // Remove explicit min/max versions for auto-negotiation
-        // minVersion: undefined,
-        // maxVersion: undefined,
       };
     } catch (error) {
       throw new Error(`无法读取SSL证书文件: ${error}`);
     }
 
-    // 检测上游代理配置
-    this.upstreamProxy = this.detectUpstreamProxy();
+    // 上游代理路由配置
+    this.router = this.createRouter(options);
+
+    // 代理认证配置
+    this.authenticator = this.createAuthenticator(options);
+
+    // 访问控制配置，目标地址在检查时解析并固定用于连接；PAC 的 dnsResolve 使用同一个解析器
+    this.resolver = new DnsResolver(options.dns);
+    this.pac = options.pacFile ? new PacResolver({ source: options.pacFile }, this.resolver) : null;
+    this.accessControl = new AccessControl(options.accessControl, this.resolver);
+    this.rateLimiter = new RateLimiter(options.rateLimits);
+    this.bandwidth = new BandwidthManager(options.bandwidth);
+    this.websocketPolicy = new WebSocketPolicy(options.websocket);
+    this.userPolicies = this.createUserPolicies(options);
+
+    // TLS 解密配置
+    this.interceptor = this.createInterceptor(options);
+
+    // SOCKS5 只支持用户名密码认证，开启客户端证书认证（非可选）时同样要求认证
+    this.socksServer = options.socksPort
+      ? new Socks5Server({ port: options.socksPort, udp: options.socksUdp === true }, {
+          requireAuth: () => !!this.authenticator || (!!this.clientAuth && !this.clientAuth.optional),
+          authenticate: async (username, password) => this.authenticator ? this.authenticator.authenticateCredentials(username, password) : null,
+          connect: (request) => this.handleSocksConnect(request),
+          resolveUdpTarget: (hostname, port, user) => this.resolveUdpTarget(hostname, port, user)
+        })
+      : null;
+  }
+
+  /**
+   * 读取默认证书，优先使用完整证书链
+   */
+  private loadServerCertificate(): Pick<https.ServerOptions, 'key' | 'cert' | 'ca' | 'crl'> {
+    const certToUse = fs.existsSync(this.fullchainFile) ? this.fullchainFile : this.certFile;
+
+    return {
+      key: fs.readFileSync(this.keyFile),
+      cert: fs.readFileSync(certToUse),
+      // If not using fullchain, and caFile exists, add it as an array.
+      ...(certToUse !== this.fullchainFile && fs.existsSync(this.caFile) && { ca: [fs.readFileSync(this.caFile)] }),
+      // 开启客户端证书认证时 ca 用于验证客户端证书
+      ...(this.clientAuth && this.clientAuth.contextOptions())
+    };
+  }
+
+  /**
+   * 证书文件变化后更新默认证书，已建立的连接不受影响
+   */
+  private reloadServerCertificate(server: tls.Server): void {
+    try {
+      this.httpsOptions = { ...this.httpsOptions, ...this.loadServerCertificate() };
+      server.setSecureContext(this.httpsOptions);
+    } catch (error: any) {
+      logger.error('❌ 重新加载默认证书失败，继续使用旧证书:', error.message);
+    }
   }
 
   /**
@@ -124,187 +481,775 @@ class HttpsProxy {
 
     for (const proxy of proxies) {
       if (proxy && proxy.trim()) {
-        console.log(`🔗 检测到上游代理: ${proxy}`);
+        logger.info(`🔗 检测到上游代理: ${proxy}`);
         return proxy.trim();
       }
     }
 
-    console.log('ℹ️  未检测到上游代理配置');
+    logger.info('ℹ️  未检测到上游代理配置');
     return null;
   }
 
   /**
-   * 创建代理Agent
+   * 检测环境变量中的直连列表
    */
-  private createProxyAgent(targetUrl: string, isConnectMethod: boolean = false): any { // targetUrl is the FINAL destination
-    if (!this.upstreamProxy) {
-      return undefined;
+  private detectNoProxy(): string | undefined {
+    const noProxy = process.env.no_proxy || process.env.NO_PROXY;
+    if (noProxy && noProxy.trim()) {
+      logger.info(`🚦 检测到NO_PROXY: ${noProxy}`);
+      return noProxy.trim();
     }
+    return undefined;
+  }
 
+  /**
+   * 创建上游代理路由：优先使用路由表配置，否则把单个上游代理作为默认路由
+   */
+  private createRouter(options: HttpsProxyOptions): UpstreamRouter {
+    if (options.routing) {
+      return new UpstreamRouter({ noProxy: this.detectNoProxy(), ...options.routing });
+    }
+
+    const upstreamProxy = options.upstreamProxy || this.detectUpstreamProxy();
+    return new UpstreamRouter({
+      upstreams: upstreamProxy ? { default: upstreamProxy } : {},
+      defaultRoute: upstreamProxy ? 'default' : 'DIRECT',
+      noProxy: this.detectNoProxy()
+    });
+  }
+
+  /**
+   * 代理认证：内联用户列表或 htpasswd 文件，都没有配置时不开启认证
+   */
+  private createAuthenticator(options: HttpsProxyOptions): ProxyAuthenticator | null {
+    return (options.users && options.users.length > 0) || options.htpasswdFile
+      ? new ProxyAuthenticator({ users: options.users, htpasswdFile: options.htpasswdFile, realm: options.authRealm })
+      : null;
+  }
+
+  private createUserPolicies(options: HttpsProxyOptions): Map<string, AccessControl> {
+    const policies = new Map<string, AccessControl>();
+    for (const [user, policy] of Object.entries(options.userPolicies || {})) {
+      // 私有网络由全局访问控制处理
+      policies.set(user, new AccessControl({ blockPrivateNetworks: false, ...policy }));
+    }
+    return policies;
+  }
+
+  private createInterceptor(options: HttpsProxyOptions): TlsInterceptor | null {
+    return options.intercept
+      ? new TlsInterceptor(options.intercept, {
+          caCertFile: this.caFile,
+          caKeyFile: this.caKeyFile
+        })
+      : null;
+  }
+
+  /**
+   * 可以在运行时更新的TLS参数
+   */
+  private createTlsOptions(options: HttpsProxyOptions): Pick<https.ServerOptions, 'ciphers' | 'minVersion' | 'sessionTimeout'> {
+    const tlsOptions = options.tls || {};
+    return {
+      ciphers: (tlsOptions.ciphers && tlsOptions.ciphers.length > 0 ? tlsOptions.ciphers : DEFAULT_CIPHERS).join(':'),
+      minVersion: tlsOptions.minVersion,
+      // 处理会话恢复
+      sessionTimeout: tlsOptions.sessionTimeout === undefined ? 300 : tlsOptions.sessionTimeout
+    };
+  }
+
+  /**
+   * 选择目标使用的上游代理；访问控制没能解析出地址的目标只能经上游代理访问，直连会跳过私有地址检查
+   */
+  private async selectUpstreams(targetUrl: string, hostname: string, port: number, addresses: LookupAddress[]): Promise<UpstreamSelection> {
+    const selection = await this.routeUpstreams(targetUrl, hostname, port, addresses);
+    if (selection.rejected || addresses.length > 0 || !selection.upstreams.includes(null)) {
+      return selection;
+    }
+
+    const upstreams = selection.upstreams.filter(upstream => upstream !== null);
+    if (upstreams.length === 0) {
+      logger.warn(`⚠️  ${hostname}:${port} 无法解析，拒绝直连`);
+      return { rejected: true, ruleId: 'unresolved', upstreams: [], pool: null };
+    }
+    return { ...selection, upstreams };
+  }
+
+  /**
+   * 按路由表选择上游代理：显式规则和 NO_PROXY 优先，其余交给 PAC（如果配置了）
+   */
+  private async routeUpstreams(targetUrl: string, hostname: string, port: number, addresses: LookupAddress[]): Promise<UpstreamSelection> {
+    const route = this.router.route(hostname, port, addresses);
+
+    if (route.type === 'reject') {
+      return { rejected: true, ruleId: route.ruleId, upstreams: [], pool: null };
+    }
+
+    if (route.ruleId === 'default' && this.pac) {
+      try {
+        const upstreams = await this.pac.findProxy(targetUrl, hostname);
+        if (upstreams.some(upstream => upstream !== null)) {
+          logger.info(`📜 ${hostname}:${port} PAC结果: ${upstreams.map(upstream => upstream ? describeUpstream(upstream) : 'DIRECT').join(', ')}`);
+        }
+        return { rejected: false, ruleId: 'pac', upstreams, pool: null };
+      } catch (error: any) {
+        logger.error(`❌ 执行PAC失败 ${hostname}:${port}，使用默认路由:`, error.message);
+      }
+    }
+
+    if (route.type === 'proxy') {
+      logger.info(`🔀 ${hostname}:${port} 路由到上游代理 ${route.name} (规则: ${route.ruleId})`);
+      return { rejected: false, ruleId: route.ruleId, upstreams: route.pool.select(), pool: route.pool };
+    }
+
+    return { rejected: false, ruleId: route.ruleId, upstreams: [null], pool: null };
+  }
+
+  /**
+   * 创建转发请求使用的代理Agent（CONNECT隧道由 openTunnel 建立）
+   */
+  private createProxyAgent(upstreamProxy: string, targetUrl: string, agentOptions: http.AgentOptions = {}): any { // targetUrl is the FINAL destination
     try {
-      const upstreamProxyUrl = new URL(this.upstreamProxy);
-
-      if (upstreamProxyUrl.protocol === 'socks5:' || upstreamProxyUrl.protocol === 'socks4:') {
-        console.log(`🧦 使用SOCKS上游代理: ${this.upstreamProxy}`);
-        return new SocksProxyAgent(this.upstreamProxy);
-      } else if (upstreamProxyUrl.protocol === 'http:') {
-        // HttpProxyAgent适用于CONNECT方法建立的隧道（如curl）
-        console.log(`🌐 使用HTTP上游代理: ${this.upstreamProxy} (${isConnectMethod ? 'CONNECT隧道' : 'HTTP转发'})`);
-        return new HttpProxyAgent(this.upstreamProxy);
-      } else if (upstreamProxyUrl.protocol === 'https:') {
-        if (isConnectMethod) {
-          // 对于CONNECT方法，使用HttpsProxyAgent
-          console.log(`🔒 使用HTTPS上游代理: ${this.upstreamProxy} (CONNECT隧道)`);
-          return new HttpsProxyAgent(this.upstreamProxy);
+      const upstreamProxyUrl = new URL(upstreamProxy);
+      const upstreamName = describeUpstream(upstreamProxy);
+
+      if (upstreamProxyUrl.protocol.startsWith('socks')) {
+        logger.info(`🧦 使用SOCKS上游代理: ${upstreamName}`);
+        return new SocksProxyAgent(upstreamProxy, agentOptions);
+      } else if (upstreamProxyUrl.protocol === 'http:' || upstreamProxyUrl.protocol === 'https:') {
+        const targetUrlObj = new URL(targetUrl);
+        if (targetUrlObj.protocol === 'https:') {
+          // HTTPS目标需要先通过上游CONNECT建立隧道
+          logger.info(`🔒 使用${upstreamProxyUrl.protocol === 'https:' ? 'HTTPS' : 'HTTP'}上游代理: ${upstreamName} (CONNECT隧道)`);
+          return new HttpsProxyAgent(upstreamProxy, agentOptions);
         } else {
-          // 对于直接HTTP请求，判断目标URL协议
-          const targetUrlObj = new URL(targetUrl);
-          if (targetUrlObj.protocol === 'https:') {
-            console.log(`🔒 使用HTTPS上游代理: ${this.upstreamProxy} (HTTPS->HTTPS)`);
-            return new HttpsProxyAgent(this.upstreamProxy);
-          } else {
-            console.log(`🌐 使用HTTPS上游代理: ${this.upstreamProxy} (HTTP->HTTPS)`);
-            return new HttpProxyAgent(this.upstreamProxy);
-          }
+          // HTTP目标直接把绝对URL请求交给上游
+          logger.info(`🌐 使用${upstreamProxyUrl.protocol === 'https:' ? 'HTTPS' : 'HTTP'}上游代理: ${upstreamName} (HTTP转发)`);
+          return new HttpProxyAgent(upstreamProxy, agentOptions);
         }
       } else {
-        console.error(`❌ 不支持的上游代理协议: ${upstreamProxyUrl.protocol}`);
+        logger.error(`❌ 不支持的上游代理协议: ${upstreamProxyUrl.protocol}`);
         return undefined;
       }
     } catch (error) {
-      console.error(`❌ 解析或创建上游代理Agent失败:`, error);
+      logger.error(`❌ 解析或创建上游代理Agent失败:`, error);
       return undefined;
     }
   }
 
   /**
-   * 处理 HTTPS CONNECT 请求（HTTPS 隧道）
+   * 处理 HTTPS CONNECT 请求（HTTPS 隧道），HTTP/2 的 CONNECT 流通过 reply 回复
    */
-  private handleConnect(req: IncomingMessage, socket: Socket, head: Buffer): void {
-    if (!req.url) {
-      console.error('❌ CONNECT请求缺少URL');
-      this.sendConnectError(socket, '400 Bad Request', 'CONNECT请求缺少URL');
+  private handleConnect(req: ProxyRequest, socket: TunnelSocket, head: Buffer, reply?: ConnectReply): void {
+    // HTTP/2 的目标在 :authority 中
+    const target = req.url || String(req.headers[':authority'] || '');
+    const fail = (status: string, message: string, headers: Record<string, string> = {}) => {
+      if (reply) {
+        reply.failed(status, message, headers);
+      } else {
+        this.sendConnectError(socket, status, message, headers);
+      }
+    };
+
+    this.tunnelRequests.set(socket, { method: 'CONNECT', target, startTime: Date.now() });
+    if (!target) {
+      logger.error('❌ CONNECT请求缺少URL');
+      fail('400 Bad Request', 'CONNECT请求缺少URL');
       return;
     }
 
-    // 解析CONNECT请求的目标地址
-    // CONNECT格式: hostname:port
-    let hostname: string;
-    let targetPort: number;
+    // 代理认证
+    this.authenticateRequest(req).then((user) => {
+      if (user === null) {
+        logger.info(`🔐 CONNECT ${target} 未通过代理认证 (${socket.remoteAddress})`);
+        fail('407 Proxy Authentication Required', '需要代理认证', this.authChallengeHeaders());
+        return;
+      }
+      if (user) {
+        this.tunnelUsers.set(socket, user);
+      }
 
-    // 尝试多种解析方式
-    if (req.url.includes(':')) {
-      // 标准格式: hostname:port
-      const parts = req.url.split(':');
-      hostname = parts[0];
-      targetPort = parseInt(parts[1] || '443', 10);
-    } else {
-      // 备用解析方式，使用url.parse
-      const parsed = url.parse(`//${req.url}`);
-      hostname = parsed.hostname || req.url;
-      targetPort = parseInt(parsed.port || '443', 10);
-    }
+      // 解析CONNECT请求的目标地址（host:port，IPv6 为 [addr]:port），没有端口时默认 443
+      let hostname: string;
+      let targetPort: number;
+      try {
+        ({ hostname, port: targetPort } = parseAuthority(target, 443));
+      } catch (error: any) {
+        logger.error(`❌ 无效的CONNECT目标: ${error.message}`);
+        fail('400 Bad Request', `无效的CONNECT目标: ${error.message}`);
+        return;
+      }
+
+      logger.info(`🔗 CONNECT ${hostname}:${targetPort}${req.httpVersionMajor === 2 ? ' (HTTP/2)' : ''}${user ? ` [用户: ${user}]` : ''} - ${new Date().toISOString()}`);
 
-    // 验证hostname和port - 添加更严格的验证
-    if (!hostname || hostname === 'null' || hostname === 'undefined') {
-      console.error(`❌ 无效的hostname: ${req.url}`);
-      this.sendConnectError(socket, '400 Bad Request', `无效的hostname: ${req.url}`);
+      // 检查客户端socket状态 - 增强稳定性检查
+      if (socket.destroyed || socket.readyState !== 'open') {
+        logger.error(`❌ 客户端socket状态异常: destroyed=${socket.destroyed}, readyState=${socket.readyState}`);
+        fail('400 Bad Request', '客户端连接状态异常');
+        return;
+      }
+
+      // 隧道建立后由 setupSocketErrorHandlers 设置空闲超时
+      try {
+        socket.setKeepAlive(true, this.timeouts.keepAlive);
+        socket.setNoDelay(true);
+      } catch (err: any) {
+        logger.warn(`⚠️  设置客户端socket选项失败:`, err.message);
+      }
+
+      this.establishTunnel(socket, head, hostname, targetPort, user, reply);
+    }).catch((error) => {
+      logger.error(`❌ 处理CONNECT请求失败 ${target}:`, error);
+      fail('500 Internal Server Error', '代理内部错误');
+    });
+  }
+
+  /**
+   * 处理 HTTP/2 的 CONNECT 请求：每个流是一条隧道，同一条TLS连接上可以同时有多个；
+   * 带 :protocol 的扩展CONNECT（RFC 8441）按 WebSocket 升级请求转发
+   */
+  private handleHttp2Connect(req: http2.Http2ServerRequest): void {
+    const stream = req.stream;
+    const socket = streamSocket(stream);
+    // 回复前客户端取消了流
+    const respond = (headers: http2.OutgoingHttpHeaders) => {
+      if (stream.destroyed || stream.headersSent) return false;
+      stream.respond(headers);
+      return true;
+    };
+    // 错误响应写完后关闭流，客户端还没有结束请求时也不会一直占用（RFC 9113 8.1）
+    const reject = (status: number, headers: http.OutgoingHttpHeaders) => {
+      if (respond({ ':status': status, ...http2ResponseHeaders(headers) })) {
+        socket.once('finish', () => socket.destroy());
+      }
+      return socket;
+    };
+
+    if (req.headers[':protocol']) {
+      this.handleUpgradeRequest(req, socket, Buffer.alloc(0), {
+        upgraded: (res) => {
+          respond({ ':status': 200, ...http2ResponseHeaders(res.headers, ['sec-websocket-accept']) });
+        },
+        failed: reject
+      });
       return;
     }
 
-    // 验证hostname格式 - 防止恶意输入
-    if (!/^[a-zA-Z0-9.-]+$/.test(hostname) || hostname.length > 253) {
-      console.error(`❌ hostname格式不正确: ${hostname}`);
-      this.sendConnectError(socket, '400 Bad Request', `hostname格式不正确: ${hostname}`);
+    this.handleConnect(req, socket, Buffer.alloc(0), {
+      established: () => {
+        respond({ ':status': 200 });
+      },
+      failed: (status, message, headers = {}) => {
+        this.metrics.connectTotal.inc({ result: status.split(' ')[0] });
+        this.logTunnelAccess(socket, parseInt(status, 10), { error: errorCode(message) });
+        reject(parseInt(status, 10), { 'Content-Type': 'text/plain; charset=utf-8', ...headers }).end(message);
+      }
+    });
+  }
+
+  /**
+   * 访问控制、选择上游并建立隧道，HTTP CONNECT 和 SOCKS5 共用
+   */
+  private establishTunnel(socket: TunnelSocket, head: Buffer, hostname: string, targetPort: number, user: string,
+                          reply?: ConnectReply): void {
+    const fail = (status: string, message: string, headers: Record<string, string> = {}) => {
+      if (reply) {
+        reply.failed(status, message, headers);
+      } else {
+        this.sendConnectError(socket, status, message, headers);
+      }
+    };
+
+    // 流量配额和限速在访问控制之前检查，被拒绝的请求也计入，隧道关闭时归还并发数
+    let lease: RateLimitLease;
+    try {
+      const keys = { client: socket.remoteAddress || '', user, host: hostname };
+      this.bandwidth.checkQuota(keys);
+      lease = this.rateLimiter.tryAcquire(keys);
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+      (error instanceof QuotaExceededError ? this.metrics.quotaExceeded : this.metrics.rateLimited).inc({ scope: error.scope });
+      logger.info(`🚦 CONNECT ${hostname}:${targetPort} 被拒绝 (${socket.remoteAddress}): ${error.message}`);
+      fail('429 Too Many Requests', error.message, { 'Retry-After': String(error.retryAfter) });
       return;
     }
+    socket.once('close', () => lease.release());
+
+    // 访问控制检查（包括DNS解析后的私有地址检查）
+    this.accessControl.check(hostname, targetPort).then(async (globalDecision) => {
+      const decision = this.applyUserPolicy(user, hostname, targetPort, globalDecision);
+      if (!decision.allowed) {
+        logger.info(`🚫 CONNECT ${hostname}:${targetPort} 被访问控制拒绝 (规则: ${decision.ruleId})`);
+        fail('403 Forbidden', `访问被拒绝 (规则: ${decision.ruleId})`, {
+          'X-Proxy-Rule': decision.ruleId
+        });
+        return;
+      }
 
-    if (isNaN(targetPort) || targetPort <= 0 || targetPort > 65535) {
-      console.error(`❌ 无效的端口: ${targetPort}`);
-      this.sendConnectError(socket, '400 Bad Request', `无效的端口: ${targetPort}`);
-      return;
+      // 按路由表/PAC选择直连、上游代理或拒绝
+      // SOCKS5 请求的目标可能是IPv6地址
+      const urlHost = net.isIPv6(hostname) ? `[${hostname}]` : hostname;
+      const connectUrl = targetPort === 443 ? `https://${urlHost}/` : `https://${urlHost}:${targetPort}/`;
+      const selection = await this.selectUpstreams(connectUrl, hostname, targetPort, decision.addresses);
+      if (selection.rejected) {
+        logger.info(`🚫 CONNECT ${hostname}:${targetPort} 被路由规则拒绝 (规则: ${selection.ruleId})`);
+        fail('403 Forbidden', `访问被拒绝 (规则: ${selection.ruleId})`, {
+          'X-Proxy-Rule': selection.ruleId
+        });
+        return;
+      }
+
+      if (socket.destroyed) {
+        logger.warn(`⚠️  客户端socket在选择上游期间断开 ${hostname}:${targetPort}`);
+        return;
+      }
+
+      if (this.interceptor && this.interceptor.shouldIntercept(hostname, targetPort)) {
+        this.handleInterceptedConnect(socket, head, hostname, targetPort, selection, decision.addresses, reply);
+        return;
+      }
+
+      this.connectWithFallback(socket, head, hostname, targetPort, selection, decision.addresses, reply);
+    }).catch((error) => {
+      logger.error(`❌ 处理CONNECT失败 ${hostname}:${targetPort}:`, error);
+      fail('502 Bad Gateway', `处理CONNECT失败: ${error}`);
+    });
+  }
+
+  /**
+   * 处理 SOCKS5 CONNECT 请求，与 HTTP CONNECT 使用相同的访问控制和上游路由
+   */
+  private handleSocksConnect(request: SocksConnectRequest): void {
+    const { socket, hostname, port, user } = request;
+    if (user) {
+      this.tunnelUsers.set(socket, user);
     }
+    this.tunnelRequests.set(socket, { method: 'SOCKS5', target: `${hostname}:${port}`, startTime: Date.now() });
+
+    logger.info(`🧦 SOCKS5 CONNECT ${hostname}:${port}${user ? ` [用户: ${user}]` : ''} - ${new Date().toISOString()}`);
+
+    try {
+      socket.setKeepAlive(true, this.timeouts.keepAlive);
+      socket.setNoDelay(true);
+    } catch (err: any) {
+      logger.warn(`⚠️  设置客户端socket选项失败:`, err.message);
+    }
+
+    this.establishTunnel(socket, Buffer.alloc(0), hostname, port, user, {
+      established: (serverSocket) => request.reply(SocksReply.SUCCEEDED, serverSocket),
+      failed: (status, message) => {
+        this.metrics.connectTotal.inc({ result: status.split(' ')[0] });
+        this.logTunnelAccess(socket, parseInt(status, 10), { error: errorCode(message) });
+        request.reply(this.socksReplyCode(status, message));
+      }
+    });
+  }
+
+  /**
+   * 把隧道失败的HTTP状态转换为SOCKS5回复码
+   */
+  private socksReplyCode(status: string, message: string): number {
+    if (status.startsWith('403') || status.startsWith('429')) return SocksReply.NOT_ALLOWED;
+    if (status.startsWith('504')) return SocksReply.TTL_EXPIRED;
+    if (message.includes('ECONNREFUSED')) return SocksReply.CONNECTION_REFUSED;
+    if (message.includes('ENETUNREACH')) return SocksReply.NETWORK_UNREACHABLE;
+    if (message.includes('EHOSTUNREACH') || message.includes('ENOTFOUND')) return SocksReply.HOST_UNREACHABLE;
+    return SocksReply.GENERAL_FAILURE;
+  }
+
+  /**
+   * 检查 SOCKS5 UDP 目标：通过访问控制且路由为直连时返回要发送的地址
+   */
+  private async resolveUdpTarget(hostname: string, port: number, user: string): Promise<LookupAddress | null> {
+    const decision = this.applyUserPolicy(user, hostname, port, await this.accessControl.check(hostname, port));
+    if (!decision.allowed) {
+      logger.info(`🚫 SOCKS5 UDP ${hostname}:${port} 被访问控制拒绝 (规则: ${decision.ruleId})`);
+      return null;
+    }
+
+    // UDP 不能经过上游代理转发
+    const urlHost = net.isIPv6(hostname) ? `[${hostname}]` : hostname;
+    const selection = await this.selectUpstreams(`https://${urlHost}:${port}/`, hostname, port, decision.addresses);
+    if (selection.rejected || selection.upstreams[0] !== null) {
+      logger.info(`🚫 SOCKS5 UDP ${hostname}:${port} 没有直连路由 (规则: ${selection.ruleId})`);
+      return null;
+    }
+
+    logger.info(`🧦 SOCKS5 UDP ${hostname}:${port}${user ? ` [用户: ${user}]` : ''} - ${new Date().toISOString()}`);
+    return decision.addresses[0];
+  }
+
+  /**
+   * 依次尝试上游代理列表，前一个建立连接失败时使用下一个
+   */
+  private connectWithFallback(socket: TunnelSocket, head: Buffer, hostname: string, targetPort: number,
+                              selection: UpstreamSelection, addresses: LookupAddress[], reply?: ConnectReply): void {
+    const { upstreams, pool } = selection;
+
+    const attempt = (index: number) => {
+      const upstream = upstreams[index];
+      const hasNext = index < upstreams.length - 1;
+      const tracked = upstream && pool && pool.has(upstream) ? upstream : null;
+      const release = tracked ? pool!.acquire(tracked) : () => {};
+      const startTime = Date.now();
+
+      const hooks: ConnectHooks = {
+        reply,
+        onEstablished: (serverSocket) => {
+          this.metrics.upstreamConnectSeconds.observe({ upstream: upstream ? describeUpstream(upstream) : 'DIRECT' }, (Date.now() - startTime) / 1000);
+          if (tracked) {
+            pool!.reportSuccess(tracked, Date.now() - startTime);
+          }
+          serverSocket.once('close', release);
+        },
+        onFailure: (status, message) => {
+          release();
+          if (tracked) {
+            pool!.reportFailure(tracked);
+          }
+          if (hasNext && !socket.destroyed) {
+            const next = upstreams[index + 1];
+            logger.info(`↪️  ${upstream ? describeUpstream(upstream) : 'DIRECT'} 连接 ${hostname}:${targetPort} 失败 (${status})，尝试 ${next ? describeUpstream(next) : 'DIRECT'}`);
+            attempt(index + 1);
+          } else if (reply) {
+            reply.failed(status, message);
+          } else {
+            this.sendConnectError(socket, status, message);
+          }
+        }
+      };
 
-    console.log(`🔗 CONNECT ${hostname}:${targetPort} - ${new Date().toISOString()}`);
+      if (upstream) {
+        // 如果有上游代理，通过上游代理建立隧道
+        this.handleConnectViaProxy(socket, head, hostname, targetPort, upstream, hooks);
+      } else {
+        // 直接连接
+        this.handleDirectConnect(socket, hostname, targetPort, head, addresses, hooks);
+      }
+    };
 
-    // 检查客户端socket状态 - 增强稳定性检查
-    if (socket.destroyed || socket.readyState !== 'open') {
-      console.error(`❌ 客户端socket状态异常: destroyed=${socket.destroyed}, readyState=${socket.readyState}`);
-      this.sendConnectError(socket, '400 Bad Request', '客户端连接状态异常');
+    attempt(0);
+  }
+
+  /**
+   * 解密CONNECT隧道（MITM）：在本地终止TLS，把解密后的HTTP/1.1请求重新发往真实服务器
+   */
+  private handleInterceptedConnect(socket: TunnelSocket, head: Buffer, hostname: string, targetPort: number,
+                                   selection: UpstreamSelection, addresses: LookupAddress[], reply?: ConnectReply): void {
+    const interceptor = this.interceptor!;
+    let defaultCertificate;
+    try {
+      defaultCertificate = interceptor.getCertificate(hostname);
+    } catch (error: any) {
+      logger.error(`❌ [MITM] 签发证书失败 ${hostname}:`, error.message);
+      if (reply) {
+        reply.failed('502 Bad Gateway', `签发证书失败: ${error.message}`);
+      } else {
+        this.sendConnectError(socket, '502 Bad Gateway', `签发证书失败: ${error.message}`);
+      }
       return;
     }
 
-    // 为SSL握手设置更优的socket选项
+    const urlHost = net.isIPv6(hostname) ? `[${hostname}]` : hostname;
+    const origin = targetPort === 443 ? `https://${urlHost}` : `https://${urlHost}:${targetPort}`;
+
+    // 每个隧道一个不监听端口的HTTPS服务器，只用来解析这条连接上的请求
+    const interceptServer = https.createServer({
+      key: defaultCertificate.key,
+      cert: defaultCertificate.cert,
+      // 按客户端发送的SNI签发证书，没有SNI时使用CONNECT的主机名
+      SNICallback: (servername: string, callback: (err: Error | null, ctx?: tls.SecureContext) => void) => {
+        try {
+          callback(null, interceptor.getCertificate(servername).context);
+        } catch (error: any) {
+          callback(error);
+        }
+      },
+      // 解密后按HTTP/1.1重新发起请求
+      ALPNProtocols: ['http/1.1']
+    }, (req, res) => {
+      let parsedUrl: URL;
+      try {
+        // 只接受 origin-form，目标地址始终是CONNECT的主机，防止绝对URL或 //host 绕过访问控制
+        if (!isOriginForm(req.url)) {
+          throw new Error('请求目标必须是 origin-form');
+        }
+        parsedUrl = new URL(origin + req.url);
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(`无效的URL: ${req.url}`);
+        return;
+      }
+
+      logger.info(`🔍 [MITM] ${req.method} ${parsedUrl.href}${this.describeUser(socket)}`);
+      const access = this.trackRequest(req, res, parsedUrl.href, this.tunnelUsers.get(socket));
+      this.forwardHttpRequest(req, res, parsedUrl, addresses, selection.upstreams, selection.pool, access);
+    });
+
+    interceptServer.on('upgrade', (req: IncomingMessage, clientSocket: Socket, upgradeHead: Buffer) => {
+      if (!isOriginForm(req.url)) {
+        clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+      }
+      logger.info(`🔍 [MITM] ${req.method} ${origin}${req.url} (Upgrade: ${req.headers.upgrade})${this.describeUser(socket)}`);
+      this.forwardInterceptedUpgrade(req, clientSocket, upgradeHead, hostname, targetPort, selection, addresses);
+    });
+
+    interceptServer.on('tlsClientError', (err: any) => {
+      logger.warn(`⚠️  [MITM] 客户端TLS握手失败 ${hostname}:${targetPort} (${err.code || err.message})`);
+      logger.warn('💡 提示: 客户端需要信任 certs/ca.crt 才能使用TLS解密');
+    });
+
+    interceptServer.on('clientError', (err: any, clientSocket) => {
+      if (!clientSocket.destroyed) {
+        clientSocket.destroy();
+      }
+    });
+
     try {
-      socket.setKeepAlive(true, 30000);
-      socket.setNoDelay(true);
-      socket.setTimeout(60000); // 60秒超时，给SSL握手充足时间（特别是WebSocket）
+      if (reply) {
+        reply.established(null);
+      } else {
+        socket.write('HTTP/1.1 200 Connection Established\r\n' +
+                     'Proxy-agent: HTTPS-Proxy/1.0\r\n' +
+                     '\r\n');
+      }
     } catch (err: any) {
-      console.error(`⚠️  设置客户端socket选项失败:`, err.message);
+      logger.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
+      return;
     }
 
-    if (this.upstreamProxy) {
-      // 如果有上游代理，使用代理Agent创建连接
-      this.handleConnectViaProxy(req, socket, head, hostname, targetPort);
-    } else {
-      // 直接连接
-      this.handleDirectConnect(socket, hostname, targetPort, head);
+    // 解密服务器在一对内存socket的一端终止TLS，另一端与客户端连接互相转发，
+    // 客户端连接上的原始字节与普通隧道一样计数、限速并计入配额
+    const [tlsSocket, tunnelSocket] = socketPair(socket);
+    // 把预先收到的数据（ClientHello）一起转发，由解密服务器读取
+    if (head && head.length > 0) {
+      tunnelSocket.write(head);
+    }
+    socket.pipe(tunnelSocket);
+    tunnelSocket.pipe(socket);
+    socket.on('error', (err: any) => {
+      logger.log(networkErrorLevel(err), `❌ [MITM] 客户端连接错误 ${hostname}:${targetPort} (${err.code || 'ERROR'}):`, err.message);
+      tunnelSocket.destroy();
+    });
+    socket.once('close', () => {
+      tunnelSocket.destroy();
+      this.connections.unregister(socket);
+    });
+    interceptServer.emit('connection', tlsSocket);
+
+    const upstream = selection.upstreams[0];
+    this.trackTunnel(socket, tunnelSocket, hostname, targetPort, upstream ? describeUpstream(upstream) : 'DIRECT', true, true);
+  }
+
+  /**
+   * 转发解密隧道中的Upgrade请求（WebSocket），握手后双向透传
+   */
+  private forwardInterceptedUpgrade(req: IncomingMessage, clientSocket: Socket, head: Buffer, hostname: string, targetPort: number,
+                                    selection: UpstreamSelection, addresses: LookupAddress[]): void {
+    this.connectToTarget(hostname, targetPort, selection.upstreams, addresses).then((rawSocket) => {
+      if (clientSocket.destroyed) {
+        rawSocket.destroy();
+        return;
+      }
+
+      const serverSocket = tls.connect({
+        socket: rawSocket,
+        servername: net.isIP(hostname) ? undefined : hostname,
+        ALPNProtocols: ['http/1.1']
+      });
+
+      serverSocket.once('secureConnect', () => {
+        // 原样重放握手请求，去掉代理相关的头
+        const lines = [`${req.method} ${req.url} HTTP/1.1`];
+        for (let i = 0; i < req.rawHeaders.length; i += 2) {
+          const name = req.rawHeaders[i];
+          if (/^proxy-/i.test(name)) continue;
+          lines.push(`${name}: ${req.rawHeaders[i + 1]}`);
+        }
+        serverSocket.write(lines.join('\r\n') + '\r\n\r\n');
+        if (head && head.length > 0) {
+          serverSocket.write(head);
+        }
+
+        this.setupSocketErrorHandlers(clientSocket, serverSocket, hostname, targetPort);
+        serverSocket.pipe(clientSocket);
+        clientSocket.pipe(serverSocket);
+      });
+
+      serverSocket.on('error', (err: Error) => {
+        logger.error(`❌ [MITM] Upgrade连接失败 ${hostname}:${targetPort}:`, err.message);
+        if (!clientSocket.destroyed) {
+          clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+        }
+      });
+    }).catch((error: Error) => {
+      logger.error(`❌ [MITM] Upgrade连接失败 ${hostname}:${targetPort}:`, error.message);
+      if (!clientSocket.destroyed) {
+        clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      }
+    });
+  }
+
+  /**
+   * 直连目标时使用访问控制解析出的地址；有多个地址时按 Happy Eyeballs 依次尝试，
+   * 没有地址时连接以 ENOTFOUND 失败，不回退到系统解析器
+   */
+  private dialOptions(addresses: LookupAddress[]): Pick<net.TcpNetConnectOpts, 'lookup' | 'autoSelectFamily' | 'autoSelectFamilyAttemptTimeout'> {
+    return {
+      lookup: pinnedLookup(addresses),
+      autoSelectFamily: true,
+      autoSelectFamilyAttemptTimeout: this.resolver.happyEyeballsDelay
+    };
+  }
+
+  private tunnelOptions(): TunnelOptions {
+    return { timeout: this.timeouts.connect, resolve: (host) => this.resolver.resolve(host) };
+  }
+
+  /**
+   * 按上游列表建立到目标的原始TCP连接（直连或通过上游代理的隧道）
+   */
+  private async connectToTarget(hostname: string, targetPort: number, upstreams: Array<string | null>,
+                                addresses: LookupAddress[]): Promise<Socket> {
+    let lastError: Error = new Error('没有可用的上游');
+
+    for (const upstream of upstreams) {
+      try {
+        if (upstream) {
+          const tunnel = await openTunnel(upstream, hostname, targetPort, this.tunnelOptions());
+          if (tunnel.head.length > 0) {
+            tunnel.socket.unshift(tunnel.head);
+          }
+          return tunnel.socket;
+        }
+
+        return await new Promise<Socket>((resolve, reject) => {
+          const serverSocket = net.connect({
+            port: targetPort,
+            host: hostname,
+            ...this.dialOptions(addresses)
+          });
+          serverSocket.setTimeout(this.timeouts.connect, () => {
+            serverSocket.destroy();
+            reject(new TunnelError('连接目标服务器超时', '504 Gateway Timeout'));
+          });
+          serverSocket.once('error', reject);
+          serverSocket.once('connect', () => {
+            serverSocket.setTimeout(0);
+            serverSocket.removeListener('error', reject);
+            resolve(serverSocket);
+          });
+        });
+      } catch (error: any) {
+        lastError = error.message ? error : new Error(describeConnectError(error));
+        logger.info(`↪️  ${upstream ? describeUpstream(upstream) : 'DIRECT'} 连接 ${hostname}:${targetPort} 失败: ${lastError.message}`);
+      }
     }
+
+    throw lastError;
+  }
+
+  /**
+   * 校验代理认证，未开启认证时返回空字符串，认证失败返回 null
+   */
+  private async authenticateRequest(req: ProxyRequest): Promise<string | null> {
+    if (this.clientAuth) {
+      const socket = req.socket;
+      const identity = this.clientAuth.identify(socket);
+      if (identity) {
+        return identity;
+      }
+      // 证书无效（例如已吊销）时不再回退到 Basic 认证
+      if (!this.clientAuth.optional || this.clientAuth.hasCertificate(socket)) {
+        logger.info(`🔐 客户端证书认证失败 (${socket.remoteAddress}): ${this.clientAuth.describeFailure(socket)}`);
+        return null;
+      }
+    }
+
+    if (!this.authenticator) {
+      return '';
+    }
+    return this.authenticator.authenticate(req.headers['proxy-authorization']);
+  }
+
+  /**
+   * 407 响应头，只有开启 Basic 认证时才发送质询
+   */
+  private authChallengeHeaders(): Record<string, string> {
+    return this.authenticator ? { 'Proxy-Authenticate': this.authenticator.challenge } : {};
+  }
+
+  /**
+   * 在全局访问控制之后应用用户自己的策略
+   */
+  private applyUserPolicy(user: string, hostname: string, port: number, decision: AccessDecision): AccessDecision {
+    const policy = user ? this.userPolicies.get(user) || this.userPolicies.get('*') : undefined;
+    if (!decision.allowed || !policy) {
+      return decision;
+    }
+
+    const result = policy.evaluate(hostname, port, decision.addresses);
+    return result.allowed ? decision : { ...result, ruleId: `${user}/${result.ruleId}` };
+  }
+
+  /**
+   * 获取隧道对应的认证用户，用于日志
+   */
+  private describeUser(socket: TunnelSocket): string {
+    const user = this.tunnelUsers.get(socket);
+    return user ? ` [用户: ${user}]` : '';
   }
 
   /**
    * 通过上游代理处理CONNECT请求
    */
-  private handleConnectViaProxy(req: IncomingMessage, socket: Socket, head: Buffer, hostname: string, targetPort: number): void {
-    try {
-      const proxyAgent = this.createProxyAgent(`https://${hostname}:${targetPort}`, true);
-
-      if (!proxyAgent) {
-        console.error('❌ 无法创建代理Agent');
-        this.sendConnectError(socket, '502 Bad Gateway', '无法创建代理连接');
-        return;
+  private handleConnectViaProxy(socket: TunnelSocket, head: Buffer, hostname: string, targetPort: number,
+                                upstreamProxy: string, hooks: ConnectHooks = {}): void {
+    // 隧道建立前的失败只处理一次
+    let settled = false;
+    const fail = (status: string, message: string) => {
+      if (settled) return;
+      settled = true;
+      if (hooks.onFailure) {
+        hooks.onFailure(status, message);
+      } else {
+        this.sendConnectError(socket, status, message);
       }
+    };
 
-      // 创建到上游代理的连接
-      const proxyReq = http.request({
-        host: hostname,
-        port: targetPort,
-        method: 'CONNECT',
-        path: `${hostname}:${targetPort}`,
-        agent: proxyAgent,
-        timeout: this.timeout
-      });
-
-      proxyReq.on('connect', (proxyRes: IncomingMessage, proxySocket: Socket, proxyHead: Buffer) => {
-        console.log(`✅ 通过代理连接到 ${hostname}:${targetPort}`);
+    // 通过上游代理建立到目标的原始隧道
+    openTunnel(upstreamProxy, hostname, targetPort, this.tunnelOptions()).then(({ socket: proxySocket, head: proxyHead }) => {
+      settled = true;
+      logger.info(`✅ 通过代理连接到 ${hostname}:${targetPort}${this.describeUser(socket)}`);
 
-        // 确保socket没有被销毁
-        if (socket.destroyed) {
-          console.log(`⚠️  客户端socket已断开，关闭代理连接 ${hostname}:${targetPort}`);
-          proxySocket.destroy();
-          return;
-        }
+      // 确保socket没有被销毁
+      if (socket.destroyed) {
+        logger.warn(`⚠️  客户端socket已断开，关闭代理连接 ${hostname}:${targetPort}`);
+        proxySocket.destroy();
+        return;
+      }
 
-        // 先设置socket选项，确保在发送响应前就优化好连接
-        try {
-          // 禁用Nagle算法，减少延迟，对SSL握手特别重要
-          socket.setNoDelay(true);
-          proxySocket.setNoDelay(true);
-          // 启用TCP Keep-Alive机制
-          socket.setKeepAlive(true, 30000);
-          proxySocket.setKeepAlive(true, 30000);
-          // 设置更长的超时时间，给不同TLS版本协商更多时间
-          socket.setTimeout(120000); // 增加到120秒，适应各种TLS版本
-          proxySocket.setTimeout(120000);
-          // 增加socket缓冲区大小以处理SSL握手数据
-          if (socket.setMaxListeners) socket.setMaxListeners(20);
-          if (proxySocket.setMaxListeners) proxySocket.setMaxListeners(20);
-        } catch (err: any) {
-          console.error(`⚠️  设置socket选项失败 ${hostname}:${targetPort}:`, err.message);
-        }
+      // 先设置socket选项，确保在发送响应前就优化好连接
+      try {
+        // 禁用Nagle算法，减少延迟，对SSL握手特别重要
+        socket.setNoDelay(true);
+        proxySocket.setNoDelay(true);
+        // 启用TCP Keep-Alive机制，空闲超时由 setupSocketErrorHandlers 设置
+        socket.setKeepAlive(true, this.timeouts.keepAlive);
+        proxySocket.setKeepAlive(true, this.timeouts.keepAlive);
+        // 增加socket缓冲区大小以处理SSL握手数据
+        if (socket.setMaxListeners) socket.setMaxListeners(20);
+        if (proxySocket.setMaxListeners) proxySocket.setMaxListeners(20);
+      } catch (err: any) {
+        logger.warn(`⚠️  设置socket选项失败 ${hostname}:${targetPort}:`, err.message);
+      }
 
-        // 发送连接成功响应 - 增强SSL握手稳定性
-        try {
+      // 发送连接成功响应 - 增强SSL握手稳定性
+      try {
+        if (hooks.reply) {
+          hooks.reply.established(proxySocket);
+        } else {
           const response = 'HTTP/1.1 200 Connection Established\r\n' +
                           'Proxy-agent: HTTPS-Proxy/1.0\r\n' +
                           'Connection: keep-alive\r\n' +
@@ -313,7 +1258,7 @@ class HttpsProxy {
                           '\r\n';
           socket.write(response, (err) => {
             if (err) {
-              console.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
+              logger.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
               proxySocket.destroy();
               return;
             }
@@ -322,130 +1267,141 @@ class HttpsProxy {
               (socket as any).flush();
             }
           });
-        } catch (err: any) {
-          console.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
-          proxySocket.destroy();
-          return;
         }
+      } catch (err: any) {
+        logger.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
+        proxySocket.destroy();
+        return;
+      }
 
-        // 如果有预先接收的数据，先写入
-        if (head && head.length > 0) {
-          try {
-            proxySocket.write(head);
-          } catch (err: any) {
-            console.error(`❌ 写入head数据失败 ${hostname}:${targetPort}:`, err);
-          }
+      // 如果有预先接收的数据，先写入
+      if (head && head.length > 0) {
+        try {
+          proxySocket.write(head);
+        } catch (err: any) {
+          logger.error(`❌ 写入head数据失败 ${hostname}:${targetPort}:`, err);
         }
-        if (proxyHead && proxyHead.length > 0) {
-          try {
-            socket.write(proxyHead);
-          } catch (err: any) {
-            console.error(`❌ 写入proxyHead数据失败 ${hostname}:${targetPort}:`, err);
-          }
+      }
+      if (proxyHead && proxyHead.length > 0) {
+        try {
+          socket.write(proxyHead);
+        } catch (err: any) {
+          logger.error(`❌ 写入proxyHead数据失败 ${hostname}:${targetPort}:`, err);
         }
+      }
 
-        // 设置连接错误处理（在数据转发之前）
-        this.setupSocketErrorHandlers(socket, proxySocket, hostname, targetPort);
+      // 设置连接错误处理（在数据转发之前）
+      this.setupSocketErrorHandlers(socket, proxySocket, hostname, targetPort);
+      hooks.onEstablished?.(proxySocket);
 
-        // 确保在数据转发开始前，socket状态正常
-        process.nextTick(() => {
-          if (socket.destroyed || proxySocket.destroyed) {
-            console.log(`⚠️  Socket在数据转发前已关闭 ${hostname}:${targetPort}`);
-            return;
-          }
+      // 确保在数据转发开始前，socket状态正常
+      process.nextTick(() => {
+        if (socket.destroyed || proxySocket.destroyed) {
+          logger.warn(`⚠️  Socket在数据转发前已关闭 ${hostname}:${targetPort}`);
+          return;
+        }
 
-          // 双向数据转发 - 使用更好的错误处理
-          const proxyToClient = proxySocket.pipe(socket, { end: false });
-          const clientToProxy = socket.pipe(proxySocket, { end: false });
-
-          // 减少verbose logging，只记录非常见错误
-          proxyToClient.on('error', (err) => {
-            if (!err.message.includes('ECONNRESET') &&
-                !err.message.includes('EPIPE') &&
-                !err.message.includes('ENOTCONN') &&
-                !err.message.includes('Client network socket disconnected') &&
-                !err.message.includes('before secure TLS connection')) {
-              console.error(`❌ proxySocket->socket pipe错误 ${hostname}:${targetPort}:`, err.message);
-            }
-          });
+        // 双向数据转发 - 使用更好的错误处理
+        const proxyToClient = proxySocket.pipe(socket, { end: false });
+        const clientToProxy = socket.pipe(proxySocket, { end: false });
+        this.trackTunnel(socket, proxySocket, hostname, targetPort, describeUpstream(upstreamProxy));
 
-          clientToProxy.on('error', (err) => {
-            if (!err.message.includes('ECONNRESET') &&
-                !err.message.includes('EPIPE') &&
-                !err.message.includes('ENOTCONN') &&
-                !err.message.includes('Client network socket disconnected') &&
-                !err.message.includes('before secure TLS connection')) {
-              console.error(`❌ socket->proxySocket pipe错误 ${hostname}:${targetPort}:`, err.message);
-            }
-          });
+        // 常见的断开错误只在 debug 级别输出
+        proxyToClient.on('error', (err: any) => {
+          logger.log(networkErrorLevel(err), `❌ proxySocket->socket pipe错误 ${hostname}:${targetPort}:`, err.message);
         });
-      });
-
-      proxyReq.on('error', (err: Error) => {
-        console.error(`❌ 代理连接错误 ${hostname}:${targetPort}:`, err.message);
-        this.sendConnectError(socket, '502 Bad Gateway', `代理连接失败: ${err.message}`);
-      });
 
-      proxyReq.on('timeout', () => {
-        console.log(`⏰ 代理连接超时 ${hostname}:${targetPort}`);
-        proxyReq.destroy();
-        this.sendConnectError(socket, '504 Gateway Timeout', '代理连接超时');
+        clientToProxy.on('error', (err: any) => {
+          logger.log(networkErrorLevel(err), `❌ socket->proxySocket pipe错误 ${hostname}:${targetPort}:`, err.message);
+        });
       });
-
-      proxyReq.end();
-
-    } catch (error) {
-      console.error(`❌ 代理连接异常 ${hostname}:${targetPort}:`, error);
-      this.sendConnectError(socket, '502 Bad Gateway', `代理连接异常: ${error}`);
-    }
+    }).catch((error: Error) => {
+      const status = error instanceof TunnelError ? error.status : '502 Bad Gateway';
+      if (status.startsWith('504')) {
+        logger.info(`⏰ 代理连接超时 ${hostname}:${targetPort} (${describeUpstream(upstreamProxy)})`);
+        fail(status, '代理连接超时');
+      } else {
+        logger.error(`❌ 代理连接错误 ${hostname}:${targetPort} (${describeUpstream(upstreamProxy)}):`, error.message);
+        fail(status, `代理连接失败: ${error.message}`);
+      }
+    });
   }
 
   /**
    * 直接连接处理CONNECT请求
    */
-  private handleDirectConnect(socket: Socket, hostname: string, targetPort: number, head: Buffer): void {
+  private handleDirectConnect(socket: TunnelSocket, hostname: string, targetPort: number, head: Buffer, addresses: LookupAddress[] = [],
+                              hooks: ConnectHooks = {}): void {
     const serverSocket = new (require('net').Socket)();
+    let established = false;
+
+    // 连接建立前的失败只处理一次
+    let failed = false;
+    const fail = (status: string, message: string) => {
+      if (established || failed) return;
+      failed = true;
+      serverSocket.destroy();
+      if (hooks.onFailure) {
+        hooks.onFailure(status, message);
+      } else {
+        this.sendConnectError(socket, status, message);
+      }
+    };
 
-    serverSocket.setTimeout(this.timeout);
+    serverSocket.setTimeout(this.timeouts.connect);
+    serverSocket.on('timeout', () => {
+      if (!established) {
+        logger.info(`⏰ 直接连接超时 ${hostname}:${targetPort}`);
+        fail('504 Gateway Timeout', '连接目标服务器超时');
+      }
+    });
 
-    serverSocket.connect(targetPort, hostname, () => {
-      console.log(`✅ 直接连接到 ${hostname}:${targetPort}`);
+    serverSocket.connect({
+      port: targetPort,
+      host: hostname,
+      // 使用访问控制检查过的地址，避免DNS重绑定绕过
+      ...this.dialOptions(addresses)
+    }, () => {
+      established = true;
+      logger.info(`✅ 直接连接到 ${hostname}:${targetPort}${this.describeUser(socket)}`);
 
       // 确保客户端socket没有被销毁
       if (socket.destroyed) {
-        console.log(`⚠️  客户端socket已断开，关闭服务器连接 ${hostname}:${targetPort}`);
+        logger.warn(`⚠️  客户端socket已断开，关闭服务器连接 ${hostname}:${targetPort}`);
         serverSocket.destroy();
         return;
       }
 
       // 发送连接成功响应 - 添加keep-alive头改善SSL稳定性
       try {
-        socket.write('HTTP/1.1 200 Connection Established\r\n');
-        socket.write('Proxy-agent: HTTPS-Proxy/1.0\r\n');
-        socket.write('Connection: keep-alive\r\n');
-        socket.write('Keep-Alive: timeout=60, max=1000\r\n');
-        socket.write('Proxy-Connection: keep-alive\r\n');
-        socket.write('\r\n');
+        if (hooks.reply) {
+          hooks.reply.established(serverSocket);
+        } else {
+          socket.write('HTTP/1.1 200 Connection Established\r\n');
+          socket.write('Proxy-agent: HTTPS-Proxy/1.0\r\n');
+          socket.write('Connection: keep-alive\r\n');
+          socket.write('Keep-Alive: timeout=60, max=1000\r\n');
+          socket.write('Proxy-Connection: keep-alive\r\n');
+          socket.write('\r\n');
+        }
       } catch (err: any) {
-        console.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
+        logger.error(`❌ 发送CONNECT响应失败 ${hostname}:${targetPort}:`, err);
         serverSocket.destroy();
         return;
       }
 
       // 立即设置socket选项以提高SSL握手稳定性
       try {
-        socket.setKeepAlive(true, 30000); // 增加到30秒，给SSL握手更多时间
-        serverSocket.setKeepAlive(true, 30000);
+        // 空闲超时由 setupSocketErrorHandlers 设置
+        socket.setKeepAlive(true, this.timeouts.keepAlive);
+        serverSocket.setKeepAlive(true, this.timeouts.keepAlive);
         socket.setNoDelay(true);
         serverSocket.setNoDelay(true);
-        // 设置更长的超时以适应不同TLS版本的协商过程
-        socket.setTimeout(120000); // 120秒超时，适应各种TLS版本协商
-        serverSocket.setTimeout(120000);
         // 优化socket监听器数量
         if (socket.setMaxListeners) socket.setMaxListeners(20);
         if (serverSocket.setMaxListeners) serverSocket.setMaxListeners(20);
       } catch (err: any) {
-        console.error(`⚠️  设置socket选项失败 ${hostname}:${targetPort}:`, err.message);
+        logger.warn(`⚠️  设置socket选项失败 ${hostname}:${targetPort}:`, err.message);
       }
 
       // 如果有预先接收的数据，先写入
@@ -453,64 +1409,149 @@ class HttpsProxy {
         try {
           serverSocket.write(head);
         } catch (err: any) {
-          console.error(`❌ 写入head数据失败 ${hostname}:${targetPort}:`, err);
+          logger.error(`❌ 写入head数据失败 ${hostname}:${targetPort}:`, err);
         }
       }
 
       // 设置连接错误处理（在数据转发之前）
       this.setupSocketErrorHandlers(socket, serverSocket, hostname, targetPort);
+      hooks.onEstablished?.(serverSocket);
 
       // 双向数据转发 - 使用更好的错误处理
       const serverToClient = serverSocket.pipe(socket, { end: false });
       const clientToServer = socket.pipe(serverSocket, { end: false });
+      this.trackTunnel(socket, serverSocket, hostname, targetPort, 'DIRECT');
 
       serverToClient.on('error', (err: any) => {
-        if (!err.message.includes('ECONNRESET') &&
-            !err.message.includes('EPIPE') &&
-            !err.message.includes('ENOTCONN') &&
-            !err.message.includes('Client network socket disconnected')) {
-          console.error(`❌ serverSocket->socket pipe错误 ${hostname}:${targetPort}:`, err.message);
-        }
+        logger.log(networkErrorLevel(err), `❌ serverSocket->socket pipe错误 ${hostname}:${targetPort}:`, err.message);
       });
 
       clientToServer.on('error', (err: any) => {
-        if (!err.message.includes('ECONNRESET') &&
-            !err.message.includes('EPIPE') &&
-            !err.message.includes('ENOTCONN') &&
-            !err.message.includes('Client network socket disconnected')) {
-          console.error(`❌ socket->serverSocket pipe错误 ${hostname}:${targetPort}:`, err.message);
-        }
+        logger.log(networkErrorLevel(err), `❌ socket->serverSocket pipe错误 ${hostname}:${targetPort}:`, err.message);
       });
     });
 
     serverSocket.on('error', (err: Error) => {
-      console.error(`❌ 直接连接错误 ${hostname}:${targetPort}:`, err.message);
-      this.sendConnectError(socket, '502 Bad Gateway', `连接目标服务器失败: ${err.message}`);
+      const message = describeConnectError(err);
+      logger.error(`❌ 直接连接错误 ${hostname}:${targetPort}:`, message);
+      fail('502 Bad Gateway', `连接目标服务器失败: ${message}`);
     });
   }
 
   /**
    * 发送CONNECT错误响应
    */
-  private sendConnectError(socket: Socket, status: string, message: string): void {
+  private sendConnectError(socket: TunnelSocket, status: string, message: string, headers: Record<string, string> = {}): void {
+    this.metrics.connectTotal.inc({ result: status.split(' ')[0] });
+    this.logTunnelAccess(socket, parseInt(status, 10), { error: errorCode(message) });
     if (!socket.destroyed) {
       socket.write(`HTTP/1.1 ${status}\r\n`);
       socket.write('Content-Type: text/plain\r\n');
+      for (const [name, value] of Object.entries(headers)) {
+        socket.write(`${name}: ${value}\r\n`);
+      }
       socket.write('\r\n');
       socket.write(message);
       socket.end();
     }
   }
 
+  /**
+   * 记录隧道：监控指标和连接列表（打开的隧道数、双向转发的字节数），在开始转发之后调用（不会改变数据流）
+   */
+  private trackTunnel(clientSocket: TunnelSocket, serverSocket: TunnelSocket, hostname: string, targetPort: number, upstream: string,
+                      connect: boolean = true, intercepted: boolean = false): void {
+    // 转发的 Upgrade 请求单独计数
+    if (connect) {
+      this.metrics.connectTotal.inc({ result: 'established' });
+    }
+    this.metrics.activeTunnels.inc();
+    clientSocket.once('close', () => this.metrics.activeTunnels.dec());
+
+    const record = this.connections.register(clientSocket, serverSocket, {
+      hostname,
+      port: targetPort,
+      upstream,
+      user: this.tunnelUsers.get(clientSocket) || '',
+      intercepted
+    });
+
+    clientSocket.once('close', () => {
+      this.logTunnelAccess(clientSocket, 200, { upstream, bytesUp: record.bytesSent, bytesDown: record.bytesReceived });
+    });
+
+    this.bandwidth.attach(clientSocket, serverSocket, { client: clientSocket.remoteAddress || '', user: record.user, host: hostname });
+    clientSocket.on('data', (chunk: Buffer) => {
+      record.bytesSent += chunk.length;
+      this.metrics.tunnelBytes.inc({ direction: 'client_to_server' }, chunk.length);
+    });
+    serverSocket.on('data', (chunk: Buffer) => {
+      record.bytesReceived += chunk.length;
+      this.metrics.tunnelBytes.inc({ direction: 'server_to_client' }, chunk.length);
+    });
+  }
+
+  /**
+   * 写入隧道的访问日志（隧道关闭或建立失败时各一条），status 使用HTTP状态码
+   */
+  private logTunnelAccess(socket: TunnelSocket, status: number,
+                          fields: { upstream?: string; bytesUp?: number; bytesDown?: number; error?: string } = {}): void {
+    const request = this.tunnelRequests.get(socket);
+    if (!request) return;
+    this.tunnelRequests.delete(socket);
+
+    logger.access({
+      type: 'tunnel',
+      client: unmapIPv4(socket.remoteAddress || ''),
+      user: this.tunnelUsers.get(socket) || undefined,
+      method: request.method,
+      target: request.target,
+      status,
+      upstream: fields.upstream,
+      duration_ms: Date.now() - request.startTime,
+      bytes_up: fields.bytesUp || 0,
+      bytes_down: fields.bytesDown || 0,
+      error: fields.error
+    });
+  }
+
+  /**
+   * 在响应结束时写入转发请求的访问日志，返回的对象由转发过程填写
+   */
+  private trackRequest(req: HttpRequest, res: HttpResponse, target: string, user?: string): RequestAccess {
+    const access: RequestAccess = { user, bytesUp: 0, bytesDown: 0 };
+    const startTime = Date.now();
+
+    res.once('close', () => {
+      logger.access({
+        type: 'request',
+        client: unmapIPv4(req.socket.remoteAddress || ''),
+        user: access.user || undefined,
+        method: req.method || '',
+        target,
+        status: res.statusCode,
+        upstream: access.upstream,
+        duration_ms: Date.now() - startTime,
+        bytes_up: access.bytesUp,
+        bytes_down: access.bytesDown,
+        error: access.error || (res.writableFinished ? undefined : 'ECONNRESET')
+      });
+    });
+
+    return access;
+  }
+
   /**
    * 设置Socket错误处理
    */
-  private setupSocketErrorHandlers(clientSocket: Socket, serverSocket: Socket, hostname: string, targetPort: number): void {
+  private setupSocketErrorHandlers(clientSocket: TunnelSocket, serverSocket: TunnelSocket, hostname: string, targetPort: number,
+                                   idleTimeout?: number): void {
     let connectionClosed = false;
 
     const cleanup = () => {
       if (connectionClosed) return;
       connectionClosed = true;
+      this.connections.unregister(clientSocket);
 
       try {
         if (!clientSocket.destroyed) {
@@ -532,66 +1573,40 @@ class HttpsProxy {
     };
 
     clientSocket.on('error', (err: any) => {
-      // 过滤更多SSL相关的常见错误，避免大量日志输出
-      const isCommonError =
-        err.message.includes('ECONNRESET') ||
-        err.message.includes('EPIPE') ||
-        err.message.includes('ENOTCONN') ||
-        err.message.includes('Client network socket disconnected') ||
-        err.message.includes('before secure TLS connection') ||
-        err.message.includes('socket hang up') ||
-        err.message.includes('PROTOCOL_WRONG_VERSION') ||
-        err.message.includes('SSL routines') ||
-        err.message.includes('ETIMEDOUT');
-
-      if (!isCommonError) {
-        console.error(`❌ 客户端连接错误 ${hostname}:${targetPort}:`, err.message);
-      } else if (err.code === 'ECONNRESET' && err.message.includes('before secure TLS connection')) {
-        // WebSocket SSL握手特殊处理
-        console.log(`⚠️  WebSocket SSL握手中断 ${hostname}:${targetPort}`);
-      } else {
-        // 对常见的SSL握手错误，只记录简要信息
-        console.log(`⚠️  客户端连接断开 ${hostname}:${targetPort} (${err.code || 'SSL'})`);
-      }
+      // 客户端断开、TLS握手中断等常见错误只在 debug 级别输出
+      logger.log(networkErrorLevel(err), `❌ 客户端连接错误 ${hostname}:${targetPort} (${err.code || 'SSL'}):`, err.message);
       cleanup();
     });
 
-    clientSocket.on('close', (hadError) => {
+    clientSocket.on('close', (hadError?: boolean) => {
       if (hadError) {
-        console.log(`🔌 客户端连接异常关闭 ${hostname}:${targetPort}`);
+        logger.debug(`🔌 客户端连接异常关闭 ${hostname}:${targetPort}`);
       }
       cleanup();
     });
 
     serverSocket.on('error', (err: any) => {
-      const isCommonError = err.message.includes('ECONNRESET') ||
-                           err.message.includes('EPIPE') ||
-                           err.message.includes('ENOTCONN') ||
-                           err.message.includes('socket hang up');
-
-      if (!isCommonError) {
-        console.error(`❌ 服务器连接错误 ${hostname}:${targetPort}:`, err.message);
-      }
+      logger.log(networkErrorLevel(err), `❌ 服务器连接错误 ${hostname}:${targetPort} (${err.code || 'ERROR'}):`, err.message);
       cleanup();
     });
 
-    serverSocket.on('close', (hadError) => {
+    serverSocket.on('close', (hadError?: boolean) => {
       if (hadError) {
-        console.log(`🔌 服务器连接异常关闭 ${hostname}:${targetPort}`);
+        logger.debug(`🔌 服务器连接异常关闭 ${hostname}:${targetPort}`);
       }
       cleanup();
     });
 
-    // 对于WebSocket连接，使用更长的超时时间
-    const timeoutMs = hostname.includes('tradingview') || targetPort === 443 ? 60000 : this.timeout;
+    // 隧道里常有长时间空闲的WebSocket连接，空闲超时单独配置，也可以按目标覆盖
+    const timeoutMs = idleTimeout || this.websocketPolicy.tunnelIdleTimeout(hostname) || this.timeouts.tunnelIdle;
 
     clientSocket.setTimeout(timeoutMs, () => {
-      console.log(`⏰ 客户端连接超时 ${hostname}:${targetPort}`);
+      logger.info(`⏰ 客户端连接超时 ${hostname}:${targetPort}`);
       cleanup();
     });
 
     serverSocket.setTimeout(timeoutMs, () => {
-      console.log(`⏰ 服务器连接超时 ${hostname}:${targetPort}`);
+      logger.info(`⏰ 服务器连接超时 ${hostname}:${targetPort}`);
       cleanup();
     });
 
@@ -608,12 +1623,13 @@ class HttpsProxy {
   /**
    * 处理 HTTP/HTTPS 请求转发
    */
-  private handleHttpRequest(req: IncomingMessage, res: ServerResponse): void {
-    const targetUrl = req.url;
+  private handleHttpRequest(req: HttpRequest, res: HttpResponse): void {
+    // HTTP/2 的代理请求按 :scheme 识别：代理本身只提供 https，http 的请求都需要转发
+    const targetUrl = req.headers[':scheme'] === 'http' ? http2RequestUrl(req.headers) : req.url;
 
     // 严格的请求过滤 - 防止SSL数据被误解析为HTTP
     if (!targetUrl) {
-      console.log('❌ HTTP请求缺少URL');
+      logger.error('❌ HTTP请求缺少URL');
       res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
       res.end('缺少 URL');
       return;
@@ -622,7 +1638,7 @@ class HttpsProxy {
     // 检查请求方法 - 只处理标准HTTP方法
     const validMethods = ['GET', 'POST', 'PUT', 'DELETE', 'HEAD', 'OPTIONS', 'PATCH'];
     if (!req.method || !validMethods.includes(req.method)) {
-      console.log(`❌ 无效的HTTP方法: ${req.method}`);
+      logger.error(`❌ 无效的HTTP方法: ${req.method}`);
       res.writeHead(405, { 'Content-Type': 'text/plain; charset=utf-8' });
       res.end(`不支持的HTTP方法: ${req.method}`);
       return;
@@ -630,19 +1646,53 @@ class HttpsProxy {
 
     // 严格URL验证 - 只处理绝对URL（代理请求）
     if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
-      // 检查是否是SSL握手数据被误解析（常见的SSL错误模式）
+      // 检查是否是SSL握手数据被误解析（常见的SSL错误模式），HTTP/2 请求用 :authority 代替 Host
+      const host = req.headers.host || req.headers[':authority'];
       if (req.headers && (
-          !req.headers.host ||
-          typeof req.headers.host !== 'string' ||
-          req.headers.host.length > 255 ||
-          /[\x00-\x1f\x7f-\xff]/.test(req.headers.host)
+          !host ||
+          typeof host !== 'string' ||
+          host.length > 255 ||
+          /[\x00-\x1f\x7f-\xff]/.test(host)
         )) {
-        console.log('⚠️  疑似SSL数据被误解析为HTTP请求，拒绝处理');
+        logger.warn('⚠️  疑似SSL数据被误解析为HTTP请求，拒绝处理');
         res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
         res.end('Bad Request - 请使用CONNECT方法建立SSL隧道');
         return;
       }
 
+      // 下载CA证书，方便客户端安装
+      if (req.method === 'GET' && targetUrl.split('?')[0] === '/ca.crt') {
+        this.sendCaCertificate(res);
+        return;
+      }
+
+      // 连接管理界面和接口
+      const pathname = targetUrl.split('?')[0];
+      if (pathname === '/admin' || pathname.startsWith('/admin/')) {
+        this.handleAdminRequest(req, res, new URL(targetUrl, 'http://localhost'));
+        return;
+      }
+
+      // Prometheus 监控指标，集群模式下为所有工作进程的合计；与管理接口使用相同的访问控制
+      if (req.method === 'GET' && pathname === '/metrics') {
+        const denied = checkAdminAccess(req, this.adminToken);
+        if (denied) {
+          logger.info(`🔐 监控指标拒绝访问 (${req.socket.remoteAddress}): ${denied}`);
+          res.writeHead(403, { 'Content-Type': 'text/plain; charset=utf-8' });
+          res.end(`${denied}\n`);
+          return;
+        }
+        const rendered = this.clusterWorker ? this.clusterWorker.metrics() : Promise.resolve(this.metrics.render());
+        rendered.then((text) => {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(text);
+        }, (error: Error) => {
+          res.writeHead(503, { 'Content-Type': 'text/plain; charset=utf-8' });
+          res.end(`${error.message}\n`);
+        });
+        return;
+      }
+
       // 对于非代理请求，返回代理配置说明
       res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
       res.end(`
@@ -671,82 +1721,473 @@ class HttpsProxy {
               <p>端口: <span class="status">${this.port}</span> | 状态: <span class="status">运行中</span></p>
             </div>
 
-            <div class="content">
-              <h2>📋 使用说明</h2>
-              <ul>
-                <li><strong>🌐 浏览器设置:</strong> 设置HTTPS代理为 <code>127.0.0.1:${this.port}</code></li>
-                <li><strong>📱 命令行设置:</strong>
-                  <pre>export https_proxy=https://127.0.0.1:${this.port}</pre>
-                </li>
-                <li><strong>🧪 测试Binance API (忽略证书验证):</strong>
-                  <pre>curl --proxy-insecure --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping</pre>
-                </li>
-                <li><strong>🔐 使用CA证书 (推荐):</strong>
-                  <pre>curl --cacert certs/ca.crt --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping</pre>
-                </li>
-                <li><strong>🌐 WebSocket测试 (WSS):</strong>
-                  <pre># 使用wscat测试WebSocket连接
-export https_proxy=https://127.0.0.1:${this.port}
-wscat -c wss://echo.websocket.org --ca certs/ca.crt</pre>
-                </li>
-                <li><strong>📦 安装CA证书到系统:</strong>
-                  <pre># macOS
-sudo security add-trusted-cert -d -r trustRoot -k /Library/Keychains/System.keychain certs/ca.crt
+            <div class="content">
+              <h2>📋 使用说明</h2>
+              <ul>
+                <li><strong>🌐 浏览器设置:</strong> 设置HTTPS代理为 <code>127.0.0.1:${this.port}</code></li>
+                <li><strong>📱 命令行设置:</strong>
+                  <pre>export https_proxy=https://127.0.0.1:${this.port}</pre>
+                </li>
+                <li><strong>🧪 测试Binance API (忽略证书验证):</strong>
+                  <pre>curl --proxy-insecure --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping</pre>
+                </li>
+                <li><strong>🔐 使用CA证书 (推荐):</strong>
+                  <pre>curl --cacert certs/ca.crt --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping</pre>
+                </li>
+                <li><strong>🌐 WebSocket测试 (WSS):</strong>
+                  <pre># 使用wscat测试WebSocket连接
+export https_proxy=https://127.0.0.1:${this.port}
+wscat -c wss://echo.websocket.org --ca certs/ca.crt</pre>
+                </li>
+                <li><strong>📡 连接管理:</strong> <a href="/admin">/admin</a></li>
+                <li><strong>📊 监控指标:</strong> <a href="/metrics">/metrics</a> (Prometheus)</li>
+                <li><strong>📥 下载CA证书:</strong> <a href="/ca.crt">/ca.crt</a>
+                  <pre>curl -k -o ca.crt https://127.0.0.1:${this.port}/ca.crt</pre>
+                </li>
+                <li><strong>📦 安装CA证书到系统:</strong>
+                  <pre># macOS
+sudo security add-trusted-cert -d -r trustRoot -k /Library/Keychains/System.keychain certs/ca.crt
+
+# Linux (Ubuntu/Debian)
+sudo cp certs/ca.crt /usr/local/share/ca-certificates/
+sudo update-ca-certificates</pre>
+                </li>
+              </ul>
+
+              <h2>⚙️ 证书信息</h2>
+              <p><span class="info">CA证书:</span> certs/ca.crt</p>
+              <p><span class="info">服务器证书:</span> certs/server.crt</p>
+              <p><span class="warning">注意:</span> 使用自签名证书，需要添加 <code>--proxy-insecure</code> 参数或安装CA证书</p>
+
+              <h2>🚀 支持的功能</h2>
+              <ul>
+                <li>✅ HTTPS CONNECT 隧道</li>
+                <li>✅ HTTP/HTTPS 请求转发</li>
+                <li>✅ WebSocket (WSS) 透明转发</li>
+                <li>✅ Binance API 访问</li>
+                <li>✅ SSL/TLS 安全连接</li>
+                <li>✅ 代理链支持</li>
+              </ul>
+            </div>
+          </div>
+        </body>
+        </html>
+      `);
+      return;
+    }
+
+    const access = this.trackRequest(req, res, targetUrl);
+
+    // 代理认证
+    this.authenticateRequest(req).then(async (user) => {
+      access.user = user || undefined;
+      if (user === null) {
+        logger.info(`🔐 ${req.method} ${targetUrl} 未通过代理认证 (${req.socket.remoteAddress})`);
+        res.writeHead(407, {
+          'Content-Type': 'text/plain; charset=utf-8',
+          ...this.authChallengeHeaders()
+        });
+        res.end('需要代理认证');
+        return;
+      }
+
+      logger.info(`🌐 ${req.method} ${targetUrl}${user ? ` [用户: ${user}]` : ''} - ${new Date().toISOString()}`);
+
+      // URL解析和验证
+      let parsedUrl: URL;
+      try {
+        parsedUrl = new URL(targetUrl);
+      } catch (error) {
+        logger.error(`❌ 无效的URL: ${targetUrl}`, error);
+        res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(`无效的URL: ${targetUrl}`);
+        return;
+      }
+
+      // 额外的URL验证 - 确保协议正确
+      if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+        logger.error(`❌ 不支持的协议: ${parsedUrl.protocol}`);
+        res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(`不支持的协议: ${parsedUrl.protocol}`);
+        return;
+      }
+
+      // 限速（可以排队等待）和访问控制检查
+      const targetHost = parsedUrl.hostname.replace(/^\[|\]$/g, '');
+      const targetPort = parseInt(parsedUrl.port || (parsedUrl.protocol === 'https:' ? '443' : '80'), 10);
+      const allowed = await this.checkLimits(req, res, access, user, targetHost);
+      if (!allowed) return;
+
+      const globalDecision = await this.accessControl.check(targetHost, targetPort);
+      const decision = this.applyUserPolicy(user, targetHost, targetPort, globalDecision);
+      if (!decision.allowed) {
+        logger.info(`🚫 ${req.method} ${targetUrl} 被访问控制拒绝 (规则: ${decision.ruleId})`);
+        res.writeHead(403, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Proxy-Rule': decision.ruleId });
+        res.end(`访问被拒绝 (规则: ${decision.ruleId})`);
+        return;
+      }
+
+      // 按路由表/PAC选择直连、上游代理或拒绝
+      const selection = await this.selectUpstreams(parsedUrl.href, targetHost, targetPort, decision.addresses);
+      if (selection.rejected) {
+        logger.info(`🚫 ${req.method} ${targetUrl} 被路由规则拒绝 (规则: ${selection.ruleId})`);
+        res.writeHead(403, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Proxy-Rule': selection.ruleId });
+        res.end(`访问被拒绝 (规则: ${selection.ruleId})`);
+        return;
+      }
+
+      this.forwardHttpRequest(req, res, parsedUrl, decision.addresses, selection.upstreams, selection.pool, access);
+    }).catch((error) => {
+      logger.error(`❌ 处理请求失败 ${targetUrl}:`, error);
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(`处理请求失败: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * 转发请求的流量配额和限速：通过时占用限额直到响应结束，并把请求的流量计入配额；
+   * 配额用完或超过限速（排队超时）时返回 429，resolve false
+   */
+  private async checkLimits(req: HttpRequest, res: HttpResponse, access: RequestAccess, user: string, host: string): Promise<boolean> {
+    const keys = { client: req.socket.remoteAddress || '', user, host };
+    let lease: RateLimitLease;
+    try {
+      this.bandwidth.checkQuota(keys);
+      lease = await this.rateLimiter.acquire(keys, true);
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+      (error instanceof QuotaExceededError ? this.metrics.quotaExceeded : this.metrics.rateLimited).inc({ scope: error.scope });
+      logger.info(`🚦 ${req.method} ${req.url} 被拒绝 (${req.socket.remoteAddress}): ${error.message}`);
+      res.writeHead(429, { 'Content-Type': 'text/plain; charset=utf-8', 'Retry-After': String(error.retryAfter) });
+      res.end(error.message);
+      return false;
+    }
+
+    // 排队期间客户端已经断开
+    if (req.socket.destroyed) {
+      lease.release();
+      return false;
+    }
+    res.once('close', () => {
+      lease.release();
+      this.bandwidth.record(keys, access.bytesUp + access.bytesDown);
+    });
+    return true;
+  }
+
+  /**
+   * 转发绝对URL的 Upgrade 请求（ws://、wss:// 或 http(s):// 地址的 WebSocket），
+   * 与普通转发请求使用同样的认证、限速、访问控制和路由，连接源站后转发响应，升级成功后双向透传；
+   * HTTP/2 的扩展CONNECT通过 reply 回复，到源站仍然使用 HTTP/1.1 升级
+   */
+  private handleUpgradeRequest(req: ProxyRequest, socket: TunnelSocket, head: Buffer, reply?: UpgradeReply): void {
+    const targetUrl = reply ? http2RequestUrl(req.headers) : req.url || '';
+    const protocol = reply ? req.headers[':protocol'] : req.headers.upgrade;
+    this.tunnelRequests.set(socket, { method: req.method || 'GET', target: targetUrl, startTime: Date.now() });
+    // 开始透传之前客户端断开时不产生未处理的错误
+    const onSetupError = (err: any) => logger.log(networkErrorLevel(err), `⚠️  Upgrade客户端连接错误 ${targetUrl} (${err.code || err.message})`);
+    socket.on('error', onSetupError);
+
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(targetUrl);
+    } catch (error) {
+      this.rejectUpgrade(socket, '400 Bad Request', `无效的URL: ${targetUrl}`, {}, reply);
+      return;
+    }
+    const isHttps = parsedUrl.protocol === 'https:' || parsedUrl.protocol === 'wss:';
+    if (!isHttps && parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'ws:') {
+      this.rejectUpgrade(socket, '400 Bad Request', `不支持的协议: ${parsedUrl.protocol}`, {}, reply);
+      return;
+    }
+    // 扩展CONNECT只转发 WebSocket，其他协议（例如 connect-udp）无法转换为 HTTP/1.1 升级
+    if (reply && protocol !== 'websocket') {
+      this.rejectUpgrade(socket, '501 Not Implemented', `不支持的协议: ${protocol}`, {}, reply);
+      return;
+    }
+
+    (async () => {
+      const user = await this.authenticateRequest(req);
+      if (user === null) {
+        logger.info(`🔐 ${req.method} ${targetUrl} 未通过代理认证 (${socket.remoteAddress})`);
+        this.rejectUpgrade(socket, '407 Proxy Authentication Required', '需要代理认证', this.authChallengeHeaders(), reply);
+        return;
+      }
+      if (user) {
+        this.tunnelUsers.set(socket, user);
+      }
+
+      logger.info(`🔌 ${req.method} ${targetUrl} (${reply ? 'HTTP/2 ' : ''}Upgrade: ${protocol})${user ? ` [用户: ${user}]` : ''} - ${new Date().toISOString()}`);
+
+      const hostname = parsedUrl.hostname.replace(/^\[|\]$/g, '');
+      const targetPort = parseInt(parsedUrl.port || (isHttps ? '443' : '80'), 10);
+      const keys = { client: socket.remoteAddress || '', user, host: hostname };
+      try {
+        this.bandwidth.checkQuota(keys);
+        const lease = this.rateLimiter.tryAcquire(keys);
+        socket.once('close', () => lease.release());
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) throw error;
+        (error instanceof QuotaExceededError ? this.metrics.quotaExceeded : this.metrics.rateLimited).inc({ scope: error.scope });
+        logger.info(`🚦 ${req.method} ${targetUrl} 被拒绝 (${socket.remoteAddress}): ${error.message}`);
+        this.rejectUpgrade(socket, '429 Too Many Requests', error.message, { 'Retry-After': String(error.retryAfter) }, reply);
+        return;
+      }
+
+      // 路由表和PAC按对应的 http(s) 地址匹配
+      const originUrl = new URL(parsedUrl.href);
+      originUrl.protocol = isHttps ? 'https:' : 'http:';
+
+      const decision = this.applyUserPolicy(user, hostname, targetPort, await this.accessControl.check(hostname, targetPort));
+      if (!decision.allowed) {
+        logger.info(`🚫 ${req.method} ${targetUrl} 被访问控制拒绝 (规则: ${decision.ruleId})`);
+        this.rejectUpgrade(socket, '403 Forbidden', `访问被拒绝 (规则: ${decision.ruleId})`, { 'X-Proxy-Rule': decision.ruleId }, reply);
+        return;
+      }
+
+      const selection = await this.selectUpstreams(originUrl.href, hostname, targetPort, decision.addresses);
+      if (selection.rejected) {
+        logger.info(`🚫 ${req.method} ${targetUrl} 被路由规则拒绝 (规则: ${selection.ruleId})`);
+        this.rejectUpgrade(socket, '403 Forbidden', `访问被拒绝 (规则: ${selection.ruleId})`, { 'X-Proxy-Rule': selection.ruleId }, reply);
+        return;
+      }
+
+      const rawSocket = await this.connectToTarget(hostname, targetPort, selection.upstreams, decision.addresses);
+      if (socket.destroyed) {
+        rawSocket.destroy();
+        return;
+      }
+      const serverSocket = isHttps
+        ? tls.connect({ socket: rawSocket, servername: net.isIP(hostname) ? undefined : hostname, ALPNProtocols: ['http/1.1'] })
+        : rawSocket;
+      const upstream = selection.upstreams[0];
+      socket.removeListener('error', onSetupError);
+      this.forwardUpgrade(req, socket, head, originUrl, serverSocket, upstream ? describeUpstream(upstream) : 'DIRECT', reply);
+    })().catch((error) => {
+      const message = describeConnectError(error);
+      logger.error(`❌ Upgrade连接失败 ${targetUrl}:`, message);
+      this.rejectUpgrade(socket, error instanceof TunnelError ? error.status : '502 Bad Gateway', `连接目标服务器失败: ${message}`, {}, reply);
+    });
+  }
+
+  /**
+   * 在已连接源站的socket上重新发送 Upgrade 请求：101 时转发响应头后双向透传（WebSocket 按目标的设置保活），
+   * 其他响应原样转发后关闭连接
+   */
+  private forwardUpgrade(req: ProxyRequest, clientSocket: TunnelSocket, head: Buffer, targetUrl: URL, serverSocket: Socket, upstream: string,
+                         reply?: UpgradeReply): void {
+    const hostname = targetUrl.hostname.replace(/^\[|\]$/g, '');
+    const targetPort = parseInt(targetUrl.port || (targetUrl.protocol === 'https:' ? '443' : '80'), 10);
+    const headers: http.OutgoingHttpHeaders = reply
+      ? websocketRequestHeaders(req.headers)
+      : { ...req.headers, host: req.headers.host || targetUrl.host };
+    delete headers['proxy-connection'];
+    delete headers['proxy-authorization'];
+
+    let responded = false;
+    const proxyReq = http.request({
+      // 扩展CONNECT对应 HTTP/1.1 的 GET 升级请求
+      method: reply ? 'GET' : req.method,
+      path: targetUrl.pathname + targetUrl.search,
+      headers,
+      createConnection: () => serverSocket
+    });
+
+    proxyReq.on('upgrade', (res: IncomingMessage, upgradedSocket: Socket, upgradeHead: Buffer) => {
+      responded = true;
+      this.metrics.websocketUpgrades.inc({ result: '101' });
+      if (reply) {
+        reply.upgraded(res);
+      } else {
+        clientSocket.write(formatResponseHead(res));
+      }
+      if (upgradeHead.length > 0) {
+        clientSocket.write(upgradeHead);
+      }
+      if (head.length > 0) {
+        upgradedSocket.write(head);
+      }
+      logger.info(`✅ 已升级 ${targetUrl.href} (${res.headers.upgrade})${this.describeUser(clientSocket)}`);
+
+      const keepAlive = this.websocketPolicy.forUpgrade(hostname);
+      this.setupSocketErrorHandlers(clientSocket, upgradedSocket, hostname, targetPort, keepAlive.idleTimeout);
+      upgradedSocket.pipe(clientSocket);
+      clientSocket.pipe(upgradedSocket);
+      this.trackTunnel(clientSocket, upgradedSocket, hostname, targetPort, upstream, false);
+
+      if (/^websocket$/i.test(String(res.headers.upgrade))) {
+        keepWebSocketAlive(clientSocket, upgradedSocket, keepAlive, { toClient: upgradeHead, toServer: head }, (side) => {
+          logger.info(`⏰ WebSocket ${side === 'client' ? '客户端' : '服务器'}没有响应 ping ${hostname}:${targetPort}`);
+          clientSocket.destroy();
+          upgradedSocket.destroy();
+        });
+      }
+    });
+
+    proxyReq.on('response', (res: IncomingMessage) => {
+      // 源站没有接受升级（例如返回 403），转发响应后关闭连接
+      responded = true;
+      this.metrics.websocketUpgrades.inc({ result: String(res.statusCode) });
+      logger.info(`↩️  源站没有接受升级 ${targetUrl.href}: ${res.statusCode}`);
+      this.logTunnelAccess(clientSocket, res.statusCode || 502, { upstream });
+      if (reply) {
+        res.pipe(reply.failed(res.statusCode || 502, res.headers));
+      } else {
+        clientSocket.write(formatResponseHead(res, ['transfer-encoding', 'connection']));
+        res.pipe(clientSocket);
+      }
+      res.once('end', () => serverSocket.destroy());
+    });
+
+    proxyReq.on('error', (err: Error) => {
+      const message = describeConnectError(err);
+      logger.error(`❌ Upgrade请求错误 ${targetUrl.href}:`, message);
+      if (responded) {
+        clientSocket.destroy();
+      } else {
+        this.rejectUpgrade(clientSocket, '502 Bad Gateway', `代理错误: ${message}`, {}, reply);
+      }
+    });
+
+    proxyReq.end();
+  }
 
-# Linux (Ubuntu/Debian)
-sudo cp certs/ca.crt /usr/local/share/ca-certificates/
-sudo update-ca-certificates</pre>
-                </li>
-              </ul>
+  /**
+   * 拒绝 Upgrade 请求：返回错误响应后关闭连接
+   */
+  private rejectUpgrade(socket: TunnelSocket, status: string, message: string, headers: Record<string, string> = {},
+                        reply?: UpgradeReply): void {
+    this.metrics.websocketUpgrades.inc({ result: status.split(' ')[0] });
+    this.logTunnelAccess(socket, parseInt(status, 10), { error: errorCode(message) });
+    if (reply) {
+      reply.failed(parseInt(status, 10), { 'Content-Type': 'text/plain; charset=utf-8', ...headers }).end(message);
+    } else if (!socket.destroyed) {
+      const lines = [`HTTP/1.1 ${status}`, 'Content-Type: text/plain; charset=utf-8', 'Connection: close'];
+      for (const [name, value] of Object.entries(headers)) {
+        lines.push(`${name}: ${value}`);
+      }
+      socket.end(`${lines.join('\r\n')}\r\n\r\n${message}`);
+    }
+  }
 
-              <h2>⚙️ 证书信息</h2>
-              <p><span class="info">CA证书:</span> certs/ca.crt</p>
-              <p><span class="info">服务器证书:</span> certs/server.crt</p>
-              <p><span class="warning">注意:</span> 使用自签名证书，需要添加 <code>--proxy-insecure</code> 参数或安装CA证书</p>
+  /**
+   * 连接管理：GET /admin 页面，GET /admin/api/connections 列出隧道，
+   * DELETE /admin/api/connections/:id 或 DELETE /admin/api/connections?host=xxx 断开隧道，
+   * GET /admin/api/pools 查看转发请求的连接池，GET /admin/api/traffic 查看流量配额的用量
+   */
+  private handleAdminRequest(req: HttpRequest, res: HttpResponse, requestUrl: URL): void {
+    // 管理接口不允许跨域访问
+    res.removeHeader('Access-Control-Allow-Origin');
+    res.removeHeader('Access-Control-Allow-Methods');
+    res.removeHeader('Access-Control-Allow-Headers');
+
+    const sendJson = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(body));
+    };
 
-              <h2>🚀 支持的功能</h2>
-              <ul>
-                <li>✅ HTTPS CONNECT 隧道</li>
-                <li>✅ HTTP/HTTPS 请求转发</li>
-                <li>✅ WebSocket (WSS) 透明转发</li>
-                <li>✅ Binance API 访问</li>
-                <li>✅ SSL/TLS 安全连接</li>
-                <li>✅ 代理链支持</li>
-              </ul>
-            </div>
-          </div>
-        </body>
-        </html>
-      `);
+    if (requestUrl.pathname === '/admin' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(renderAdminPage());
       return;
     }
 
-    console.log(`🌐 ${req.method} ${targetUrl} - ${new Date().toISOString()}`);
+    const denied = checkAdminAccess(req, this.adminToken);
+    if (denied) {
+      logger.info(`🔐 管理接口拒绝访问 ${req.method} ${requestUrl.pathname} (${req.socket.remoteAddress}): ${denied}`);
+      sendJson(403, { error: denied });
+      return;
+    }
 
-    // URL解析和验证
-    let parsedUrl: URL;
-    try {
-      parsedUrl = new URL(targetUrl);
-    } catch (error) {
-      console.error(`❌ 无效的URL: ${targetUrl}`, error);
-      res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
-      res.end(`无效的URL: ${targetUrl}`);
+    // 集群模式下由主进程转发给所有（或指定的）工作进程
+    const clusterWorker = this.clusterWorker;
+    if (requestUrl.pathname === '/admin/api/pools' || requestUrl.pathname === '/admin/api/traffic') {
+      if (req.method !== 'GET') {
+        sendJson(405, { error: `不支持的请求: ${req.method} ${requestUrl.pathname}` });
+        return;
+      }
+      const result = requestUrl.pathname === '/admin/api/pools'
+        ? (clusterWorker ? clusterWorker.pools() : Promise.resolve(this.agentPool.stats())).then(pools => ({ pools }))
+        : (clusterWorker ? clusterWorker.traffic() : Promise.resolve(this.bandwidth.list())).then(usage => ({ usage }));
+      result.then(body => sendJson(200, body), (error: Error) => sendJson(503, { error: error.message }));
       return;
     }
 
-    // 额外的URL验证 - 确保协议正确
-    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
-      console.error(`❌ 不支持的协议: ${parsedUrl.protocol}`);
-      res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
-      res.end(`不支持的协议: ${parsedUrl.protocol}`);
+    const match = /^\/admin\/api\/connections(?:\/(\d+))?$/.exec(requestUrl.pathname);
+    if (!match) {
+      sendJson(404, { error: '未知的管理接口' });
+      return;
+    }
+
+    const host = requestUrl.searchParams.get('host');
+    let result: Promise<[number, any]>;
+    if (req.method === 'GET' && !match[1]) {
+      result = (clusterWorker ? clusterWorker.connections() : Promise.resolve({ active: this.connections.list(), recent: this.connections.recent() }))
+        .then(connections => [200, connections]);
+    } else if (req.method === 'DELETE' && match[1]) {
+      const id = parseInt(match[1], 10);
+      const worker = requestUrl.searchParams.get('worker');
+      result = (clusterWorker ? clusterWorker.kill(id, worker ? parseInt(worker, 10) : undefined) : Promise.resolve(this.connections.kill(id)))
+        .then(killed => killed ? [200, { killed: 1 }] : [404, { error: `隧道 #${match[1]} 不存在` }]);
+    } else if (req.method === 'DELETE' && host) {
+      result = (clusterWorker ? clusterWorker.killHost(host) : Promise.resolve(this.connections.killHost(host)))
+        .then(killed => [200, { killed }]);
+    } else {
+      sendJson(405, { error: `不支持的请求: ${req.method} ${requestUrl.pathname}` });
       return;
     }
 
+    result.then(([status, body]) => sendJson(status, body), (error: Error) => sendJson(503, { error: error.message }));
+  }
+
+  /**
+   * 返回CA证书（PEM）
+   */
+  private sendCaCertificate(res: HttpResponse): void {
+    fs.readFile(this.caFile, (err, data) => {
+      if (err) {
+        logger.error('❌ 读取CA证书失败:', err.message);
+        res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('CA证书不存在');
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'application/x-x509-ca-cert',
+        'Content-Disposition': 'attachment; filename="ca.crt"',
+        'Content-Length': data.length
+      });
+      res.end(data);
+    });
+  }
+
+  /**
+   * 将通过检查的请求转发到目标服务器
+   */
+  private forwardHttpRequest(req: HttpRequest, res: HttpResponse, parsedUrl: URL, addresses: LookupAddress[],
+                             upstreams: Array<string | null>, pool: UpstreamPool | null = null,
+                             access: RequestAccess = { bytesUp: 0, bytesDown: 0 }): void {
+    const targetUrl = parsedUrl.href;
+    const [upstreamProxy, ...fallbacks] = upstreams;
+    access.upstream = upstreamProxy ? describeUpstream(upstreamProxy) : 'DIRECT';
+    access.error = undefined;
+    const tracked = upstreamProxy && pool && pool.has(upstreamProxy) ? upstreamProxy : null;
+    const release = tracked ? pool!.acquire(tracked) : () => {};
+    const startTime = Date.now();
+    // 没有请求体的请求失败后可以换下一个上游重试
+    const hasBody = req.headers['transfer-encoding'] !== undefined || parseInt(req.headers['content-length'] || '0', 10) > 0;
     const isHttps = parsedUrl.protocol === 'https:';
     const httpModule = isHttps ? https : http;
 
-    // 创建代理Agent（如果有上游代理）
-    const proxyAgent = this.createProxyAgent(targetUrl, false);
+    // 按源站复用 keep-alive 连接，经上游代理时按上游和源站区分
+    const origin = `${parsedUrl.protocol}//${parsedUrl.host}`;
+    const proxyAgent = upstreamProxy
+      ? this.agentPool.acquire(upstreamProxy, origin, (agentOptions) => this.createProxyAgent(upstreamProxy, targetUrl, agentOptions))
+      : undefined;
+    const agent = proxyAgent || this.agentPool.acquire(null, origin, (agentOptions) => isHttps
+      ? new https.Agent({ ...agentOptions, rejectUnauthorized: true })
+      : new http.Agent(agentOptions));
 
     const options = {
       hostname: parsedUrl.hostname,
@@ -754,20 +2195,20 @@ sudo update-ca-certificates</pre>
       path: parsedUrl.pathname + parsedUrl.search,
       method: req.method,
       headers: { ...req.headers },
+      // 直连时使用访问控制检查过的地址
+      ...(!proxyAgent && this.dialOptions(addresses)),
       // 对于HTTPS请求，使用默认的系统CA验证目标服务器
-      ...(isHttps && {
-        rejectUnauthorized: true,
-        // 使用代理Agent或创建新的HTTPS Agent
-        agent: proxyAgent || new https.Agent({
-          rejectUnauthorized: true,
-          keepAlive: false
-        })
-      }),
-      // 对于HTTP请求，也可能需要代理Agent
-      ...(!isHttps && proxyAgent && { agent: proxyAgent })
+      ...(isHttps && { rejectUnauthorized: true }),
+      agent
     };
 
     // 清理可能有问题的 headers - 防止SSL协议错误
+    // HTTP/2 请求的伪头（:method、:authority 等）不能出现在 HTTP/1.1 请求中
+    for (const name of Object.keys(options.headers)) {
+      if (name.startsWith(':')) {
+        delete options.headers[name];
+      }
+    }
     delete options.headers.host;
     delete options.headers['proxy-connection'];
     delete options.headers['proxy-authorization'];
@@ -789,40 +2230,86 @@ sudo update-ca-certificates</pre>
     }
 
     const proxyReq = httpModule.request(options, (proxyRes) => {
-      console.log(`📥 响应: ${proxyRes.statusCode} ${targetUrl}`);
+      logger.info(`📥 响应: ${proxyRes.statusCode} ${targetUrl}`);
+      this.metrics.httpResponses.inc({ code: String(proxyRes.statusCode || 200) });
+      this.metrics.originRequests.inc({ reused: String(proxyReq.reusedSocket) });
+      if (tracked) {
+        pool!.reportSuccess(tracked, Date.now() - startTime);
+      }
 
-      // 转发响应头和状态码
-      res.writeHead(proxyRes.statusCode || 200, proxyRes.headers);
+      // 转发响应头和状态码，HTTP/2 响应不能包含连接相关的头
+      res.writeHead(proxyRes.statusCode || 200, req.httpVersionMajor === 2 ? http2ResponseHeaders(proxyRes.headers) : proxyRes.headers);
       proxyRes.pipe(res);
+      proxyRes.on('data', (chunk: Buffer) => { access.bytesDown += chunk.length; });
     });
 
-    proxyReq.on('error', (err: Error) => {
-      console.error(`❌ 请求错误 ${targetUrl}:`, err.message);
+    this.agentPool.observe(proxyReq, agent);
+
+    proxyReq.on('error', (err: NodeJS.ErrnoException) => {
+      // 复用的空闲连接可能已被源站关闭，用新连接重试一次
+      if (proxyReq.reusedSocket && err.code === 'ECONNRESET' && !res.headersSent && !hasBody) {
+        logger.debug(`🔁 复用的连接已关闭，重试 ${targetUrl}`);
+        this.forwardHttpRequest(req, res, parsedUrl, addresses, upstreams, pool, access);
+        return;
+      }
+      const message = describeConnectError(err);
+      logger.error(`❌ 请求错误 ${targetUrl}:`, message);
+      // 超时后销毁请求也会触发 error，保留超时的错误码
+      access.error = access.error || err.code || errorCode(message);
+      if (tracked && !res.headersSent) {
+        pool!.reportFailure(tracked);
+      }
+      if (!res.headersSent && !hasBody && fallbacks.length > 0) {
+        const next = fallbacks[0];
+        logger.info(`↪️  ${upstreamProxy ? describeUpstream(upstreamProxy) : 'DIRECT'} 请求失败，尝试 ${next ? describeUpstream(next) : 'DIRECT'}`);
+        this.forwardHttpRequest(req, res, parsedUrl, addresses, fallbacks, pool, access);
+        return;
+      }
       if (!res.headersSent) {
+        this.metrics.httpResponses.inc({ code: '502' });
         res.writeHead(502, { 'Content-Type': 'text/plain; charset=utf-8' });
-        res.end(`代理错误: ${err.message}`);
+        res.end(`代理错误: ${message}`);
       }
     });
 
-    proxyReq.setTimeout(this.timeout, () => {
-      console.log(`⏰ 请求超时 ${targetUrl}`);
+    proxyReq.setTimeout(this.timeouts.connect, () => {
+      logger.info(`⏰ 请求超时 ${targetUrl}`);
+      access.error = 'ETIMEDOUT';
       proxyReq.destroy();
       if (!res.headersSent) {
+        this.metrics.httpResponses.inc({ code: '504' });
         res.writeHead(504, { 'Content-Type': 'text/plain; charset=utf-8' });
         res.end('请求超时');
       }
     });
 
+    proxyReq.on('close', release);
+
     // 转发请求体
-    req.pipe(proxyReq);
+    if (hasBody) {
+      req.pipe(proxyReq);
+      req.on('data', (chunk: Buffer) => { access.bytesUp += chunk.length; });
+    } else {
+      proxyReq.end();
+    }
   }
 
   /**
    * 启动HTTPS代理服务器
    */
-  public start(): Promise<void> {
+  public async start(inherited: Record<string, net.Server> = {}): Promise<void> {
+    if (this.pac) {
+      await this.pac.load();
+    }
+    if (this.authenticator) {
+      this.authenticator.watch();
+    }
+    for (const pool of this.router.pools) {
+      pool.startHealthChecks();
+    }
+
     return new Promise((resolve, reject) => {
-      const server = https.createServer(this.httpsOptions, (req, res) => {
+      const requestHandler = (req: HttpRequest, res: HttpResponse) => {
         // 添加 CORS 头
         res.setHeader('Access-Control-Allow-Origin', '*');
         res.setHeader('Access-Control-Allow-Methods', '*');
@@ -834,44 +2321,62 @@ sudo update-ca-certificates</pre>
           return;
         }
 
+        this.activeRequests++;
+        res.once('close', () => this.activeRequests--);
         this.handleHttpRequest(req, res);
+      };
+      // 通过ALPN协商 HTTP/2，客户端不支持时使用 HTTP/1.1；扩展CONNECT（RFC 8441）用于转发 WebSocket
+      const server = http2.createSecureServer({
+        ...this.httpsOptions,
+        allowHTTP1: true,
+        settings: { enableConnectProtocol: true }
+      }, requestHandler);
+      // HTTP/1.1 连接使用与 http.Server 相同的超时属性，创建选项中的不会生效
+      Object.assign(server, { keepAliveTimeout: this.timeouts.keepAlive, headersTimeout: this.timeouts.headers });
+      this.server = server;
+
+      // 处理 HTTPS CONNECT 请求和绝对URL的 Upgrade（WebSocket）请求
+      // HTTP/1.1 的 CONNECT 参数为 (req, socket, head)，HTTP/2 的 CONNECT 流为 (req, res)
+      server.on('connect', (req: HttpRequest, socket: Socket, head: Buffer) => {
+        if (req instanceof http2.Http2ServerRequest) {
+          this.handleHttp2Connect(req);
+        } else {
+          this.handleConnect(req, socket, head);
+        }
+      });
+      server.on('upgrade', (req: IncomingMessage, socket: Socket, head: Buffer) => this.handleUpgradeRequest(req, socket, head));
+
+      // HTTP/2 连接空闲超过 keep-alive 超时后发送 GOAWAY，已有的流（隧道）不受影响
+      server.on('session', (session: http2.ServerHttp2Session) => {
+        this.http2Sessions.add(session);
+        session.once('close', () => this.http2Sessions.delete(session));
+        session.setTimeout(this.timeouts.keepAlive, () => session.close());
       });
 
-      // 处理 HTTPS CONNECT 请求
-      server.on('connect', this.handleConnect.bind(this));
+      server.on('sessionError', (err: any) => {
+        logger.log(networkErrorLevel(err), `❌ HTTP/2 连接错误 (${err.code || 'HTTP2_ERROR'}):`, err.message);
+      });
 
       server.on('error', (err) => {
-        console.error('❌ 服务器错误:', err);
+        logger.error('❌ 服务器错误:', err);
         // 只在启动阶段拒绝Promise，运行时错误不应该停止服务器
         if (!server.listening) {
           reject(err);
         } else {
-          console.error('服务器运行时错误，但继续运行...');
+          logger.error('服务器运行时错误，但继续运行...');
         }
       });
 
       server.on('clientError', (err: any, socket) => {
-        // 过滤常见的客户端错误，包括EPROTO错误
-        const isCommonError = err.message.includes('ECONNRESET') ||
-                             err.message.includes('Parse Error') ||
-                             err.message.includes('HPE_INVALID_METHOD') ||
-                             err.message.includes('socket hang up') ||
-                             err.message.includes('wrong version number') ||
-                             err.message.includes('SSL_ERROR_WANT_READ') ||
-                             err.message.includes('SSL_ERROR_WANT_WRITE') ||
-                             err.code === 'EPROTO';
-
-        // 特殊处理EPROTO错误 - 增强诊断信息
+        // 特殊处理EPROTO错误 - 增强诊断信息；其他错误按类型决定日志级别（正常断开只在 debug 级别输出）
         if (err.code === 'EPROTO' || err.message.includes('wrong version number')) {
-          console.log(`⚠️  SSL协议版本错误 (EPROTO) - 可能原因:`);
-          console.log('   1. 客户端使用HTTP协议连接HTTPS代理');
-          console.log('   2. SSL/TLS版本不兼容');
-          console.log('   3. 客户端发送了格式错误的SSL握手数据');
-          console.log('💡 建议: 确保客户端使用HTTPS协议连接代理服务器');
-        } else if (!isCommonError) {
-          console.error('❌ 客户端错误:', err.message);
+          logger.warn(`⚠️  SSL协议版本错误 (EPROTO) - 可能原因:`);
+          logger.warn('   1. 客户端使用HTTP协议连接HTTPS代理');
+          logger.warn('   2. SSL/TLS版本不兼容');
+          logger.warn('   3. 客户端发送了格式错误的SSL握手数据');
+          logger.warn('💡 建议: 确保客户端使用HTTPS协议连接代理服务器');
         } else {
-          console.log(`⚠️  客户端连接问题 (${err.code || 'CLIENT_ERROR'})`);
+          logger.log(networkErrorLevel(err), `❌ 客户端错误 (${err.code || 'CLIENT_ERROR'}):`, err.message);
         }
 
         try {
@@ -890,47 +2395,31 @@ sudo update-ca-certificates</pre>
 
       // 处理SSL握手错误 - 特别针对EPROTO协议版本错误优化
       server.on('tlsClientError', (err: any, tlsSocket) => {
-        // 过滤常见的SSL握手错误，避免大量日志输出
-        const isCommonSSLError = err.message.includes('Client network socket disconnected') ||
-                                err.message.includes('before secure TLS connection') ||
-                                err.message.includes('ECONNRESET') ||
-                                err.message.includes('PROTOCOL_WRONG_VERSION') ||
-                                err.message.includes('SSL routines') ||
-                                err.message.includes('socket hang up') ||
-                                err.message.includes('wrong version number') ||
-                                err.message.includes('SSL_ERROR_WANT_READ') ||
-                                err.message.includes('SSL_ERROR_WANT_WRITE') ||
-                                err.message.includes('TLSV1_ALERT_PROTOCOL_VERSION') ||
-                                err.code === 'EPROTO';
-
-        // 特殊处理EPROTO错误 - 增强诊断
+        this.metrics.tlsHandshakeErrors.inc({ code: err.code || 'UNKNOWN' });
+        // 特殊处理EPROTO错误 - 增强诊断；其他错误按类型决定日志级别（正常断开只在 debug 级别输出）
         if (err.code === 'EPROTO' || err.message.includes('wrong version number')) {
-          console.log(`⚠️  SSL协议版本错误 (EPROTO) - 详细诊断:`);
-          console.log('   可能原因:');
-          console.log('   1. 客户端使用HTTP协议连接HTTPS代理服务器');
-          console.log('   2. SSL/TLS版本不兼容 (代理支持TLSv1.2-1.3)');
-          console.log('   3. 客户端发送了格式错误的SSL握手数据');
-          console.log('   4. 防火墙或中间件篡改了SSL数据包');
-          console.log('💡 解决方案:');
-          console.log('   - 确保客户端配置使用HTTPS代理 (https://127.0.0.1:10443)');
-          console.log('   - 检查客户端SSL/TLS设置，确保支持TLSv1.2或更高版本');
-          console.log('   - 使用 openssl s_client 测试SSL连接');
+          logger.warn(`⚠️  SSL协议版本错误 (EPROTO) - 详细诊断:`);
+          logger.warn('   可能原因:');
+          logger.warn('   1. 客户端使用HTTP协议连接HTTPS代理服务器');
+          logger.warn('   2. SSL/TLS版本不兼容 (代理支持TLSv1.2-1.3)');
+          logger.warn('   3. 客户端发送了格式错误的SSL握手数据');
+          logger.warn('   4. 防火墙或中间件篡改了SSL数据包');
+          logger.warn('💡 解决方案:');
+          logger.warn('   - 确保客户端配置使用HTTPS代理 (https://127.0.0.1:10443)');
+          logger.warn('   - 检查客户端SSL/TLS设置，确保支持TLSv1.2或更高版本');
+          logger.warn('   - 使用 openssl s_client 测试SSL连接');
         } else if (err.message.includes('TLSV1_ALERT_PROTOCOL_VERSION')) {
-          console.log(`⚠️  TLS版本协商失败 - 客户端可能使用了过旧的TLS版本`);
-          console.log('💡 提示: 代理服务器要求TLSv1.2或更高版本');
-        } else if (!isCommonSSLError) {
-          console.error('❌ TLS客户端错误:', err.message);
-
-          // 如果是证书错误，提供解决方案
-          if (err.message.includes('unknown ca') || err.message.includes('self signed')) {
-            console.error('💡 提示: 客户端不信任代理服务器的CA证书');
-            console.error('   解决方案1: 使用 curl --proxy-insecure 参数忽略证书验证');
-            console.error('   解决方案2: 使用 --cacert certs/ca.crt 参数指定CA证书');
-            console.error('   解决方案3: 将 certs/ca.crt 安装到系统信任的证书存储中');
-          }
+          logger.warn(`⚠️  TLS版本协商失败 - 客户端可能使用了过旧的TLS版本`);
+          logger.warn('💡 提示: 代理服务器要求TLSv1.2或更高版本');
+        } else if (err.message.includes('unknown ca') || err.message.includes('self signed')) {
+          // 证书错误，提供解决方案
+          logger.error('❌ TLS客户端错误:', err.message);
+          logger.error('💡 提示: 客户端不信任代理服务器的CA证书');
+          logger.error('   解决方案1: 使用 curl --proxy-insecure 参数忽略证书验证');
+          logger.error('   解决方案2: 使用 --cacert certs/ca.crt 参数指定CA证书');
+          logger.error('   解决方案3: 将 certs/ca.crt 安装到系统信任的证书存储中');
         } else {
-          // 对常见SSL错误，只记录简要信息
-          console.log(`⚠️  SSL握手断开 (${err.code || 'TLS_ERROR'})`);
+          logger.log(networkErrorLevel(err), `❌ TLS客户端错误 (${err.code || 'TLS_ERROR'}):`, err.message);
         }
 
         // 优雅处理错误，不让服务器崩溃
@@ -944,44 +2433,384 @@ sudo update-ca-certificates</pre>
             }
           }
         } catch (cleanupErr) {
-          console.error('清理TLS连接时出错:', cleanupErr instanceof Error ? cleanupErr.message : String(cleanupErr));
+          logger.error('清理TLS连接时出错:', cleanupErr instanceof Error ? cleanupErr.message : String(cleanupErr));
         }
       });
 
-      server.listen(this.port, '0.0.0.0', () => {
-        console.log('');
-        console.log('🚀 HTTPS 代理服务器启动成功！');
-        console.log('═══════════════════════════════════');
-        console.log(`📍 监听地址: https://0.0.0.0:${this.port}`);
-        console.log(`🔒 使用HTTPS协议 (SSL/TLS)`);
-        console.log(`📋 管理界面: https://127.0.0.1:${this.port}`);
-        console.log(`🌐 代理设置: https://127.0.0.1:${this.port}`);
-        if (this.upstreamProxy) {
-          console.log(`🔗 上游代理: ${this.upstreamProxy}`);
+      // 证书文件变化时热更新，服务器证书到期前自动更换
+      const watchDirectories = [this.certFile, this.keyFile, ...(this.clientAuth ? this.clientAuth.files : [])].map(file => path.dirname(file));
+      this.certStore.watch(watchDirectories, () => {
+        this.reloadServerCertificate(server);
+      });
+      // 集群模式下只由1号工作进程重新签发，避免多个进程同时写同一组证书文件，其他进程通过上面的监听加载新证书
+      const workerIndex = clusterWorkerIndex();
+      if (workerIndex === null || workerIndex === 1) {
+        this.certManager.startRenewal(() => this.reloadServerCertificate(server));
+      }
+
+      // 明文HTTP代理（单独端口或与HTTPS共用端口），与HTTPS共用CONNECT和转发逻辑
+      const plainServer = this.httpPort || this.sniffProtocol ? this.createPlainServer(requestHandler) : null;
+      this.plainServer = plainServer;
+      if (plainServer) {
+        plainServer.on('error', (err) => {
+          logger.error('❌ HTTP服务器错误:', err);
+          if (!plainServer.listening) {
+            reject(err);
+          }
+        });
+      }
+
+      // 开启协议识别时由 net 服务器接收连接，再分发给HTTPS或HTTP服务器
+      const listener: net.Server = this.sniffProtocol
+        ? net.createServer((socket) => this.dispatchConnection(socket, server, plainServer!))
+        : server;
+      this.listener = listener;
+      if (listener !== server) {
+        listener.on('error', (err) => {
+          logger.error('❌ 服务器错误:', err);
+          if (!listener.listening) {
+            reject(err);
+          }
+        });
+      }
+
+      // 平滑重启时使用旧进程交来的监听socket，否则监听配置的端口
+      // 不指定地址时在支持IPv6的系统上同时接受IPv4和IPv6连接（::），否则只监听IPv4（0.0.0.0）
+      const listen = (target: net.Server, name: string, port: number, callback: () => void) => {
+        if (inherited[name]) {
+          target.listen(inherited[name], callback);
+        } else {
+          target.listen({ port, ipv6Only: false }, callback);
+        }
+      };
+
+      const listenPlain = (callback: () => void) => {
+        if (plainServer && this.httpPort) {
+          listen(plainServer, 'http', this.httpPort, callback);
+        } else {
+          callback();
+        }
+      };
+
+      const listenSocks = (callback: () => void) => {
+        if (this.socksServer) {
+          this.socksServer.listen(inherited.socks).then(callback, reject);
+        } else {
+          callback();
+        }
+      };
+
+      listen(listener, 'https', this.port, () => listenPlain(() => listenSocks(() => {
+        if (Object.keys(inherited).length > 0) {
+          logger.info(`🔁 已接管旧进程的监听端口: ${Object.keys(inherited).join(', ')}`);
+        }
+        // 集群模式下只由1号工作进程输出启动信息，整段作为一条日志记录
+        const workerIndex = clusterWorkerIndex();
+        if (workerIndex === null || workerIndex === 1) {
+          logger.info(this.describeStartup(listener, plainServer).join('\n'));
         }
-        console.log('');
-        console.log('📝 测试命令:');
-        console.log(`   curl --proxy-insecure --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping`);
-        console.log('');
-        console.log('🌐 WebSocket测试:');
-        console.log(`   export https_proxy=https://127.0.0.1:${this.port}`);
-        console.log(`   wscat -c wss://echo.websocket.org --ca certs/ca.crt`);
-        console.log('');
-        console.log('🔐 使用CA证书 (更安全):');
-        console.log(`   curl --cacert certs/ca.crt --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping`);
-        console.log('');
-        console.log('🔧 环境变量设置:');
-        console.log(`   export https_proxy=https://127.0.0.1:${this.port}`);
-        console.log(`   export SSL_CERT_FILE=certs/ca.crt  # 某些工具可能需要`);
-        console.log('');
-        console.log('⚠️  注意: 使用自签名证书，需要以下任一方法:');
-        console.log('   1. 使用 -k/--proxy-insecure 参数忽略证书验证');
-        console.log('   2. 使用 --cacert 参数指定CA证书');
-        console.log('   3. 将CA证书安装到系统信任存储');
-        console.log('═══════════════════════════════════');
-        console.log('');
         resolve();
-      });
+      })));
+    });
+  }
+
+  /**
+   * 正在监听的服务器（https / http / socks），平滑重启时交给新进程
+   */
+  public get listeners(): Record<string, net.Server> {
+    const listeners: Record<string, net.Server> = {};
+    if (this.listener && this.listener.listening) {
+      listeners.https = this.listener;
+    }
+    if (this.plainServer && this.httpPort && this.plainServer.listening) {
+      listeners.http = this.plainServer;
+    }
+    if (this.socksServer && this.socksServer.listener.listening) {
+      listeners.socks = this.socksServer.listener;
+    }
+    return listeners;
+  }
+
+  /**
+   * 作为集群工作进程运行：回复主进程的指标和连接查询，/metrics 和管理接口返回整个集群的数据
+   */
+  public joinCluster(handlers: { reload: () => void; shutdown: () => void }): ClusterWorker {
+    this.clusterWorker = new ClusterWorker({
+      metrics: () => this.metrics.snapshot(),
+      connections: () => ({ active: this.connections.list(), recent: this.connections.recent() }),
+      kill: (id) => this.connections.kill(id),
+      killHost: (hostname) => this.connections.killHost(hostname),
+      pools: () => this.agentPool.stats(),
+      traffic: () => this.bandwidth.list(),
+      ...handlers
+    });
+    return this.clusterWorker;
+  }
+
+  /**
+   * 停止服务：不再接受新连接，等待正在转发的请求和已建立的隧道结束，
+   * 超过 drainTimeout 后强制断开剩余的连接
+   */
+  public stop(drainTimeout: number = this.timeouts.drain): Promise<void> {
+    if (!this.stopping) {
+      this.stopping = this.drain(drainTimeout);
+    }
+    return this.stopping;
+  }
+
+  private async drain(drainTimeout: number): Promise<void> {
+    // Http2SecureServer 的 HTTP/1.1 连接与 http.Server 的记录方式相同，但类型中没有 closeIdleConnections 等方法
+    const httpServers = [this.server, this.plainServer].filter((server): server is http2.Http2SecureServer | http.Server => !!server);
+    const closing = new Set<net.Server>([...Object.values(this.listeners), ...httpServers]);
+    for (const server of closing) {
+      // 未监听的服务器（例如协议识别模式下的HTTPS服务器）会返回错误，可以忽略
+      server.close(() => {});
+    }
+    // HTTP/2 连接发送 GOAWAY：客户端不再发起新的请求，正在处理的流继续
+    this.http2Sessions.forEach(session => session.close());
+    this.certStore.close();
+    this.certManager.stopRenewal();
+    for (const pool of this.router.pools) {
+      pool.stopHealthChecks();
+    }
+    if (this.pac) {
+      this.pac.close();
+    }
+    if (this.authenticator) {
+      this.authenticator.close();
+    }
+
+    const pending = () => this.connections.size + this.activeRequests + (this.socksServer ? this.socksServer.connectionCount : 0);
+    if (pending() > 0) {
+      logger.info(`⏳ 已停止接受新连接，等待 ${this.connections.size} 个隧道和 ${this.activeRequests} 个请求结束 (最多 ${drainTimeout / 1000} 秒)...`);
+    }
+
+    const deadline = Date.now() + drainTimeout;
+    while (pending() > 0 && Date.now() < deadline) {
+      // 空闲的 keep-alive 连接不会再有请求，直接关闭
+      httpServers.forEach(server => Reflect.apply(http.Server.prototype.closeIdleConnections, server, []));
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+
+    if (pending() > 0) {
+      logger.warn(`⚠️  等待超时，强制断开 ${this.connections.size} 个隧道和 ${this.activeRequests} 个请求`);
+      this.connections.killAll();
+    }
+    // 剩下的只有空闲或已经断开的连接
+    httpServers.forEach(server => Reflect.apply(http.Server.prototype.closeAllConnections, server, []));
+    this.http2Sessions.forEach(session => session.destroy());
+    if (this.socksServer) {
+      this.socksServer.destroyConnections();
+    }
+    this.agentPool.destroy();
+    this.bandwidth.close();
+    logger.info('✅ 代理服务器已停止');
+  }
+
+  /**
+   * 重新加载配置：更新访问控制、认证、上游路由、日志、超时和TLS参数，
+   * 已建立的隧道和连接不受影响；监听端口和证书相关的配置需要重启
+   * 新配置有错误时抛出异常并继续使用旧配置
+   */
+  public async reload(options: HttpsProxyOptions): Promise<void> {
+    // 先创建所有新组件，任何一步失败都不会改变当前配置
+    const router = this.createRouter(options);
+    const resolver = new DnsResolver(options.dns);
+    const pac = options.pacFile ? new PacResolver({ source: options.pacFile }, resolver) : null;
+    if (pac) {
+      await pac.load();
+    }
+    const authenticator = this.createAuthenticator(options);
+    const accessControl = new AccessControl(options.accessControl, resolver);
+    validateRateLimits(options.rateLimits);
+    const websocketPolicy = new WebSocketPolicy(options.websocket);
+    const userPolicies = this.createUserPolicies(options);
+    const interceptor = this.createInterceptor(options);
+    const timeouts = resolveTimeouts(options);
+    const httpsOptions = { ...this.httpsOptions, ...this.createTlsOptions(options) };
+    if (this.server) {
+      try {
+        this.server.setSecureContext(httpsOptions);
+      } catch (error: any) {
+        if (pac) pac.close();
+        throw new Error(`TLS配置无效: ${error.message}`);
+      }
+    }
+    try {
+      logger.configure(options.logging || {});
+    } catch (error: any) {
+      if (pac) pac.close();
+      throw new Error(`日志配置无效: ${error.message}`);
+    }
+
+    const restartRequired: string[] = RESTART_REQUIRED_OPTIONS
+      .filter(key => JSON.stringify(options[key]) !== JSON.stringify(this.options[key]));
+    if (timeouts.handshake !== this.timeouts.handshake) {
+      restartRequired.push('timeouts.handshake');
+    }
+
+    for (const pool of this.router.pools) {
+      pool.stopHealthChecks();
+    }
+    if (this.pac) {
+      this.pac.close();
+    }
+    this.router = router;
+    this.pac = pac;
+    for (const pool of this.router.pools) {
+      pool.startHealthChecks();
+    }
+
+    if (this.authenticator) {
+      this.authenticator.close();
+    }
+    this.authenticator = authenticator;
+    if (this.authenticator) {
+      this.authenticator.watch();
+    }
+    this.resolver = resolver;
+    this.accessControl = accessControl;
+    this.rateLimiter.configure(options.rateLimits);
+    this.bandwidth.configure(options.bandwidth);
+    this.websocketPolicy = websocketPolicy;
+    this.userPolicies = userPolicies;
+    this.interceptor = interceptor;
+    this.adminToken = options.adminToken || null;
+    this.httpsOptions = httpsOptions;
+    this.agentPool.configure(options.agentPool);
+    // 新的超时只用于之后建立的连接
+    this.timeouts = { ...timeouts, handshake: this.timeouts.handshake };
+    for (const server of [this.server, this.plainServer]) {
+      if (server) {
+        Object.assign(server, { keepAliveTimeout: timeouts.keepAlive, headersTimeout: timeouts.headers });
+      }
+    }
+    this.options = { ...options, ...pickOptions(this.options, RESTART_REQUIRED_OPTIONS) };
+
+    logger.info(`🔄 配置已重新加载 (当前隧道 ${this.connections.size} 个不受影响)`);
+    if (restartRequired.length > 0) {
+      logger.warn(`⚠️  以下配置需要重启后生效: ${restartRequired.join(', ')}`);
+    }
+  }
+
+  /**
+   * 启动信息：监听地址、已开启的功能和测试命令
+   */
+  private describeStartup(listener: net.Server, plainServer: http.Server | null): string[] {
+    const lines: string[] = [];
+    lines.push('');
+    lines.push('🚀 HTTPS 代理服务器启动成功！');
+    lines.push('═══════════════════════════════════');
+    lines.push(`📍 监听地址: https://${describeListenAddress(listener)}`);
+    lines.push(`🔒 使用HTTPS协议 (SSL/TLS)`);
+    lines.push(`⚡ HTTP/2: 已开启 (不支持的客户端使用HTTP/1.1)`);
+    if (this.sniffProtocol) {
+      lines.push(`🔀 协议识别: 已开启 (${this.port} 端口同时接受明文HTTP代理请求)`);
+    }
+    if (this.httpPort) {
+      lines.push(`📍 HTTP代理: http://${describeListenAddress(plainServer!)}`);
+    }
+    if (this.socksServer) {
+      lines.push(`🧦 SOCKS5代理: socks5://${describeListenAddress(this.socksServer.listener)}${this.socksServer.udpEnabled ? ' (支持UDP)' : ''}`);
+    }
+    lines.push(`📋 管理界面: https://127.0.0.1:${this.port}`);
+    lines.push(`📥 CA证书下载: https://127.0.0.1:${this.port}/ca.crt`);
+    lines.push(`📊 监控指标: https://127.0.0.1:${this.port}/metrics${this.adminToken ? ' (需要管理令牌)' : ' (仅限本机)'}`);
+    lines.push(`📡 连接管理: https://127.0.0.1:${this.port}/admin${this.adminToken ? ' (需要管理令牌)' : ' (仅限本机)'}`);
+    lines.push(`🌐 代理设置: https://127.0.0.1:${this.port}`);
+    for (const pool of this.router.pools) {
+      const strategy = pool.upstreams.length > 1 ? ` (${pool.strategy})` : '';
+      lines.push(`🔗 上游代理 ${pool.name}: ${pool.upstreams.map(describeUpstream).join(', ')}${strategy}`);
+    }
+    if (this.router.ruleCount > 0) {
+      lines.push(`🔀 路由规则: ${this.router.ruleCount} 条`);
+    }
+    if (this.pac) {
+      lines.push(`📜 PAC文件: ${this.pac.source}`);
+    }
+    if (this.authenticator) {
+      lines.push(`🔐 代理认证: 已开启 (Basic)`);
+    }
+    if (this.clientAuth) {
+      lines.push(`🔐 客户端证书认证: 已开启${this.clientAuth.optional ? ' (可选)' : ''}`);
+    }
+    if (this.userPolicies.size > 0) {
+      lines.push(`👥 用户访问策略: ${Array.from(this.userPolicies.keys()).join(', ')}`);
+    }
+    if (this.certStore.size > 0) {
+      lines.push(`📜 SNI证书: ${this.certStore.hostnames.join(', ')}`);
+    }
+    if (this.interceptor) {
+      lines.push(`🔍 TLS解密: 已开启 (客户端需要信任 certs/ca.crt)`);
+    }
+    lines.push('');
+    lines.push('📝 测试命令:');
+    lines.push(`   curl --proxy-insecure --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping`);
+    lines.push('');
+    lines.push('🌐 WebSocket测试:');
+    lines.push(`   export https_proxy=https://127.0.0.1:${this.port}`);
+    lines.push(`   wscat -c wss://echo.websocket.org --ca certs/ca.crt`);
+    lines.push('');
+    lines.push('🔐 使用CA证书 (更安全):');
+    lines.push(`   curl --cacert certs/ca.crt --proxy https://127.0.0.1:${this.port} https://api.binance.com/api/v3/ping`);
+    lines.push('');
+    lines.push('🔧 环境变量设置:');
+    lines.push(`   export https_proxy=https://127.0.0.1:${this.port}`);
+    lines.push(`   export SSL_CERT_FILE=certs/ca.crt  # 某些工具可能需要`);
+    lines.push('');
+    lines.push('⚠️  注意: 使用自签名证书，需要以下任一方法:');
+    lines.push('   1. 使用 -k/--proxy-insecure 参数忽略证书验证');
+    lines.push('   2. 使用 --cacert 参数指定CA证书');
+    lines.push('   3. 将CA证书安装到系统信任存储');
+    lines.push('═══════════════════════════════════');
+    lines.push('');
+    return lines;
+  }
+
+  /**
+   * 创建明文HTTP代理服务器
+   */
+  private createPlainServer(requestHandler: (req: IncomingMessage, res: ServerResponse) => void): http.Server {
+    const plainServer = http.createServer({ keepAliveTimeout: this.timeouts.keepAlive, headersTimeout: this.timeouts.headers }, requestHandler);
+    plainServer.on('connect', this.handleConnect.bind(this));
+    plainServer.on('upgrade', this.handleUpgradeRequest.bind(this));
+
+    plainServer.on('clientError', (err: any, socket) => {
+      logger.log(networkErrorLevel(err), `⚠️  HTTP客户端错误 (${err.code || err.message})`);
+      if (socket.writable) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      } else {
+        socket.destroy();
+      }
+    });
+
+    return plainServer;
+  }
+
+  /**
+   * 按连接的第一个字节区分TLS握手（0x16）和明文HTTP请求，交给对应的服务器处理
+   */
+  private dispatchConnection(socket: Socket, tlsServer: tls.Server, plainServer: http.Server): void {
+    const onError = () => socket.destroy();
+    const onTimeout = () => socket.destroy();
+    socket.on('error', onError);
+    // 第一个字节按TLS握手超时等待
+    socket.setTimeout(this.timeouts.handshake, onTimeout);
+
+    socket.once('data', (chunk: Buffer) => {
+      socket.removeListener('error', onError);
+      socket.removeListener('timeout', onTimeout);
+      socket.setTimeout(0);
+      socket.pause();
+      socket.unshift(chunk);
+
+      if (chunk[0] === 0x16) {
+        // TLSSocket 会读取已缓冲的数据，不能在这里恢复读取
+        tlsServer.emit('connection', socket);
+      } else {
+        plainServer.emit('connection', socket);
+        socket.resume();
+      }
     });
   }
 }
@@ -993,35 +2822,228 @@ export default HttpsProxy;
 if (require.main === module) {
   // 添加全局异常处理，防止服务器意外退出
   process.on('uncaughtException', (error) => {
-    console.error('❌ 未捕获的异常:', error.message);
-    console.error('📍 错误堆栈:', error.stack);
-    console.log('🔄 服务器继续运行...');
+    logger.error('❌ 未捕获的异常:', error.message);
+    logger.error('📍 错误堆栈:', error.stack);
+    logger.info('🔄 服务器继续运行...');
   });
 
   process.on('unhandledRejection', (reason, promise) => {
-    console.error('❌ 未处理的Promise拒绝:', reason);
-    console.error('📍 Promise:', promise);
-    console.log('🔄 服务器继续运行...');
+    logger.error('❌ 未处理的Promise拒绝:', reason);
+    logger.error('📍 Promise:', promise);
+    logger.info('🔄 服务器继续运行...');
   });
 
-  const proxy = new HttpsProxy({
+  // 从环境变量读取配置，每次重新加载时重新读取其中引用的 ACL/路由等文件
+  const readEnvOptions = (): HttpsProxyOptions => ({
     port: parseInt(process.env.HTTPS_PROXY_PORT || '10443'),
-    timeout: parseInt(process.env.PROXY_TIMEOUT || '30000')
+    httpPort: process.env.HTTP_PROXY_PORT ? parseInt(process.env.HTTP_PROXY_PORT, 10) : undefined,
+    sniffProtocol: process.env.PROXY_SNIFF_PROTOCOL === 'true',
+    socksPort: process.env.SOCKS_PROXY_PORT ? parseInt(process.env.SOCKS_PROXY_PORT, 10) : undefined,
+    socksUdp: process.env.PROXY_SOCKS_UDP === 'true',
+    timeout: parseInt(process.env.PROXY_TIMEOUT || '30000'),
+    timeouts: process.env.PROXY_DRAIN_TIMEOUT ? { drain: parseInt(process.env.PROXY_DRAIN_TIMEOUT, 10) } : undefined,
+    htpasswdFile: process.env.PROXY_HTPASSWD_FILE || undefined,
+    clientAuth: process.env.PROXY_CLIENT_CA_FILE
+      ? { caFile: process.env.PROXY_CLIENT_CA_FILE, crlFile: process.env.PROXY_CLIENT_CRL_FILE || undefined }
+      : undefined,
+    userPolicies: process.env.PROXY_USER_POLICIES_FILE
+      ? JSON.parse(fs.readFileSync(process.env.PROXY_USER_POLICIES_FILE, 'utf8'))
+      : undefined,
+    accessControl: process.env.PROXY_ACL_FILE
+      ? JSON.parse(fs.readFileSync(process.env.PROXY_ACL_FILE, 'utf8'))
+      : undefined,
+    rateLimits: process.env.PROXY_RATE_LIMITS_FILE
+      ? JSON.parse(fs.readFileSync(process.env.PROXY_RATE_LIMITS_FILE, 'utf8'))
+      : undefined,
+    bandwidth: process.env.PROXY_BANDWIDTH_FILE
+      ? JSON.parse(fs.readFileSync(process.env.PROXY_BANDWIDTH_FILE, 'utf8'))
+      : undefined,
+    routing: process.env.PROXY_ROUTES_FILE
+      ? JSON.parse(fs.readFileSync(process.env.PROXY_ROUTES_FILE, 'utf8'))
+      : undefined,
+    pacFile: process.env.PROXY_PAC_FILE || undefined,
+    dns: {
+      servers: process.env.PROXY_DNS_SERVERS
+        ? process.env.PROXY_DNS_SERVERS.split(',').map(server => server.trim()).filter(Boolean)
+        : undefined,
+      hostsFile: process.env.PROXY_DNS_HOSTS_FILE || undefined
+    },
+    hostnames: process.env.PROXY_HOSTNAMES
+      ? process.env.PROXY_HOSTNAMES.split(',').map(name => name.trim()).filter(Boolean)
+      : undefined,
+    adminToken: process.env.PROXY_ADMIN_TOKEN || undefined,
+    agentPool: {
+      maxSockets: process.env.PROXY_POOL_MAX_SOCKETS ? parseInt(process.env.PROXY_POOL_MAX_SOCKETS, 10) : undefined,
+      idleTimeout: process.env.PROXY_POOL_IDLE_TIMEOUT ? parseInt(process.env.PROXY_POOL_IDLE_TIMEOUT, 10) : undefined
+    },
+    logging: {
+      level: (process.env.PROXY_LOG_LEVEL as LogLevel) || undefined,
+      format: process.env.PROXY_LOG_FORMAT === 'json' ? 'json' : 'text',
+      file: process.env.PROXY_LOG_FILE || undefined,
+      accessLog: process.env.PROXY_ACCESS_LOG || undefined,
+      rotation: {
+        maxSize: process.env.PROXY_LOG_MAX_SIZE ? parseInt(process.env.PROXY_LOG_MAX_SIZE, 10) * 1024 * 1024 : undefined,
+        interval: (process.env.PROXY_LOG_ROTATE as 'hourly' | 'daily') || undefined,
+        maxFiles: process.env.PROXY_LOG_MAX_FILES ? parseInt(process.env.PROXY_LOG_MAX_FILES, 10) : undefined
+      }
+    },
+    sniCertificates: process.env.PROXY_CERT_DIR ? { directory: process.env.PROXY_CERT_DIR } : undefined,
+    intercept: process.env.PROXY_INTERCEPT_HOSTS
+      ? {
+          hosts: process.env.PROXY_INTERCEPT_HOSTS === '*' ? undefined : process.env.PROXY_INTERCEPT_HOSTS.split(',').map(host => host.trim()).filter(Boolean),
+          cacheDir: process.env.PROXY_INTERCEPT_CACHE_DIR || undefined
+        }
+      : undefined
   });
 
-  proxy.start().catch((error) => {
-    console.error('❌ 启动代理服务器失败:', error.message);
+  // 配置文件（YAML/JSON）中的配置项优先于环境变量
+  const configFile = process.env.PROXY_CONFIG_FILE;
+  const loadOptions = (): HttpsProxyOptions => configFile
+    ? { ...readEnvOptions(), ...loadConfigFile(configFile) }
+    : readEnvOptions();
+
+  let workerCount: number;
+  try {
+    workerCount = resolveWorkerCount(process.env.PROXY_WORKERS);
+  } catch (error: any) {
+    logger.error('❌', error.message);
     process.exit(1);
-  });
+  }
 
-  // 优雅关闭处理
-  process.on('SIGINT', () => {
-    console.log('\n👋 正在关闭HTTPS代理服务器...');
-    process.exit(0);
-  });
+  if (workerCount > 1 && cluster.isPrimary) {
+    // 集群主进程：启动和管理工作进程，连接由工作进程处理
+    let drainTimeout: number;
+    try {
+      const options = loadOptions();
+      logger.configure(options.logging || {});
+      drainTimeout = (options.timeouts && options.timeouts.drain) || 30000;
+    } catch (error: any) {
+      logger.error('❌ 加载配置失败:', error.message);
+      process.exit(1);
+    }
 
-  process.on('SIGTERM', () => {
-    console.log('\n👋 正在关闭HTTPS代理服务器...');
-    process.exit(0);
-  });
+    const primary = new ClusterPrimary({ workers: workerCount, stopTimeout: drainTimeout + 5000 });
+    logger.info(`🧩 集群模式: 启动 ${workerCount} 个工作进程 (主进程 PID ${process.pid})...`);
+    primary.start().then(() => {
+      logger.info(`✅ ${workerCount} 个工作进程已开始接受连接`);
+    }, (error) => {
+      logger.error('❌ 启动工作进程失败:', error.message);
+      primary.stop().then(() => process.exit(1));
+    });
+
+    let stopping = false;
+    const stopCluster = () => {
+      if (stopping) {
+        logger.warn('⚠️  再次收到退出信号，立即退出');
+        process.exit(1);
+      }
+      stopping = true;
+      logger.info('\n👋 正在关闭HTTPS代理服务器...');
+      primary.stop().then(() => process.exit(0));
+    };
+
+    process.on('SIGINT', stopCluster);
+    process.on('SIGTERM', stopCluster);
+
+    // 逐个替换工作进程（升级版本后不中断服务）
+    process.on('SIGUSR2', () => {
+      logger.info('🔁 收到 SIGUSR2，逐个替换工作进程...');
+      primary.restartWorkers().then(() => logger.info('✅ 所有工作进程已替换'), (error) => {
+        logger.error('❌ 替换工作进程失败:', error.message);
+      });
+    });
+
+    // 主进程先检查新配置，没有错误时再通知工作进程重新加载
+    const reloadCluster = (reason: string) => {
+      logger.info(`🔄 ${reason}，重新加载配置...`);
+      try {
+        logger.configure(loadOptions().logging || {});
+      } catch (error: any) {
+        logger.error('❌ 重新加载配置失败，继续使用当前配置:', error.message);
+        return;
+      }
+      primary.reload();
+    };
+
+    process.on('SIGHUP', () => reloadCluster('收到 SIGHUP'));
+    if (configFile) {
+      watchConfigFile(configFile, () => reloadCluster(`配置文件 ${configFile} 已修改`));
+    }
+  } else {
+    // 集群工作进程使用各自的日志文件
+    const workerIndex = clusterWorkerIndex();
+    const loadWorkerOptions = (): HttpsProxyOptions => workerIndex !== null
+      ? workerOptions(loadOptions(), workerIndex, workerCount)
+      : loadOptions();
+
+    let proxy: HttpsProxy;
+    try {
+      proxy = new HttpsProxy(loadWorkerOptions());
+    } catch (error: any) {
+      logger.error('❌ 加载配置失败:', error.message);
+      process.exit(1);
+    }
+
+    // 集群工作进程：由主进程通知重新加载和停止
+    const clusterWorker = workerIndex !== null
+      ? proxy.joinCluster({
+          reload: () => reloadConfig('集群主进程通知'),
+          shutdown: () => shuttingDown || shutdown()
+        })
+      : null;
+
+    // 平滑重启启动的新进程先接收旧进程的监听socket，开始接受连接后通知旧进程
+    const handover = isHandoverChild();
+    (handover ? receiveListeners() : Promise.resolve({}))
+      .then((listeners) => proxy.start(listeners))
+      .then(() => {
+        if (handover) notifyReady();
+        if (clusterWorker) clusterWorker.ready();
+      })
+      .catch((error) => {
+        logger.error('❌ 启动代理服务器失败:', error.message);
+        process.exit(1);
+      });
+
+    // 优雅关闭：等待已有连接结束，再次收到信号时立即退出
+    let shuttingDown = false;
+    const shutdown = () => {
+      if (shuttingDown) {
+        logger.warn('⚠️  再次收到退出信号，立即退出');
+        process.exit(1);
+      }
+      shuttingDown = true;
+      logger.info('\n👋 正在关闭HTTPS代理服务器...');
+      proxy.stop().then(() => process.exit(0), (error) => {
+        logger.error('❌ 关闭代理服务器失败:', error.message);
+        process.exit(1);
+      });
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    // 平滑重启：新进程接管监听端口后，当前进程等待已有连接结束再退出（集群模式下由主进程逐个替换工作进程）
+    process.on('SIGUSR2', () => {
+      if (shuttingDown || clusterWorker) return;
+      logger.info('🔁 收到 SIGUSR2，启动新进程接管监听端口...');
+      spawnSuccessor(proxy.listeners).then((child) => {
+        logger.info(`✅ 新进程 ${child.pid} 已开始接受连接`);
+        shutdown();
+      }, (error) => logger.error('❌ 平滑重启失败，继续使用当前进程:', error.message));
+    });
+
+    // 收到 SIGHUP 或配置文件修改后重新加载配置，新配置有错误时继续使用当前配置
+    const reloadConfig = (reason: string) => {
+      logger.info(`🔄 ${reason}，重新加载配置...`);
+      Promise.resolve()
+        .then(() => proxy.reload(loadWorkerOptions()))
+        .catch((error) => logger.error('❌ 重新加载配置失败，继续使用当前配置:', error.message));
+    };
+
+    process.on('SIGHUP', () => reloadConfig('收到 SIGHUP'));
+    if (configFile && !clusterWorker) {
+      watchConfigFile(configFile, () => reloadConfig(`配置文件 ${configFile} 已修改`));
+    }
+  }
 }
@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [field: string]: any;
+}
+
+/**
+ * 每个隧道/请求一条访问日志
+ */
+export interface AccessLogRecord {
+  // tunnel: CONNECT/SOCKS5 隧道，request: 转发的HTTP请求
+  type: 'tunnel' | 'request';
+  client: string;
+  user?: string;
+  // CONNECT / SOCKS5 / GET ...
+  method: string;
+  target: string;
+  status: number;
+  upstream?: string;
+  duration_ms: number;
+  bytes_up: number;
+  bytes_down: number;
+  // 失败时的错误码，例如 ECONNREFUSED、ETIMEDOUT
+  error?: string;
+}
+
+/**
+ * 日志输出目标，可以自己实现（例如发送到日志服务）
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+  close?(): void;
+}
+
+export interface RotationOptions {
+  // 单个文件的最大字节数，超过后轮转（默认 100MB，0 表示不按大小轮转）
+  maxSize?: number;
+  // 按时间轮转
+  interval?: 'hourly' | 'daily' | 'none';
+  // 保留的历史文件数量（默认 10）
+  maxFiles?: number;
+}
+
+export interface LoggerOptions {
+  // 最低输出级别（默认 info）
+  level?: LogLevel;
+  // 控制台输出格式：text 保持原来的文字日志，json 每行一条记录（默认 text）
+  format?: 'text' | 'json';
+  // 运行日志文件（JSON Lines）
+  file?: string;
+  // 访问日志文件（JSON Lines），"-" 表示输出到标准输出
+  accessLog?: string;
+  rotation?: RotationOptions;
+  // 额外的运行日志输出目标（只能在代码中传入，配置文件不支持）
+  sinks?: LogSink[];
+}
+
+/**
+ * 控制台输出：text 格式与 console.log 相同，错误和警告输出到 stderr
+ */
+export class ConsoleSink implements LogSink {
+  constructor(private format: 'text' | 'json' = 'text') {}
+
+  public write(record: LogRecord): void {
+    const stream = record.level === 'error' || record.level === 'warn' ? process.stderr : process.stdout;
+    stream.write(this.format === 'json' ? `${JSON.stringify(record)}\n` : `${record.msg}\n`);
+  }
+}
+
+/**
+ * 写入文件的 JSON Lines 输出，按大小和/或时间轮转：
+ * 当前文件重命名为 name.YYYYMMDD-HHmmss，只保留最近的 maxFiles 个
+ */
+export class RotatingFileSink implements LogSink {
+  private stream: fs.WriteStream;
+  private size: number;
+  private period: string;
+  private maxSize: number;
+  private interval: 'hourly' | 'daily' | 'none';
+  private maxFiles: number;
+
+  constructor(private file: string, options: RotationOptions = {}) {
+    this.maxSize = options.maxSize === undefined ? 100 * 1024 * 1024 : options.maxSize;
+    this.interval = options.interval || 'none';
+    this.maxFiles = options.maxFiles === undefined ? 10 : options.maxFiles;
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+    this.period = this.currentPeriod();
+    this.stream = this.open();
+  }
+
+  public write(record: LogRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    const length = Buffer.byteLength(line);
+
+    if ((this.maxSize > 0 && this.size > 0 && this.size + length > this.maxSize) || this.currentPeriod() !== this.period) {
+      this.rotate();
+    }
+
+    this.stream.write(line);
+    this.size += length;
+  }
+
+  public close(): void {
+    this.stream.end();
+  }
+
+  private open(): fs.WriteStream {
+    // 同步打开文件，保证轮转时文件已经存在
+    const stream = fs.createWriteStream(this.file, { fd: fs.openSync(this.file, 'a') });
+    stream.on('error', (error) => process.stderr.write(`❌ 写入日志文件失败 ${this.file}: ${error.message}\n`));
+    return stream;
+  }
+
+  private rotate(): void {
+    // 先重命名再结束旧的流，未写完的数据仍然写入重命名后的文件
+    try {
+      let target = `${this.file}.${timestamp(new Date())}`;
+      for (let index = 1; fs.existsSync(target); index++) {
+        target = `${this.file}.${timestamp(new Date())}.${index}`;
+      }
+      fs.renameSync(this.file, target);
+    } catch (error: any) {
+      process.stderr.write(`❌ 日志轮转失败 ${this.file}: ${error.message}\n`);
+    }
+    this.stream.end();
+    this.stream = this.open();
+    this.size = 0;
+    this.period = this.currentPeriod();
+    this.prune();
+  }
+
+  private prune(): void {
+    const directory = path.dirname(this.file);
+    const prefix = `${path.basename(this.file)}.`;
+    try {
+      const rotated = fs.readdirSync(directory)
+        .filter(name => name.startsWith(prefix) && /^\d{8}-\d{6}/.test(name.slice(prefix.length)))
+        .sort()
+        .reverse();
+      for (const name of rotated.slice(this.maxFiles)) {
+        fs.unlinkSync(path.join(directory, name));
+      }
+    } catch (error: any) {
+      process.stderr.write(`⚠️  清理旧日志失败: ${error.message}\n`);
+    }
+  }
+
+  private currentPeriod(): string {
+    const now = timestamp(new Date());
+    if (this.interval === 'daily') return now.slice(0, 8);
+    if (this.interval === 'hourly') return now.slice(0, 11);
+    return '';
+  }
+}
+
+/**
+ * 分级日志，用法与 console.log 相同（支持格式化参数）；访问日志单独输出
+ */
+export class Logger {
+  private level: number = LEVELS.info;
+  private sinks: LogSink[] = [new ConsoleSink()];
+  private accessSinks: LogSink[] = [];
+
+  public configure(options: LoggerOptions = {}): void {
+    if (options.level && !(options.level in LEVELS)) {
+      throw new Error(`无效的日志级别: ${options.level}`);
+    }
+
+    // 先打开新的输出目标，失败时保留当前的配置
+    const sinks: LogSink[] = [new ConsoleSink(options.format || 'text')];
+    const accessSinks: LogSink[] = [];
+    try {
+      if (options.file) {
+        sinks.push(new RotatingFileSink(options.file, options.rotation));
+      }
+      if (options.accessLog === '-') {
+        accessSinks.push(new ConsoleSink('json'));
+      } else if (options.accessLog) {
+        accessSinks.push(new RotatingFileSink(options.accessLog, options.rotation));
+      }
+    } catch (error) {
+      for (const sink of [...sinks, ...accessSinks]) {
+        sink.close?.();
+      }
+      throw error;
+    }
+    sinks.push(...(options.sinks || []));
+
+    this.close();
+    this.level = LEVELS[options.level || 'info'];
+    this.sinks = sinks;
+    this.accessSinks = accessSinks;
+  }
+
+  public isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.level;
+  }
+
+  public debug(...args: any[]): void {
+    this.log('debug', ...args);
+  }
+
+  public info(...args: any[]): void {
+    this.log('info', ...args);
+  }
+
+  public warn(...args: any[]): void {
+    this.log('warn', ...args);
+  }
+
+  public error(...args: any[]): void {
+    this.log('error', ...args);
+  }
+
+  public log(level: LogLevel, ...args: any[]): void {
+    if (!this.isEnabled(level)) return;
+    this.emit(this.sinks, { time: new Date().toISOString(), level, msg: util.format(...args) });
+  }
+
+  public access(record: AccessLogRecord): void {
+    if (this.accessSinks.length === 0) return;
+    this.emit(this.accessSinks, { time: new Date().toISOString(), level: 'info', msg: 'access', ...record });
+  }
+
+  public close(): void {
+    for (const sink of [...this.sinks, ...this.accessSinks]) {
+      sink.close?.();
+    }
+  }
+
+  private emit(sinks: LogSink[], record: LogRecord): void {
+    for (const sink of sinks) {
+      try {
+        sink.write(record);
+      } catch (error: any) {
+        process.stderr.write(`❌ 日志输出失败: ${error.message}\n`);
+      }
+    }
+  }
+}
+
+export const logger = new Logger();
+
+/**
+ * 网络错误对应的日志级别：客户端/服务器正常断开等预期内的错误只在 debug 级别输出
+ */
+export function networkErrorLevel(error: any): LogLevel {
+  const code = error && error.code;
+  const message = String(error && error.message || '');
+
+  if (['ECONNRESET', 'EPIPE', 'ENOTCONN', 'ETIMEDOUT', 'ECONNABORTED'].includes(code) ||
+      /socket hang up|Client network socket disconnected|before secure TLS connection/.test(message)) {
+    return 'debug';
+  }
+  // 客户端TLS版本或协议不匹配，通常是配置问题
+  if (code === 'EPROTO' || /SSL routines|wrong version number|PROTOCOL_WRONG_VERSION|SSL_ERROR_WANT_(READ|WRITE)|HPE_|Parse Error/.test(message)) {
+    return 'warn';
+  }
+  return 'error';
+}
+
+/**
+ * 从错误信息中取出错误码（例如 "connect ECONNREFUSED 1.2.3.4:443" 中的 ECONNREFUSED）
+ */
+export function errorCode(message: string): string | undefined {
+  const match = /\b(E[A-Z]{3,}|ERR_[A-Z_]+)\b/.exec(message);
+  return match ? match[1] : undefined;
+}
+
+function timestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+         `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
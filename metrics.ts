@@ -0,0 +1,200 @@
+type Labels = Record<string, string>;
+
+/**
+ * 指标的可序列化数据（指标名 -> 按标签分组的值），集群模式下工作进程把它发给主进程汇总
+ */
+export type MetricsSnapshot = Record<string, Array<[string, any]>>;
+
+// 连接/请求耗时的默认分桶（秒）
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * 单个指标：名称、说明和按标签分组的值
+ */
+abstract class Metric {
+  constructor(public readonly name: string, public readonly help: string, protected type: string) {}
+
+  public render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+
+  protected abstract samples(): string[];
+
+  public abstract snapshot(): Array<[string, any]>;
+
+  // 把另一个进程的同名指标累加进来
+  public abstract merge(data: Array<[string, any]>): void;
+}
+
+export class Counter extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  public snapshot(): Array<[string, number]> {
+    return Array.from(this.values);
+  }
+
+  public merge(data: Array<[string, number]>): void {
+    for (const [key, value] of data) {
+      this.values.set(key, (this.values.get(key) || 0) + value);
+    }
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values, ([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  public inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  public dec(labels: Labels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  public snapshot(): Array<[string, number]> {
+    return Array.from(this.values);
+  }
+
+  public merge(data: Array<[string, number]>): void {
+    for (const [key, value] of data) {
+      this.values.set(key, (this.values.get(key) || 0) + value);
+    }
+  }
+
+  protected samples(): string[] {
+    // 没有数据时也输出 0，方便告警规则使用
+    if (this.values.size === 0) return [`${this.name} 0`];
+    return Array.from(this.values, ([labels, value]) => `${this.name}${labels} ${value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  public snapshot(): Array<[string, { labels: Labels; counts: number[]; sum: number; count: number }]> {
+    return Array.from(this.series);
+  }
+
+  public merge(data: Array<[string, { labels: Labels; counts: number[]; sum: number; count: number }]>): void {
+    for (const [key, other] of data) {
+      const series = this.series.get(key);
+      if (!series) {
+        this.series.set(key, { labels: other.labels, counts: other.counts.slice(), sum: other.sum, count: other.count });
+        continue;
+      }
+      other.counts.forEach((value, index) => series.counts[index] += value);
+      series.sum += other.sum;
+      series.count += other.count;
+    }
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${key} ${series.sum}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * 代理的监控指标，/metrics 以 Prometheus 文本格式输出
+ */
+export class ProxyMetrics {
+  public readonly activeTunnels = new Gauge('proxy_active_tunnels', '当前打开的隧道数');
+  public readonly connectTotal = new Counter('proxy_connect_total', 'CONNECT请求数，按结果（established 或HTTP状态码）分组');
+  public readonly tunnelBytes = new Counter('proxy_tunnel_bytes_total', '隧道转发的字节数，按方向分组');
+  public readonly upstreamConnectSeconds = new Histogram('proxy_upstream_connect_seconds', '建立到目标或上游代理的连接耗时');
+  public readonly tlsHandshakeErrors = new Counter('proxy_tls_handshake_errors_total', '客户端TLS握手失败次数，按错误码分组');
+  public readonly httpResponses = new Counter('proxy_http_responses_total', '转发请求的响应数，按状态码分组');
+  public readonly websocketUpgrades = new Counter('proxy_websocket_upgrades_total', '转发的 Upgrade（WebSocket）请求数，按结果（101 或HTTP状态码）分组');
+  public readonly originRequests = new Counter('proxy_origin_requests_total', '转发到源站或上游代理的请求数，按是否复用已有连接分组');
+  public readonly rateLimited = new Counter('proxy_rate_limited_total', '超过限速被拒绝的隧道和请求数，按限制类型（client/user/host）分组');
+  public readonly quotaExceeded = new Counter('proxy_quota_exceeded_total', '流量配额用完被拒绝的隧道和请求数，按配额类型（client/user/host）分组');
+
+  public render(): string {
+    return this.all().map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  public snapshot(): MetricsSnapshot {
+    const snapshot: MetricsSnapshot = {};
+    for (const metric of this.all()) {
+      snapshot[metric.name] = metric.snapshot();
+    }
+    return snapshot;
+  }
+
+  /**
+   * 累加其他进程的指标（集群模式下在主进程汇总）
+   */
+  public merge(snapshot: MetricsSnapshot): void {
+    for (const metric of this.all()) {
+      if (snapshot[metric.name]) {
+        metric.merge(snapshot[metric.name]);
+      }
+    }
+  }
+
+  private all(): Metric[] {
+    return [
+      this.activeTunnels,
+      this.connectTotal,
+      this.tunnelBytes,
+      this.upstreamConnectSeconds,
+      this.tlsHandshakeErrors,
+      this.httpResponses,
+      this.websocketUpgrades,
+      this.originRequests,
+      this.rateLimited,
+      this.quotaExceeded
+    ];
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`).join(',')}}`;
+}
@@ -0,0 +1,339 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as os from 'os';
+import { getQuickJS, shouldInterruptAfterDeadline, QuickJSContext } from 'quickjs-emscripten';
+import { DnsResolver } from './dns-resolver';
+import { logger } from './logger';
+
+export interface PacOptions {
+  // PAC 文件路径或 http(s) 地址
+  source: string;
+  // 重新加载间隔（默认5分钟）
+  refreshInterval?: number;
+  // 单次 FindProxyForURL 执行超时（默认1秒）
+  evaluationTimeout?: number;
+  // 同一目标的结果缓存时间（默认1分钟）
+  cacheTtl?: number;
+}
+
+// 脚本所在的 QuickJS 运行时可以使用的内存和栈大小
+const MEMORY_LIMIT = 16 * 1024 * 1024;
+const STACK_SIZE = 1024 * 1024;
+const CACHE_SIZE = 1000;
+
+// 在沙箱内定义的标准PAC辅助函数，只通过注入的原始值与外部交互
+const PAC_HELPERS = `
+var __dns = {}, __myIp = '127.0.0.1', __time = 0;
+function __findProxy(url, host, dns, myIp, time) {
+  __dns = dns; __myIp = myIp; __time = time;
+  return typeof FindProxyForURL === 'function' ? String(FindProxyForURL(url, host)) : null;
+}
+function isPlainHostName(host) { return String(host).indexOf('.') === -1; }
+function dnsDomainIs(host, domain) {
+  host = String(host).toLowerCase(); domain = String(domain).toLowerCase();
+  return host.length >= domain.length && host.substring(host.length - domain.length) === domain;
+}
+function localHostOrDomainIs(host, hostdom) {
+  host = String(host).toLowerCase(); hostdom = String(hostdom).toLowerCase();
+  return host === hostdom || (host.indexOf('.') === -1 && hostdom.indexOf(host + '.') === 0);
+}
+function dnsDomainLevels(host) { return String(host).split('.').length - 1; }
+function dnsResolve(host) {
+  host = String(host).toLowerCase();
+  if (/^\\d+\\.\\d+\\.\\d+\\.\\d+$/.test(host)) return host;
+  return Object.prototype.hasOwnProperty.call(__dns, host) ? __dns[host] : null;
+}
+function isResolvable(host) { return dnsResolve(host) !== null; }
+function myIpAddress() { return __myIp; }
+function convert_addr(ip) {
+  var parts = String(ip).split('.');
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+function isInNet(host, pattern, mask) {
+  var ip = dnsResolve(host);
+  if (ip === null) return false;
+  var m = convert_addr(mask);
+  return (convert_addr(ip) & m) >>> 0 === (convert_addr(pattern) & m) >>> 0;
+}
+function shExpMatch(str, shexp) {
+  var re = String(shexp).replace(/[.+^\${}()|[\\]\\\\]/g, '\\\\$&').replace(/\\*/g, '.*').replace(/\\?/g, '.');
+  return new RegExp('^' + re + '$').test(String(str));
+}
+var __days = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+var __months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+function __now(args) {
+  var gmt = args.length > 0 && args[args.length - 1] === 'GMT';
+  var d = new Date(__time);
+  return {
+    gmt: gmt,
+    day: gmt ? d.getUTCDay() : d.getDay(),
+    date: gmt ? d.getUTCDate() : d.getDate(),
+    month: gmt ? d.getUTCMonth() : d.getMonth(),
+    year: gmt ? d.getUTCFullYear() : d.getFullYear(),
+    seconds: gmt ? d.getUTCHours() * 3600 + d.getUTCMinutes() * 60 + d.getUTCSeconds()
+                 : d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds()
+  };
+}
+function __inRange(value, start, end) { return start <= end ? value >= start && value <= end : value >= start || value <= end; }
+function weekdayRange() {
+  var now = __now(arguments);
+  var args = Array.prototype.slice.call(arguments, 0, now.gmt ? arguments.length - 1 : arguments.length);
+  var start = __days.indexOf(String(args[0]).toUpperCase());
+  var end = args.length > 1 ? __days.indexOf(String(args[1]).toUpperCase()) : start;
+  return start !== -1 && end !== -1 && __inRange(now.day, start, end);
+}
+function timeRange() {
+  var now = __now(arguments);
+  var args = Array.prototype.slice.call(arguments, 0, now.gmt ? arguments.length - 1 : arguments.length).map(Number);
+  if (args.length === 1) return Math.floor(now.seconds / 3600) === args[0];
+  if (args.length === 2) return __inRange(Math.floor(now.seconds / 3600), args[0], args[1] - 1);
+  if (args.length === 4) return __inRange(now.seconds, args[0] * 3600 + args[1] * 60, args[2] * 3600 + args[3] * 60 - 1);
+  if (args.length === 6) return __inRange(now.seconds, args[0] * 3600 + args[1] * 60 + args[2], args[3] * 3600 + args[4] * 60 + args[5]);
+  return false;
+}
+function dateRange() {
+  var now = __now(arguments);
+  var args = Array.prototype.slice.call(arguments, 0, now.gmt ? arguments.length - 1 : arguments.length);
+  var values = args.map(function (arg) {
+    var month = __months.indexOf(String(arg).toUpperCase());
+    if (month !== -1) return { kind: 'month', value: month };
+    var n = Number(arg);
+    return n > 31 ? { kind: 'year', value: n } : { kind: 'date', value: n };
+  });
+  function pick(kind) { return kind === 'month' ? now.month : kind === 'year' ? now.year : now.date; }
+  if (values.length === 1) return pick(values[0].kind) === values[0].value;
+  var half = values.length / 2;
+  var start = 0, end = 0, current = 0;
+  for (var i = 0; i < half; i++) {
+    var scale = values[i].kind === 'year' ? 10000 : values[i].kind === 'month' ? 100 : 1;
+    start += values[i].value * scale;
+    end += values[i + half].value * scale;
+    current += pick(values[i].kind) * scale;
+  }
+  return __inRange(current, start, end);
+}
+function alert() {}
+`;
+
+/**
+ * 加载 PAC 脚本并在 QuickJS 沙箱中执行，把 FindProxyForURL 的结果转换为上游代理列表；
+ * 沙箱是独立的 WebAssembly 解释器，脚本访问不到 Node 的任何对象
+ */
+export class PacResolver {
+  public readonly source: string;
+  private refreshInterval: number;
+  private evaluationTimeout: number;
+  private cacheTtl: number;
+  // 已执行过 PAC 脚本的上下文，每次查询复用
+  private context: QuickJSContext | null = null;
+  private cache: Map<string, { upstreams: Array<string | null>; expires: number }> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private resolver: DnsResolver;
+
+  constructor(options: PacOptions, resolver: DnsResolver = new DnsResolver()) {
+    this.source = options.source;
+    this.resolver = resolver;
+    this.refreshInterval = options.refreshInterval || 5 * 60 * 1000;
+    this.evaluationTimeout = options.evaluationTimeout || 1000;
+    this.cacheTtl = options.cacheTtl ?? 60 * 1000;
+  }
+
+  /**
+   * 首次加载 PAC 脚本并定时刷新
+   */
+  public async load(): Promise<void> {
+    await this.reload();
+
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => {
+        this.reload().catch((error) => {
+          logger.error(`❌ 重新加载PAC文件失败，继续使用旧版本:`, error.message);
+        });
+      }, this.refreshInterval);
+      this.refreshTimer.unref();
+    }
+  }
+
+  public close(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.dispose();
+  }
+
+  /**
+   * 返回按顺序尝试的上游代理地址，null 表示直连；
+   * 与浏览器处理 https 地址相同，脚本只拿到协议、主机和端口，结果按此缓存
+   */
+  public async findProxy(targetUrl: string, host: string): Promise<Array<string | null>> {
+    const url = new URL(targetUrl);
+    const key = `${url.protocol}//${url.host}/`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.upstreams;
+    }
+
+    const resolved = await this.resolveHost(host);
+    if (!this.context) {
+      throw new Error('PAC文件尚未加载');
+    }
+
+    const args = [key, host, resolved, myIpAddress(), Date.now()].map(arg => JSON.stringify(arg)).join(', ');
+    const result = this.evaluate(this.context, `__findProxy(${args})`);
+    if (result === null) {
+      throw new Error('PAC文件中没有定义 FindProxyForURL');
+    }
+
+    const upstreams = parsePacResult(String(result));
+    this.store(key, upstreams);
+    return upstreams;
+  }
+
+  private async reload(): Promise<void> {
+    const code = await readSource(this.source);
+    const context = (await getQuickJS()).newContext();
+    context.runtime.setMemoryLimit(MEMORY_LIMIT);
+    context.runtime.setMaxStackSize(STACK_SIZE);
+
+    // 先在新的上下文中执行，失败时保留旧脚本
+    try {
+      this.evaluate(context, PAC_HELPERS);
+      this.evaluate(context, code);
+      if (this.evaluate(context, 'typeof FindProxyForURL') !== 'function') {
+        throw new Error('PAC文件中没有定义 FindProxyForURL');
+      }
+    } catch (error) {
+      context.dispose();
+      throw error;
+    }
+
+    this.dispose();
+    this.context = context;
+    this.cache.clear();
+    logger.info(`📜 已加载PAC文件: ${this.source}`);
+  }
+
+  /**
+   * 在沙箱中执行代码并取回结果（只能是可以JSON序列化的值），超时或抛出异常时报错
+   */
+  private evaluate(context: QuickJSContext, code: string): unknown {
+    context.runtime.setInterruptHandler(shouldInterruptAfterDeadline(Date.now() + this.evaluationTimeout));
+    const result = context.evalCode(code, this.source);
+    if (result.error) {
+      const error: any = context.dump(result.error);
+      result.error.dispose();
+      throw new Error(`执行PAC失败: ${error && error.message ? `${error.name}: ${error.message}` : error}`);
+    }
+    const value = context.dump(result.value);
+    result.value.dispose();
+    return value;
+  }
+
+  private store(key: string, upstreams: Array<string | null>): void {
+    if (this.cacheTtl <= 0) return;
+    // Map 保持插入顺序，超过上限时淘汰最早写入的
+    while (this.cache.size >= CACHE_SIZE) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, { upstreams, expires: Date.now() + this.cacheTtl });
+  }
+
+  private dispose(): void {
+    if (this.context) {
+      this.context.dispose();
+      this.context = null;
+    }
+    this.cache.clear();
+  }
+
+  /**
+   * dnsResolve 在沙箱内只能同步调用，这里用代理的解析器（固定解析、DNS服务器和缓存）预先解析目标主机
+   */
+  private async resolveHost(host: string): Promise<Record<string, string>> {
+    if (net.isIP(host)) {
+      return {};
+    }
+    try {
+      const addresses = await this.resolver.resolve(host);
+      // PAC 的 dnsResolve 只返回IPv4地址
+      const ipv4 = addresses.find(address => address.family === 4);
+      return ipv4 ? { [host.toLowerCase()]: ipv4.address } : {};
+    } catch (error) {
+      return {};
+    }
+  }
+}
+
+/**
+ * 解析 "PROXY a:8080; SOCKS5 b:1080; DIRECT" 格式的结果
+ */
+export function parsePacResult(result: string): Array<string | null> {
+  const upstreams: Array<string | null> = [];
+
+  for (const entry of result.split(';')) {
+    const [keyword, address] = entry.trim().split(/\s+/);
+    if (!keyword) continue;
+
+    switch (keyword.toUpperCase()) {
+      case 'DIRECT':
+        upstreams.push(null);
+        break;
+      case 'PROXY':
+      case 'HTTP':
+        if (address) upstreams.push(`http://${address}`);
+        break;
+      case 'HTTPS':
+        if (address) upstreams.push(`https://${address}`);
+        break;
+      case 'SOCKS':
+      case 'SOCKS5':
+        if (address) upstreams.push(`socks5://${address}`);
+        break;
+      case 'SOCKS4':
+        if (address) upstreams.push(`socks4://${address}`);
+        break;
+      default:
+        logger.warn(`⚠️  忽略无法识别的PAC结果: ${entry.trim()}`);
+    }
+  }
+
+  // 没有可用条目时按浏览器的行为直连
+  return upstreams.length > 0 ? upstreams : [null];
+}
+
+function readSource(source: string): Promise<string> {
+  if (!/^https?:\/\//i.test(source)) {
+    return fs.promises.readFile(source, 'utf8');
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = source.toLowerCase().startsWith('https:') ? https : http;
+    const request = client.get(source, { timeout: 10000 }, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        reject(new Error(`下载PAC文件失败: HTTP ${res.statusCode}`));
+        return;
+      }
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      res.on('error', reject);
+    });
+    request.on('timeout', () => request.destroy(new Error('下载PAC文件超时')));
+    request.on('error', reject);
+  });
+}
+
+function myIpAddress(): string {
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === 'IPv4' && !address.internal) {
+        return address.address;
+      }
+    }
+  }
+  return '127.0.0.1';
+}
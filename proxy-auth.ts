@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { logger } from './logger';
+
+/**
+ * 代理用户（password 可以是明文，也可以是 bcrypt、{SHA}、{SHA256} 哈希）
+ */
+export interface ProxyUser {
+  username: string;
+  password: string;
+}
+
+export interface ProxyAuthOptions {
+  users?: ProxyUser[];
+  htpasswdFile?: string;
+  realm?: string;
+}
+
+// 已验证凭据的缓存时间，避免每个请求都做一次bcrypt计算
+const VERIFIED_CACHE_TTL = 5 * 60 * 1000;
+// 检查 htpasswd 文件是否被修改的间隔
+const HTPASSWD_WATCH_INTERVAL = 2000;
+
+type PasswordFormat = 'bcrypt' | 'sha1' | 'sha256' | 'plain';
+
+/**
+ * Proxy-Authorization (Basic) 认证
+ */
+export class ProxyAuthenticator {
+  public readonly realm: string;
+  private inlineUsers: Map<string, string>;
+  private fileUsers: Map<string, string> = new Map();
+  private htpasswdFile: string | null;
+  private watching = false;
+  private verified: Map<string, { username: string; expires: number }> = new Map();
+
+  constructor(options: ProxyAuthOptions) {
+    this.realm = options.realm || 'HTTPS-Proxy';
+    this.inlineUsers = new Map((options.users || []).map(user => [user.username, user.password]));
+    for (const [username, password] of this.inlineUsers) {
+      if (!passwordFormat(password)) {
+        throw new Error(`代理用户 ${username} 的密码使用了不支持的哈希格式（支持 bcrypt、{SHA}、{SHA256} 和明文）`);
+      }
+    }
+    this.htpasswdFile = options.htpasswdFile || null;
+
+    if (this.htpasswdFile) {
+      this.loadHtpasswd();
+    }
+  }
+
+  /**
+   * 407 响应需要携带的质询头
+   */
+  public get challenge(): string {
+    return `Basic realm="${this.realm.replace(/"/g, '')}", charset="UTF-8"`;
+  }
+
+  /**
+   * 校验 Proxy-Authorization 头，成功返回用户名，失败返回 null（bcrypt 异步计算，不阻塞事件循环）
+   */
+  public async authenticate(header: string | string[] | undefined): Promise<string | null> {
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value) {
+      return null;
+    }
+
+    const match = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const cacheKey = crypto.createHash('sha256').update(match[1]).digest('hex');
+    const cached = this.verified.get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+      return cached.username;
+    }
+    this.verified.delete(cacheKey);
+
+    const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const username = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+    const stored = this.inlineUsers.get(username) ?? this.fileUsers.get(username);
+
+    if (stored === undefined || !(await verifyPassword(password, stored))) {
+      return null;
+    }
+    // 校验期间 htpasswd 文件被重新加载、密码已经修改时不使用旧密码的结果
+    if (stored !== (this.inlineUsers.get(username) ?? this.fileUsers.get(username))) {
+      return null;
+    }
+
+    this.verified.set(cacheKey, { username, expires: Date.now() + VERIFIED_CACHE_TTL });
+    return username;
+  }
+
+  /**
+   * 校验用户名和密码（SOCKS5 等不使用 Proxy-Authorization 头的入口）
+   */
+  public async authenticateCredentials(username: string, password: string): Promise<string | null> {
+    if (!username || username.includes(':')) {
+      return null;
+    }
+    return this.authenticate(`Basic ${Buffer.from(`${username}:${password}`, 'utf8').toString('base64')}`);
+  }
+
+  /**
+   * 开始监视 htpasswd 文件，被修改后重新加载，无需重启代理
+   */
+  public watch(): void {
+    if (!this.htpasswdFile || this.watching) return;
+
+    this.watching = true;
+    fs.watchFile(this.htpasswdFile, { interval: HTPASSWD_WATCH_INTERVAL, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) return;
+      try {
+        this.loadHtpasswd();
+      } catch (error: any) {
+        logger.error(`❌ 重新加载htpasswd文件失败，继续使用旧版本:`, error.message);
+      }
+    });
+  }
+
+  public close(): void {
+    if (this.htpasswdFile && this.watching) {
+      fs.unwatchFile(this.htpasswdFile);
+      this.watching = false;
+    }
+  }
+
+  /**
+   * 读取 htpasswd 格式文件（每行 user:hash，# 开头为注释），有不支持的哈希格式时整个文件都不使用
+   */
+  private loadHtpasswd(): void {
+    if (!this.htpasswdFile) return;
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.htpasswdFile, 'utf8');
+    } catch (error) {
+      throw new Error(`无法读取htpasswd文件: ${error}`);
+    }
+
+    const users = new Map<string, string>();
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        logger.warn(`⚠️  忽略无效的htpasswd行: ${line}`);
+        continue;
+      }
+
+      const username = line.slice(0, separator);
+      const hash = line.slice(separator + 1);
+      // 文件中的明文和 crypt 哈希无法区分，只接受带前缀的哈希
+      const format = passwordFormat(hash);
+      if (!format || format === 'plain') {
+        throw new Error(`htpasswd文件 ${this.htpasswdFile} 中用户 ${username} 的密码格式不受支持` +
+                        `（只支持 bcrypt、{SHA}、{SHA256}，可以用 htpasswd -B 生成）`);
+      }
+      users.set(username, hash);
+    }
+
+    this.fileUsers = users;
+    this.verified.clear();
+    logger.info(`👥 已加载 ${users.size} 个代理用户 (${this.htpasswdFile})`);
+  }
+}
+
+/**
+ * 识别密码的存储格式，$apr1$、$1$、$5$、$6$ 等不支持的 crypt 哈希返回 null（不能当作明文比较）
+ */
+function passwordFormat(stored: string): PasswordFormat | null {
+  if (/^\$2[aby]\$\d{2}\$/.test(stored)) return 'bcrypt';
+  if (stored.startsWith('{SHA}')) return 'sha1';
+  if (stored.startsWith('{SHA256}')) return 'sha256';
+  if (/^\$[^$]*\$/.test(stored)) return null;
+  return 'plain';
+}
+
+/**
+ * 按哈希格式校验密码：bcrypt ($2a$/$2b$/$2y$)、{SHA}、{SHA256} 和明文，格式在加载时已经检查过
+ */
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  switch (passwordFormat(stored)) {
+    case 'bcrypt':
+      // bcryptjs 不识别 Apache 的 $2y$ 前缀，算法与 $2b$ 相同
+      return bcrypt.compare(password, stored.replace(/^\$2y\$/, '$2b$'));
+    case 'sha1':
+      return safeEqual(crypto.createHash('sha1').update(password).digest('base64'), stored.slice(5));
+    case 'sha256':
+      return safeEqual(crypto.createHash('sha256').update(password).digest('base64'), stored.slice(8));
+    case 'plain':
+      return safeEqual(password, stored);
+    default:
+      return false;
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = crypto.createHash('sha256').update(a).digest();
+  const right = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(left, right);
+}
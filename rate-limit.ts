@@ -0,0 +1,357 @@
+import { HostPatternList, normalizeHost, unmapIPv4 } from './host-pattern';
+
+export interface LimitOptions {
+  // 令牌桶：每秒允许的新隧道/请求数
+  rate?: number;
+  // 桶容量，即允许的突发数量（默认等于 rate，至少为 1）
+  burst?: number;
+  // 同时打开的隧道和正在转发的请求数上限
+  maxConcurrent?: number;
+}
+
+/**
+ * 针对特定目标的限制，hosts 格式与访问控制规则相同
+ * 匹配同一条规则的所有目标共用一份限额（例如同一交易所的多个API域名）
+ */
+export interface HostLimitRule extends LimitOptions {
+  id?: string;
+  hosts: string[];
+}
+
+export interface RateLimitQueueOptions {
+  // 最长等待时间（默认 10 秒），超时后返回 429
+  timeout?: number;
+  // 最多排队的请求数（默认 100），队列满时直接返回 429
+  maxSize?: number;
+}
+
+export interface RateLimitOptions {
+  // 每个客户端IP
+  client?: LimitOptions;
+  // 每个认证用户（未开启认证时不生效）
+  user?: LimitOptions;
+  // 每个目标主机
+  host?: LimitOptions;
+  // 特定目标的限制，按顺序匹配，第一个匹配的规则代替 host
+  hostRules?: HostLimitRule[];
+  // 转发请求超过限制时排队等待而不是直接返回 429（CONNECT 隧道总是直接拒绝）
+  queue?: RateLimitQueueOptions;
+}
+
+export interface RateLimitKeys {
+  client: string;
+  user: string;
+  host: string;
+}
+
+export type RateLimitScope = 'client' | 'user' | 'host';
+
+/**
+ * 隧道或请求占用的限额，结束时调用 release 归还并发数；重复调用无影响
+ */
+export interface RateLimitLease {
+  release(): void;
+}
+
+/**
+ * 超过限制，retryAfter 是建议客户端等待的秒数（Retry-After）
+ */
+export class RateLimitError extends Error {
+  public readonly scope: RateLimitScope;
+  public readonly retryAfter: number;
+
+  constructor(message: string, scope: RateLimitScope, retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.scope = scope;
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+  active: number;
+}
+
+interface CompiledHostRule {
+  id: string;
+  hosts: HostPatternList;
+  limit: LimitOptions;
+}
+
+// 一次检查涉及的一个限额
+interface Scope {
+  name: RateLimitScope;
+  label: string;
+  limit: LimitOptions;
+  bucket: Bucket;
+}
+
+// 被限制时的原因，wait 为令牌恢复需要的毫秒数，并发数超限时为 null（等有连接结束）
+interface Blocked {
+  scope: Scope;
+  message: string;
+  wait: number | null;
+}
+
+interface Waiter {
+  keys: RateLimitKeys;
+  resolve: (lease: RateLimitLease) => void;
+  reject: (error: RateLimitError) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 空闲超过该时间且没有活动连接的计数会被清理
+const BUCKET_IDLE_TIME = 10 * 60 * 1000;
+
+/**
+ * 按客户端IP、用户和目标主机的令牌桶限速和并发数限制
+ */
+export class RateLimiter {
+  private options: RateLimitOptions = {};
+  private hostRules: CompiledHostRule[] = [];
+  private buckets: Map<string, Bucket> = new Map();
+  private queue: Waiter[] = [];
+  private wakeup: NodeJS.Timeout | null = null;
+  private wakeupAt = 0;
+
+  constructor(options: RateLimitOptions = {}) {
+    this.configure(options);
+    setInterval(() => this.sweep(), 60000).unref();
+  }
+
+  /**
+   * 更新限制，已有的计数（包括正在进行的连接数）保留
+   */
+  public configure(options: RateLimitOptions = {}): void {
+    this.hostRules = compileHostRules(options);
+    this.options = options;
+    if (this.queue.length > 0) {
+      this.processQueue();
+    }
+  }
+
+  public get enabled(): boolean {
+    return !!(this.options.client || this.options.user || this.options.host || this.hostRules.length > 0);
+  }
+
+  /**
+   * 占用限额，超过限制时抛出 RateLimitError
+   */
+  public tryAcquire(keys: RateLimitKeys): RateLimitLease {
+    const result = this.take(keys);
+    if ('release' in result) return result;
+    throw this.error(result);
+  }
+
+  /**
+   * 占用限额；queue 为 true 且开启了排队时，超过限制的请求等待限额恢复，等待超时或队列已满时 reject
+   */
+  public acquire(keys: RateLimitKeys, queue: boolean): Promise<RateLimitLease> {
+    const queueOptions = this.options.queue;
+    if (!queue || !queueOptions) {
+      return new Promise(resolve => resolve(this.tryAcquire(keys)));
+    }
+
+    // 先处理已经在排队的请求，新请求不能插队
+    if (this.queue.length > 0) {
+      this.processQueue();
+    }
+    const result = this.take(keys);
+    if ('release' in result) return Promise.resolve(result);
+    if (this.queue.length >= (queueOptions.maxSize || 100)) {
+      return Promise.reject(this.error(result));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        keys,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.queue = this.queue.filter(item => item !== waiter);
+          const blocked = this.check(this.scopes(keys), Date.now());
+          reject(this.error(blocked || result));
+        }, queueOptions.timeout || 10000)
+      };
+      this.queue.push(waiter);
+      if (result.wait !== null) {
+        this.schedule(result.wait);
+      }
+    });
+  }
+
+  /**
+   * 正在排队的请求数
+   */
+  public get queued(): number {
+    return this.queue.length;
+  }
+
+  private take(keys: RateLimitKeys): RateLimitLease | Blocked {
+    const now = Date.now();
+    const scopes = this.scopes(keys);
+    const blocked = this.check(scopes, now);
+    if (blocked) return blocked;
+
+    for (const scope of scopes) {
+      if (scope.limit.rate) {
+        scope.bucket.tokens -= 1;
+      }
+      scope.bucket.active++;
+      scope.bucket.updated = now;
+    }
+
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        for (const scope of scopes) {
+          scope.bucket.active--;
+        }
+        if (this.queue.length > 0) {
+          this.processQueue();
+        }
+      }
+    };
+  }
+
+  /**
+   * 补充令牌并检查所有限额，返回等待时间最长的限制，都没有超过时返回 null
+   */
+  private check(scopes: Scope[], now: number): Blocked | null {
+    let result: Blocked | null = null;
+
+    for (const scope of scopes) {
+      const { limit, bucket } = scope;
+      if (limit.rate) {
+        const capacity = limit.burst || Math.max(1, limit.rate);
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updated) / 1000 * limit.rate);
+        bucket.updated = now;
+      }
+
+      let blocked: Blocked | null = null;
+      if (limit.maxConcurrent && bucket.active >= limit.maxConcurrent) {
+        blocked = { scope, message: `${scope.label} 同时最多 ${limit.maxConcurrent} 个连接`, wait: null };
+      } else if (limit.rate && bucket.tokens < 1) {
+        blocked = { scope, message: `${scope.label} 每秒最多 ${limit.rate} 个请求`, wait: Math.ceil((1 - bucket.tokens) / limit.rate * 1000) };
+      }
+      if (blocked && (!result || (result.wait !== null && (blocked.wait === null || blocked.wait > result.wait)))) {
+        result = blocked;
+      }
+    }
+
+    return result;
+  }
+
+  private scopes(keys: RateLimitKeys): Scope[] {
+    const scopes: Scope[] = [];
+    const add = (name: RateLimitScope, key: string, label: string, limit: LimitOptions | undefined) => {
+      if (!limit || (!limit.rate && !limit.maxConcurrent)) return;
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        bucket = { tokens: limit.burst || Math.max(1, limit.rate || 1), updated: Date.now(), active: 0 };
+        this.buckets.set(key, bucket);
+      }
+      scopes.push({ name, label, limit, bucket });
+    };
+
+    const client = unmapIPv4(keys.client);
+    add('client', `client ${client}`, `客户端 ${client}`, this.options.client);
+    if (keys.user) {
+      add('user', `user ${keys.user}`, `用户 ${keys.user}`, this.options.user);
+    }
+    const host = normalizeHost(keys.host);
+    const rule = this.hostRules.find(item => item.hosts.matchHost(host));
+    if (rule) {
+      add('host', `rule ${rule.id}`, `目标 ${host} (规则: ${rule.id})`, rule.limit);
+    } else {
+      add('host', `host ${host}`, `目标 ${host}`, this.options.host);
+    }
+
+    return scopes;
+  }
+
+  /**
+   * 按顺序让排队的请求重新尝试，并在最早的令牌恢复时再次检查
+   */
+  private processQueue(): void {
+    if (this.wakeup) {
+      clearTimeout(this.wakeup);
+      this.wakeup = null;
+    }
+
+    let nextWait = Infinity;
+    this.queue = this.queue.filter(waiter => {
+      const result = this.take(waiter.keys);
+      if ('release' in result) {
+        clearTimeout(waiter.timer);
+        waiter.resolve(result);
+        return false;
+      }
+      if (result.wait !== null) {
+        nextWait = Math.min(nextWait, result.wait);
+      }
+      return true;
+    });
+
+    if (this.queue.length > 0 && nextWait !== Infinity) {
+      this.schedule(nextWait);
+    }
+  }
+
+  private schedule(wait: number): void {
+    const at = Date.now() + Math.max(wait, 10);
+    if (this.wakeup) {
+      if (this.wakeupAt <= at) return;
+      clearTimeout(this.wakeup);
+    }
+    this.wakeupAt = at;
+    this.wakeup = setTimeout(() => {
+      this.wakeup = null;
+      this.processQueue();
+    }, Math.max(wait, 10));
+  }
+
+  private error(blocked: Blocked): RateLimitError {
+    const retryAfter = blocked.wait === null ? 1 : Math.max(1, Math.ceil(blocked.wait / 1000));
+    return new RateLimitError(`请求过于频繁: ${blocked.message}`, blocked.scope.name, retryAfter);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.active === 0 && now - bucket.updated > BUCKET_IDLE_TIME) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * 检查限速配置，有错误时抛出异常
+ */
+export function validateRateLimits(options: RateLimitOptions = {}): void {
+  compileHostRules(options);
+}
+
+function compileHostRules(options: RateLimitOptions): CompiledHostRule[] {
+  const limits: Array<[string, LimitOptions | undefined]> = [['client', options.client], ['user', options.user], ['host', options.host]];
+  const hostRules = (options.hostRules || []).map((rule, index) => {
+    const id = rule.id || `rule-${index + 1}`;
+    if (!rule.hosts || rule.hosts.length === 0) {
+      throw new Error(`限速规则 ${id} 缺少 hosts`);
+    }
+    limits.push([`hostRules.${id}`, rule]);
+    return { id, hosts: new HostPatternList(rule.hosts), limit: rule };
+  });
+
+  for (const [name, limit] of limits) {
+    if (limit && limit.rate !== undefined && !(limit.rate > 0)) {
+      throw new Error(`限速配置 ${name} 的 rate 应大于 0: ${limit.rate}`);
+    }
+  }
+  return hostRules;
+}
@@ -0,0 +1,109 @@
+import { Duplex } from 'stream';
+import { TunnelSocket } from './tunnel-socket';
+
+/**
+ * 内存中相连的一对socket的一端：写入的数据从另一端读出；
+ * 与TCP连接一样，一端关闭时另一端读到EOF，之后写入的数据被丢弃
+ */
+class PairedSocket extends Duplex implements TunnelSocket {
+  public peer!: PairedSocket;
+  // 另一端的读取方暂停时保留写入回调，恢复读取后再回调（背压）
+  private pendingWrite: (() => void) | null = null;
+  private idleTimeout = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(public readonly remoteAddress: string | undefined, public readonly remotePort: number | undefined) {
+    super();
+  }
+
+  public get readyState(): string {
+    return this.destroyed ? 'closed' : 'open';
+  }
+
+  /**
+   * 与 net.Socket 相同：两个方向都没有数据超过 timeout 毫秒时触发 timeout 事件，0 表示取消
+   */
+  public setTimeout(timeout: number, callback?: () => void): this {
+    this.idleTimeout = timeout;
+    if (callback) {
+      if (timeout === 0) {
+        this.removeListener('timeout', callback);
+      } else {
+        this.once('timeout', callback);
+      }
+    }
+    this.touch();
+    return this;
+  }
+
+  public setKeepAlive(): this {
+    return this;
+  }
+
+  public setNoDelay(): this {
+    return this;
+  }
+
+  public _read(): void {
+    const callback = this.peer.pendingWrite;
+    if (callback) {
+      this.peer.pendingWrite = null;
+      callback();
+    }
+  }
+
+  public _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.touch();
+    this.peer.touch();
+    if (this.peer.destroyed) {
+      callback();
+    } else if (this.peer.push(chunk)) {
+      callback();
+    } else {
+      this.pendingWrite = callback;
+    }
+  }
+
+  public _final(callback: (error?: Error | null) => void): void {
+    this.peer.push(null);
+    callback();
+  }
+
+  public _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    // 另一端先读完已经写入的数据再读到EOF
+    this.peer.push(null);
+    const pending = this.peer.pendingWrite;
+    if (pending) {
+      this.peer.pendingWrite = null;
+      pending();
+    }
+    callback(error);
+  }
+
+  private touch(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.idleTimeout > 0 && !this.destroyed) {
+      this.idleTimer = setTimeout(() => this.emit('timeout'), this.idleTimeout);
+      this.idleTimer.unref();
+    }
+  }
+}
+
+/**
+ * 创建一对相连的socket，两端都带有原客户端的地址；
+ * 解密隧道在其中一端终止TLS，另一端与客户端连接互相转发，原始字节可以像普通隧道一样计数和限速
+ */
+export function socketPair(client: TunnelSocket): [TunnelSocket, TunnelSocket] {
+  const left = new PairedSocket(client.remoteAddress, client.remotePort);
+  const right = new PairedSocket(client.remoteAddress, client.remotePort);
+  left.peer = right;
+  right.peer = left;
+  return [left, right];
+}
@@ -0,0 +1,407 @@
+import * as dgram from 'dgram';
+import * as dns from 'dns';
+import * as net from 'net';
+import { HandshakeReader, SOCKS5_REPLIES, encodeSocks5Address } from './tunnel';
+import { unmapIPv4 } from './host-pattern';
+import { logger } from './logger';
+
+export interface SocksServerOptions {
+  port: number;
+  host?: string;
+  // 允许 UDP ASSOCIATE（默认关闭）
+  udp?: boolean;
+  // 协商和请求阶段的超时时间，默认10秒
+  handshakeTimeout?: number;
+}
+
+/**
+ * SOCKS5 回复码（RFC 1928）
+ */
+export const SocksReply = {
+  SUCCEEDED: 0x00,
+  GENERAL_FAILURE: 0x01,
+  NOT_ALLOWED: 0x02,
+  NETWORK_UNREACHABLE: 0x03,
+  HOST_UNREACHABLE: 0x04,
+  CONNECTION_REFUSED: 0x05,
+  TTL_EXPIRED: 0x06,
+  COMMAND_NOT_SUPPORTED: 0x07,
+  ADDRESS_TYPE_NOT_SUPPORTED: 0x08
+} as const;
+
+/**
+ * 客户端的 CONNECT 请求，处理方建立连接后必须调用 reply
+ */
+export interface SocksConnectRequest {
+  socket: net.Socket;
+  hostname: string;
+  port: number;
+  // 认证用户名，未开启认证时为空字符串
+  user: string;
+  // 发送回复；失败时同时关闭连接，bound 为连接目标时使用的本地地址
+  reply: (code: number, bound?: net.Socket | null) => void;
+}
+
+export interface SocksHandlers {
+  // 是否要求用户名密码认证（RFC 1929），每个连接单独判断，代理重新加载配置后立即生效
+  requireAuth: () => boolean;
+  // 校验用户名密码，成功返回用户名，失败返回 null
+  authenticate: (username: string, password: string) => Promise<string | null>;
+  connect: (request: SocksConnectRequest) => void;
+  // UDP 目标检查（访问控制等），返回允许发送的地址，null 表示丢弃
+  resolveUdpTarget?: (hostname: string, port: number, user: string) => Promise<dns.LookupAddress | null>;
+}
+
+const AUTH_NONE = 0x00;
+const AUTH_PASSWORD = 0x02;
+const AUTH_UNACCEPTABLE = 0xff;
+
+const CMD_CONNECT = 0x01;
+const CMD_UDP_ASSOCIATE = 0x03;
+
+// UDP 关联中缓存的目标检查结果数量
+const UDP_TARGET_CACHE_SIZE = 256;
+
+/**
+ * SOCKS5 入站监听：协商、认证和请求解析，连接目标交给代理的隧道逻辑
+ */
+export class Socks5Server {
+  private options: SocksServerOptions;
+  private handlers: SocksHandlers;
+  private server: net.Server;
+  // 当前的客户端连接（包括UDP关联的控制连接），停止服务时用于强制断开
+  private sockets: Set<net.Socket> = new Set();
+
+  constructor(options: SocksServerOptions, handlers: SocksHandlers) {
+    this.options = options;
+    this.handlers = handlers;
+    this.server = net.createServer(socket => {
+      this.sockets.add(socket);
+      socket.once('close', () => this.sockets.delete(socket));
+      this.handleConnection(socket).catch((error: Error) => {
+        logger.warn(`⚠️  SOCKS5 握手失败 (${socket.remoteAddress}): ${error.message}`);
+        socket.destroy();
+      });
+    });
+  }
+
+  public get port(): number {
+    return this.options.port;
+  }
+
+  public get udpEnabled(): boolean {
+    return this.options.udp === true;
+  }
+
+  public get connectionCount(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * 监听用的服务器，平滑重启时交给新进程
+   */
+  public get listener(): net.Server {
+    return this.server;
+  }
+
+  /**
+   * 开始监听，handle 为从旧进程接收的监听socket（平滑重启）
+   */
+  public listen(handle?: net.Server): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onListening = () => {
+        this.server.removeListener('error', reject);
+        this.server.on('error', (error) => logger.error('❌ SOCKS5 服务器错误:', error.message));
+        resolve();
+      };
+      this.server.once('error', reject);
+      if (handle) {
+        this.server.listen(handle, onListening);
+      } else {
+        // 不指定 host 时同时监听IPv4和IPv6
+        this.server.listen({ port: this.options.port, host: this.options.host, ipv6Only: false }, onListening);
+      }
+    });
+  }
+
+  /**
+   * 停止接受新连接，所有连接结束后 resolve
+   */
+  public close(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * 强制断开所有客户端连接
+   */
+  public destroyConnections(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  private async handleConnection(socket: net.Socket): Promise<void> {
+    socket.on('error', () => {});
+    const reader = new HandshakeReader(socket, this.options.handshakeTimeout || 10000, 'SOCKS5客户端');
+
+    // 方法协商
+    const [version, methodCount] = await reader.read(2);
+    if (version !== 0x05) {
+      throw new Error(`不支持的SOCKS版本: ${version}`);
+    }
+    const methods = await reader.read(methodCount);
+    const method = this.handlers.requireAuth()
+      ? (methods.includes(AUTH_PASSWORD) ? AUTH_PASSWORD : AUTH_UNACCEPTABLE)
+      : (methods.includes(AUTH_NONE) ? AUTH_NONE : methods.includes(AUTH_PASSWORD) ? AUTH_PASSWORD : AUTH_UNACCEPTABLE);
+    socket.write(Buffer.from([0x05, method]));
+    if (method === AUTH_UNACCEPTABLE) {
+      logger.info(`🔐 SOCKS5 客户端没有可用的认证方式 (${socket.remoteAddress})`);
+      socket.end();
+      return;
+    }
+
+    // 用户名密码认证
+    let user = '';
+    if (method === AUTH_PASSWORD) {
+      const [, usernameLength] = await reader.read(2);
+      const username = (await reader.read(usernameLength)).toString('utf8');
+      const [passwordLength] = await reader.read(1);
+      const password = (await reader.read(passwordLength)).toString('utf8');
+
+      const authenticated = this.handlers.requireAuth() ? await this.handlers.authenticate(username, password) : '';
+      if (authenticated === null) {
+        logger.info(`🔐 SOCKS5 ${username || '(空用户名)'} 未通过代理认证 (${socket.remoteAddress})`);
+        socket.end(Buffer.from([0x01, 0x01]));
+        return;
+      }
+      user = authenticated;
+      socket.write(Buffer.from([0x01, 0x00]));
+    }
+
+    // 请求
+    const [requestVersion, command, , addressType] = await reader.read(4);
+    if (requestVersion !== 0x05) {
+      throw new Error(`无效的SOCKS5请求版本: ${requestVersion}`);
+    }
+    if (addressType !== 0x01 && addressType !== 0x03 && addressType !== 0x04) {
+      reader.detach();
+      sendReply(socket, SocksReply.ADDRESS_TYPE_NOT_SUPPORTED);
+      return;
+    }
+    const hostname = await readAddress(reader, addressType);
+    const port = (await reader.read(2)).readUInt16BE(0);
+    const head = reader.detach();
+
+    if (command === CMD_UDP_ASSOCIATE && this.options.udp) {
+      await this.handleUdpAssociate(socket, user, port);
+      return;
+    }
+    if (command !== CMD_CONNECT) {
+      logger.warn(`⚠️  SOCKS5 不支持的命令 0x${command.toString(16)} (${socket.remoteAddress})`);
+      sendReply(socket, SocksReply.COMMAND_NOT_SUPPORTED);
+      return;
+    }
+
+    if (!isValidHostname(hostname) || port === 0) {
+      logger.error(`❌ SOCKS5 目标地址不正确: ${hostname}:${port}`);
+      sendReply(socket, SocksReply.GENERAL_FAILURE);
+      return;
+    }
+
+    // 客户端可能在收到回复之前就发送了数据，放回去由隧道读取
+    if (head.length > 0) {
+      socket.unshift(head);
+    }
+
+    let replied = false;
+    this.handlers.connect({
+      socket,
+      hostname,
+      port,
+      user,
+      reply: (code, bound) => {
+        if (replied) return;
+        replied = true;
+        sendReply(socket, code, bound);
+      }
+    });
+  }
+
+  /**
+   * UDP ASSOCIATE：为客户端分配一个UDP中继端口，随控制连接关闭
+   */
+  private async handleUdpAssociate(socket: net.Socket, user: string, clientPort: number): Promise<void> {
+    const localAddress = unmapIPv4(socket.localAddress || '0.0.0.0');
+    const clientAddress = unmapIPv4(socket.remoteAddress || '');
+    const relay = dgram.createSocket(net.isIPv6(localAddress) ? 'udp6' : 'udp4');
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        relay.once('error', reject);
+        // 集群模式下不与其他工作进程共享端口，否则中继数据包可能被分发到别的进程
+        relay.bind({ port: 0, address: localAddress, exclusive: true }, () => {
+          relay.removeListener('error', reject);
+          resolve();
+        });
+      });
+    } catch (error: any) {
+      logger.error(`❌ SOCKS5 UDP 中继绑定失败:`, error.message);
+      relay.close();
+      sendReply(socket, SocksReply.GENERAL_FAILURE);
+      return;
+    }
+
+    const bound = relay.address();
+    const portBuffer = Buffer.alloc(2);
+    portBuffer.writeUInt16BE(bound.port, 0);
+    socket.write(Buffer.concat([Buffer.from([0x05, SocksReply.SUCCEEDED, 0x00]), encodeSocks5Address(bound.address), portBuffer]));
+    logger.info(`🧦 SOCKS5 UDP ASSOCIATE ${bound.address}:${bound.port}${user ? ` [用户: ${user}]` : ''} - ${new Date().toISOString()}`);
+
+    // 客户端的UDP端点：请求中声明了端口就以它为准，否则取第一个来自客户端地址的数据包
+    let clientEndpoint: { address: string; port: number } | null =
+      clientPort > 0 ? { address: clientAddress, port: clientPort } : null;
+    // 已检查的目标，避免每个数据包都做访问控制
+    const targets: Map<string, dns.LookupAddress | null> = new Map();
+
+    const fromClient = (address: string, port: number) => {
+      if (unmapIPv4(address) !== clientAddress) return false;
+      if (!clientEndpoint) {
+        clientEndpoint = { address, port };
+      }
+      return clientEndpoint.port === port;
+    };
+
+    relay.on('message', (message, remote) => {
+      if (fromClient(remote.address, remote.port)) {
+        this.relayFromClient(relay, message, user, targets).catch((error: Error) => {
+          logger.warn(`⚠️  SOCKS5 UDP 转发失败: ${error.message}`);
+        });
+        return;
+      }
+
+      // 目标返回的数据包，加上来源地址头后交给客户端
+      if (clientEndpoint && targets.has(`${unmapIPv4(remote.address)}:${remote.port}`)) {
+        const portBuffer = Buffer.alloc(2);
+        portBuffer.writeUInt16BE(remote.port, 0);
+        const header = Buffer.concat([Buffer.from([0x00, 0x00, 0x00]), encodeSocks5Address(unmapIPv4(remote.address)), portBuffer]);
+        relay.send(Buffer.concat([header, message]), clientEndpoint.port, clientEndpoint.address);
+      }
+    });
+    relay.on('error', (error) => logger.error('❌ SOCKS5 UDP 中继错误:', error.message));
+
+    // 控制连接上不应再有数据，关闭时释放中继端口
+    socket.on('data', () => {});
+    socket.once('close', () => relay.close());
+    socket.resume();
+  }
+
+  private async relayFromClient(relay: dgram.Socket, message: Buffer, user: string,
+                                targets: Map<string, dns.LookupAddress | null>): Promise<void> {
+    const packet = parseUdpPacket(message);
+    // 不支持分片
+    if (!packet || packet.fragment !== 0 || !isValidHostname(packet.hostname) || packet.port === 0) return;
+
+    const key = `${packet.hostname}:${packet.port}`;
+    let target = targets.get(key);
+    if (target === undefined) {
+      target = this.handlers.resolveUdpTarget
+        ? await this.handlers.resolveUdpTarget(packet.hostname, packet.port, user)
+        : null;
+      if (targets.size >= UDP_TARGET_CACHE_SIZE) {
+        targets.delete(targets.keys().next().value!);
+      }
+      targets.set(key, target);
+      // 同时按解析后的地址记录，用于识别返回的数据包
+      if (target) {
+        targets.set(`${unmapIPv4(target.address)}:${packet.port}`, target);
+      }
+    }
+    if (!target) return;
+
+    // 中继只能发往与绑定地址同一族的目标
+    if (target.family !== (relay.address().family === 'IPv6' ? 6 : 4)) return;
+
+    relay.send(packet.data, packet.port, target.address);
+  }
+}
+
+/**
+ * 发送请求回复，失败时关闭连接
+ */
+function sendReply(socket: net.Socket, code: number, bound?: net.Socket | null): void {
+  if (socket.destroyed) return;
+
+  const address = bound && bound.localAddress ? unmapIPv4(bound.localAddress) : '0.0.0.0';
+  const portBuffer = Buffer.alloc(2);
+  portBuffer.writeUInt16BE(bound && bound.localPort ? bound.localPort : 0, 0);
+  const reply = Buffer.concat([Buffer.from([0x05, code, 0x00]), encodeSocks5Address(address), portBuffer]);
+
+  if (code === SocksReply.SUCCEEDED) {
+    socket.write(reply);
+  } else {
+    logger.info(`🧦 SOCKS5 回复失败: ${SOCKS5_REPLIES[code] || `0x${code.toString(16)}`}`);
+    socket.end(reply);
+  }
+}
+
+async function readAddress(reader: HandshakeReader, addressType: number): Promise<string> {
+  if (addressType === 0x01) {
+    return Array.from(await reader.read(4)).join('.');
+  }
+  if (addressType === 0x04) {
+    return formatIPv6(await reader.read(16));
+  }
+  const [length] = await reader.read(1);
+  return (await reader.read(length)).toString('utf8');
+}
+
+/**
+ * 解析UDP数据包头：RSV(2) FRAG(1) ATYP(1) DST.ADDR DST.PORT(2) DATA
+ */
+function parseUdpPacket(message: Buffer): { fragment: number; hostname: string; port: number; data: Buffer } | null {
+  if (message.length < 4) return null;
+
+  let offset = 4;
+  let hostname: string;
+  switch (message[3]) {
+    case 0x01:
+      if (message.length < offset + 6) return null;
+      hostname = Array.from(message.subarray(offset, offset + 4)).join('.');
+      offset += 4;
+      break;
+    case 0x04:
+      if (message.length < offset + 18) return null;
+      hostname = formatIPv6(message.subarray(offset, offset + 16));
+      offset += 16;
+      break;
+    case 0x03: {
+      const length = message[offset];
+      if (length === undefined || message.length < offset + 1 + length + 2) return null;
+      hostname = message.subarray(offset + 1, offset + 1 + length).toString('utf8');
+      offset += 1 + length;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return {
+    fragment: message[2],
+    hostname,
+    port: message.readUInt16BE(offset),
+    data: message.subarray(offset + 2)
+  };
+}
+
+function formatIPv6(buffer: Buffer): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(buffer.readUInt16BE(i).toString(16));
+  }
+  // 交给 URL 解析器压缩成标准形式
+  return new URL(`http://[${groups.join(':')}]/`).hostname.replace(/^\[|\]$/g, '');
+}
+
+function isValidHostname(hostname: string): boolean {
+  return net.isIP(hostname) !== 0 || (/^[a-zA-Z0-9.-]+$/.test(hostname) && hostname.length <= 253);
+}
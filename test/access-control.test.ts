@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AccessControl } from '../access-control';
+
+describe('AccessControl.isPrivate', () => {
+  const accessControl = new AccessControl();
+
+  it('识别私有、回环和链路本地地址', () => {
+    for (const address of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '192.168.1.1', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      assert.equal(accessControl.isPrivate(address), true, address);
+    }
+  });
+
+  it('识别 IPv4 兼容地址和 NAT64 地址', () => {
+    for (const address of ['::7f00:1', '::127.0.0.1', '::a9fe:a9fe', '64:ff9b::7f00:1', '64:ff9b::8.8.8.8']) {
+      assert.equal(accessControl.isPrivate(address), true, address);
+    }
+  });
+
+  it('公网地址不受影响', () => {
+    for (const address of ['8.8.8.8', '2001:4860:4860::8888', '::1:0:0:1', '64:ff9b:0:0:1::1']) {
+      assert.equal(accessControl.isPrivate(address), false, address);
+    }
+  });
+});
+
+describe('AccessControl.evaluate', () => {
+  it('解析到 IPv4 兼容地址或 NAT64 地址的目标按私有网段拒绝', () => {
+    const accessControl = new AccessControl();
+    for (const address of ['::7f00:1', '64:ff9b::a00:1']) {
+      const decision = accessControl.evaluate('example.com', 443, [{ address, family: 6 }]);
+      assert.equal(decision.allowed, false, address);
+      assert.equal(decision.ruleId, 'private-network');
+    }
+  });
+
+  it('关闭 blockPrivateNetworks 后允许', () => {
+    const accessControl = new AccessControl({ blockPrivateNetworks: false });
+    assert.equal(accessControl.evaluate('example.com', 443, [{ address: '::7f00:1', family: 6 }]).allowed, true);
+  });
+});
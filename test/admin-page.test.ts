@@ -0,0 +1,83 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as http2 from 'http2';
+import * as https from 'https';
+import * as net from 'net';
+import { checkAdminAccess } from '../admin-page';
+import { CertificateAuthority } from '../cert-authority';
+
+describe('checkAdminAccess', () => {
+  let server: http2.Http2SecureServer;
+  let authority: string;
+  let caPem: string;
+  let adminToken: string | null = null;
+
+  before(async () => {
+    const ca = CertificateAuthority.generate();
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    caPem = ca.certPem;
+
+    // 与代理一样同时接受 HTTP/1.1 和 HTTP/2 请求，返回检查结果
+    server = http2.createSecureServer({
+      allowHTTP1: true,
+      key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      cert: new CertificateAuthority(ca.certPem, ca.keyPem).issue(['127.0.0.1'], publicKey.export({ type: 'spki', format: 'pem' }).toString())
+    }, (req, res) => {
+      res.end(JSON.stringify({ denied: checkAdminAccess(req, adminToken) }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    authority = `127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  function h2Request(headers: http2.OutgoingHttpHeaders): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const session = http2.connect(`https://${authority}`, { ca: caPem });
+      session.on('error', reject);
+      const stream = session.request({ ':path': '/admin/api/connections', ...headers });
+      let body = '';
+      stream.setEncoding('utf8');
+      stream.on('data', (chunk: string) => body += chunk);
+      stream.on('end', () => {
+        session.close();
+        resolve(JSON.parse(body).denied);
+      });
+      stream.on('error', reject);
+    });
+  }
+
+  function h1Request(headers: Record<string, string>): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      https.get(`https://${authority}/admin/api/connections`, { headers, ca: caPem, agent: false }, (res) => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => body += chunk);
+        res.on('end', () => resolve(JSON.parse(body).denied));
+      }).on('error', reject);
+    });
+  }
+
+  it('HTTP/2 请求用 :authority 检查同站的 Origin', async () => {
+    assert.equal(await h2Request({ ':method': 'DELETE', origin: `https://${authority}` }), null);
+    assert.equal(await h2Request({ ':method': 'DELETE', origin: 'http://evil.example' }), '不允许跨站请求');
+  });
+
+  it('HTTP/1.1 请求用 Host 检查 Origin', async () => {
+    assert.equal(await h1Request({ origin: `https://${authority}` }), null);
+    assert.equal(await h1Request({ origin: 'http://evil.example' }), '不允许跨站请求');
+    assert.equal(await h1Request({ origin: 'null' }), '不允许跨站请求');
+  });
+
+  it('配置了令牌时校验 Authorization: Bearer', async () => {
+    adminToken = 'secret';
+    try {
+      assert.equal(await h2Request({}), '管理令牌无效');
+      assert.equal(await h2Request({ authorization: 'Bearer wrong!' }), '管理令牌无效');
+      assert.equal(await h2Request({ authorization: 'Bearer secret', origin: `https://${authority}` }), null);
+    } finally {
+      adminToken = null;
+    }
+  });
+});
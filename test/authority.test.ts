@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseAuthority, parseHostname } from '../authority';
+
+describe('parseAuthority', () => {
+  it('解析域名和端口，域名转换为小写', () => {
+    assert.deepEqual(parseAuthority('Example.COM:443'), { hostname: 'example.com', port: 443 });
+    assert.deepEqual(parseAuthority('192.0.2.1:8080'), { hostname: '192.0.2.1', port: 8080 });
+  });
+
+  it('带方括号的IPv6地址压缩为标准形式', () => {
+    assert.deepEqual(parseAuthority('[2001:DB8:0:0::1]:443'), { hostname: '2001:db8::1', port: 443 });
+    assert.deepEqual(parseAuthority('[::ffff:192.0.2.1]:80'), { hostname: '::ffff:c000:201', port: 80 });
+  });
+
+  it('没有端口时使用 defaultPort，没有默认值时报错', () => {
+    assert.deepEqual(parseAuthority('[2001:db8::1]', 443), { hostname: '2001:db8::1', port: 443 });
+    assert.deepEqual(parseAuthority('example.com', 80), { hostname: 'example.com', port: 80 });
+    assert.throws(() => parseAuthority('[2001:db8::1]'), /缺少端口/);
+    assert.throws(() => parseAuthority('example.com'), /缺少端口/);
+  });
+
+  it('拒绝没有方括号的IPv6地址', () => {
+    assert.throws(() => parseAuthority('2001:db8::1:443'), /IPv6地址需要用方括号括起来/);
+    assert.throws(() => parseAuthority('::1', 443), /IPv6地址需要用方括号括起来/);
+  });
+
+  it('拒绝格式不正确的方括号地址、区域标识和 IPvFuture', () => {
+    assert.throws(() => parseAuthority('[2001:db8::1:443'), /IPv6地址格式不正确/);
+    assert.throws(() => parseAuthority('[192.0.2.1]:443'), /IPv6地址格式不正确/);
+    assert.throws(() => parseAuthority('[fe80::1%25eth0]:443'), /IPv6地址格式不正确/);
+    assert.throws(() => parseAuthority('[fe80::1%eth0]:443'), /IPv6地址格式不正确/);
+    assert.throws(() => parseAuthority('[v1.fe80::1]:443'), /IPv6地址格式不正确/);
+    assert.throws(() => parseAuthority('[2001:db8::1]x:443'), /IPv6地址格式不正确/);
+  });
+
+  it('拒绝用户信息，且不在错误信息中回显', () => {
+    assert.throws(() => parseAuthority('alice:secret@example.com:443'), (error: Error) => {
+      assert.match(error.message, /不能包含用户信息/);
+      assert.ok(!error.message.includes('secret'));
+      return true;
+    });
+    assert.throws(() => parseAuthority('alice@[2001:db8::1]:443'), /不能包含用户信息/);
+  });
+
+  it('端口必须在 1-65535 之间且只能是数字', () => {
+    assert.deepEqual(parseAuthority('example.com:65535'), { hostname: 'example.com', port: 65535 });
+    assert.deepEqual(parseAuthority('example.com:00443'), { hostname: 'example.com', port: 443 });
+    for (const port of ['0', '65536', '99999', '123456', '', 'https', '+443', '-1', '44 3', '0x1bb']) {
+      assert.throws(() => parseAuthority(`example.com:${port}`), /无效的端口/, port);
+    }
+    assert.throws(() => parseAuthority('[2001:db8::1]:0'), /无效的端口/);
+    assert.throws(() => parseAuthority('[2001:db8::1]:'), /无效的端口/);
+  });
+
+  it('拒绝空的目标和空的主机名', () => {
+    assert.throws(() => parseAuthority(''), /目标地址为空/);
+    assert.throws(() => parseAuthority(':443'), /域名格式不正确/);
+    assert.throws(() => parseAuthority('[]:443'), /IPv6地址格式不正确/);
+  });
+
+  it('国际化域名转换为 punycode', () => {
+    assert.deepEqual(parseAuthority('b%C3%BCcher.example:443'), { hostname: 'xn--bcher-kva.example', port: 443 });
+    assert.deepEqual(parseAuthority('BÜCHER.example:443'), { hostname: 'xn--bcher-kva.example', port: 443 });
+  });
+});
+
+describe('parseHostname', () => {
+  it('IPv4地址原样返回', () => {
+    assert.equal(parseHostname('192.0.2.1'), '192.0.2.1');
+  });
+
+  it('百分号编码和 Unicode 的国际化域名转换为 punycode', () => {
+    assert.equal(parseHostname('b%C3%BCcher.example'), 'xn--bcher-kva.example');
+    assert.equal(parseHostname('bücher.example'), 'xn--bcher-kva.example');
+    assert.equal(parseHostname('例子.测试'), 'xn--fsqu00a.xn--0zwm56d');
+    assert.equal(parseHostname('xn--bcher-kva.example'), 'xn--bcher-kva.example');
+  });
+
+  it('拒绝无效的百分号编码和不能转换的 Unicode', () => {
+    assert.throws(() => parseHostname('b%C3cher.example'), /域名格式不正确/);
+    assert.throws(() => parseHostname('bad%zz.example'), /域名格式不正确/);
+    assert.throws(() => parseHostname('a b.example'), /域名格式不正确/);
+    assert.throws(() => parseHostname('%2F%2Fexample.com'), /域名格式不正确/);
+  });
+
+  it('保留表示完整域名的结尾点', () => {
+    assert.equal(parseHostname('Example.com.'), 'example.com.');
+    assert.throws(() => parseHostname('.'), /域名格式不正确/);
+    assert.throws(() => parseHostname('example.com..'), /域名格式不正确/);
+  });
+
+  it('拒绝空标签和非法字符', () => {
+    for (const host of ['', '.example.com', 'a..b', '-a.example', 'a-.example', 'a_b.example', 'a b.example', 'exa/mple']) {
+      assert.throws(() => parseHostname(host), /域名格式不正确/, host);
+    }
+  });
+
+  it('标签最长63个字符，域名最长253个字符', () => {
+    const label63 = 'a'.repeat(63);
+    assert.equal(parseHostname(`${label63}.example`), `${label63}.example`);
+    assert.throws(() => parseHostname(`${'a'.repeat(64)}.example`), /域名格式不正确/);
+
+    const name253 = [label63, label63, label63, 'a'.repeat(61)].join('.');
+    assert.equal(name253.length, 253);
+    assert.equal(parseHostname(name253), name253);
+    assert.equal(parseHostname(`${name253}.`), `${name253}.`);
+    assert.throws(() => parseHostname(`${name253}a`), /域名格式不正确/);
+  });
+});
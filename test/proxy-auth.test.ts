@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { ProxyAuthenticator } from '../proxy-auth';
+
+const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+describe('ProxyAuthenticator', () => {
+  const hash = bcrypt.hashSync('secret', 8);
+  const authenticator = new ProxyAuthenticator({
+    users: [
+      { username: 'alice', password: hash },
+      { username: 'carol', password: hash.replace(/^\$2b\$/, '$2y$') },
+      { username: 'bob', password: 'plain' }
+    ]
+  });
+
+  it('校验 bcrypt 和明文密码', async () => {
+    assert.equal(await authenticator.authenticate(basic('alice:secret')), 'alice');
+    assert.equal(await authenticator.authenticate(basic('carol:secret')), 'carol');
+    assert.equal(await authenticator.authenticate(basic('bob:plain')), 'bob');
+    assert.equal(await authenticator.authenticate(basic('alice:wrong')), null);
+    assert.equal(await authenticator.authenticate(basic('nobody:secret')), null);
+    assert.equal(await authenticator.authenticate(undefined), null);
+    assert.equal(await authenticator.authenticateCredentials('bob', 'plain'), 'bob');
+  });
+
+  it('bcrypt 校验期间不阻塞事件循环', async () => {
+    let ticked = false;
+    setImmediate(() => { ticked = true; });
+    assert.equal(await authenticator.authenticate(basic('alice:other')), null);
+    assert.ok(ticked);
+  });
+});
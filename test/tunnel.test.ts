@@ -0,0 +1,377 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import * as tls from 'tls';
+import { CertificateAuthority } from '../cert-authority';
+import { HandshakeReader, Tunnel, TunnelError, openTunnel } from '../tunnel';
+
+type Handler = (socket: net.Socket, reader: HandshakeReader) => Promise<void> | void;
+
+interface Stub {
+  url: (scheme: string, userinfo?: string) => string;
+  close: () => Promise<void>;
+}
+
+/**
+ * 启动模拟的上游代理，handler 用 HandshakeReader 读取客户端的握手
+ */
+function startStub(handler: Handler, secure?: tls.SecureContextOptions): Promise<Stub> {
+  const sockets = new Set<net.Socket>();
+  const onConnection = (socket: net.Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => {});
+    Promise.resolve(handler(socket, new HandshakeReader(socket, 5000, '客户端'))).catch(() => socket.destroy());
+  };
+  const server = secure ? tls.createServer(secure, onConnection) : net.createServer(onConnection);
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        url: (scheme, userinfo) => `${scheme}://${userinfo ? `${userinfo}@` : ''}127.0.0.1:${port}`,
+        close: () => new Promise((done) => {
+          sockets.forEach(socket => socket.destroy());
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+/**
+ * 握手完成后把隧道中的数据原样发回
+ */
+function echo(socket: net.Socket, reader: HandshakeReader): void {
+  const rest = reader.detach();
+  if (rest.length > 0) socket.write(rest);
+  socket.on('data', (chunk: Buffer) => socket.write(chunk));
+  socket.resume();
+}
+
+/**
+ * 通过隧道发送数据并读取对端的回应
+ */
+function roundTrip(tunnel: Tunnel, data: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    tunnel.socket.once('data', (chunk: Buffer) => resolve(chunk.toString()));
+    tunnel.socket.once('error', reject);
+    // detach 之后 socket 保持暂停，需要显式恢复
+    tunnel.socket.resume();
+    tunnel.socket.write(data);
+  });
+}
+
+async function withStub<T>(handler: Handler, run: (stub: Stub) => Promise<T>, secure?: tls.SecureContextOptions): Promise<T> {
+  const stub = await startStub(handler, secure);
+  try {
+    return await run(stub);
+  } finally {
+    await stub.close();
+  }
+}
+
+function socks5Reply(code: number): Buffer {
+  return Buffer.from([0x05, code, 0x00, 0x01, 127, 0, 0, 1, 0x04, 0x38]);
+}
+
+describe('openTunnel: HTTP CONNECT', () => {
+  it('发送CONNECT和认证头，返回200后多读到的数据放在 head 中', async () => {
+    let request = '';
+    await withStub(async (socket, reader) => {
+      request = (await reader.readUntil('\r\n\r\n')).toString();
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\nhello');
+      echo(socket, reader);
+    }, async (stub) => {
+      const tunnel = await openTunnel(stub.url('http', 'alice:p%40ss'), 'example.com', 443);
+      assert.equal(tunnel.head.toString(), 'hello');
+      assert.equal(await roundTrip(tunnel, 'ping'), 'ping');
+      tunnel.socket.destroy();
+    });
+
+    assert.match(request, /^CONNECT example\.com:443 HTTP\/1\.1\r\nHost: example\.com:443\r\n/);
+    assert.ok(request.includes(`Proxy-Authorization: Basic ${Buffer.from('alice:p@ss').toString('base64')}\r\n`));
+  });
+
+  it('IPv6目标使用方括号形式的authority', async () => {
+    let request = '';
+    await withStub(async (socket, reader) => {
+      request = (await reader.readUntil('\r\n\r\n')).toString();
+      socket.write('HTTP/1.1 200 OK\r\n\r\n');
+    }, async (stub) => {
+      const tunnel = await openTunnel(stub.url('http'), '2001:db8::1', 8443);
+      assert.equal(tunnel.head.length, 0);
+      tunnel.socket.destroy();
+    });
+
+    assert.match(request, /^CONNECT \[2001:db8::1\]:8443 HTTP\/1\.1\r\n/);
+    assert.ok(!request.includes('Proxy-Authorization'));
+  });
+
+  it('上游要求认证时失败', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.readUntil('\r\n\r\n');
+      socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic\r\n\r\n');
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('http', 'alice:wrong'), 'example.com', 443), (error: any) => {
+        assert.ok(error instanceof TunnelError);
+        assert.equal(error.status, '502 Bad Gateway');
+        assert.match(error.message, /407 Proxy Authentication Required/);
+        return true;
+      });
+    });
+  });
+
+  it('响应不是HTTP时失败', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.readUntil('\r\n\r\n');
+      socket.write('SSH-2.0-OpenSSH\r\n\r\n');
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('http'), 'example.com', 443), /上游代理响应格式错误/);
+    });
+  });
+
+  it('握手期间断开连接时失败', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.readUntil('\r\n\r\n');
+      socket.destroy();
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('http'), 'example.com', 443), /上游代理在握手期间关闭了连接/);
+    });
+  });
+
+  it('上游没有响应时返回504', async () => {
+    await withStub(() => {}, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('http'), 'example.com', 443, { timeout: 200 }), (error: any) => {
+        assert.equal(error.status, '504 Gateway Timeout');
+        return true;
+      });
+    });
+  });
+});
+
+describe('openTunnel: HTTPS CONNECT', () => {
+  let secure: tls.SecureContextOptions;
+
+  before(() => {
+    const ca = CertificateAuthority.generate();
+    const authority = new CertificateAuthority(ca.certPem, ca.keyPem);
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    secure = {
+      key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      cert: authority.issue(['127.0.0.1'], publicKey.export({ type: 'spki', format: 'pem' }).toString())
+    };
+  });
+
+  const connectHandler: Handler = async (socket, reader) => {
+    await reader.readUntil('\r\n\r\n');
+    socket.write('HTTP/1.1 200 Connection Established\r\n\r\nhello');
+    echo(socket, reader);
+  };
+
+  it('通过TLS连接上游后建立隧道', async () => {
+    await withStub(connectHandler, async (stub) => {
+      const tunnel = await openTunnel(stub.url('https'), 'example.com', 443, { rejectUnauthorized: false });
+      assert.ok(tunnel.socket instanceof tls.TLSSocket);
+      assert.equal(tunnel.head.toString(), 'hello');
+      assert.equal(await roundTrip(tunnel, 'ping'), 'ping');
+      tunnel.socket.destroy();
+    }, secure);
+  });
+
+  it('默认校验上游证书', async () => {
+    await withStub(connectHandler, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('https'), 'example.com', 443), (error: any) => {
+        assert.ok(error instanceof TunnelError);
+        assert.match(error.message, /certificate/);
+        return true;
+      });
+    }, secure);
+  });
+});
+
+describe('openTunnel: SOCKS4', () => {
+  it('SOCKS4a 把域名交给上游解析', async () => {
+    let request: Buffer = Buffer.alloc(0);
+    await withStub(async (socket, reader) => {
+      request = Buffer.concat([await reader.read(8), await reader.readUntil('\0'), await reader.readUntil('\0')]);
+      socket.write(Buffer.concat([Buffer.from([0x00, 0x5a, 0, 0, 0, 0, 0, 0]), Buffer.from('hello')]));
+      echo(socket, reader);
+    }, async (stub) => {
+      const tunnel = await openTunnel(stub.url('socks4a', 'bob'), 'example.com', 443);
+      assert.equal(tunnel.head.toString(), 'hello');
+      assert.equal(await roundTrip(tunnel, 'ping'), 'ping');
+      tunnel.socket.destroy();
+    });
+
+    assert.deepEqual(request, Buffer.concat([
+      Buffer.from([0x04, 0x01, 0x01, 0xbb, 0, 0, 0, 1]),
+      Buffer.from('bob\0example.com\0')
+    ]));
+  });
+
+  it('SOCKS4 使用 resolve 在本地解析IPv4地址', async () => {
+    let request: Buffer = Buffer.alloc(0);
+    await withStub(async (socket, reader) => {
+      request = Buffer.concat([await reader.read(8), await reader.readUntil('\0')]);
+      socket.write(Buffer.from([0x00, 0x5a, 0, 0, 0, 0, 0, 0]));
+    }, async (stub) => {
+      const resolve = async () => [{ address: '2001:db8::1', family: 6 }, { address: '192.0.2.7', family: 4 }];
+      const tunnel = await openTunnel(stub.url('socks4'), 'example.com', 80, { resolve });
+      tunnel.socket.destroy();
+    });
+
+    assert.deepEqual(request, Buffer.from([0x04, 0x01, 0x00, 0x50, 192, 0, 2, 7, 0x00]));
+  });
+
+  it('上游拒绝时失败', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.read(8);
+      socket.write(Buffer.from([0x00, 0x5b, 0, 0, 0, 0, 0, 0]));
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('socks4a'), '192.0.2.1', 443), /SOCKS4上游拒绝连接 \(0x5b\)/);
+    });
+  });
+});
+
+describe('openTunnel: SOCKS5', () => {
+  it('用户名密码认证并把域名交给上游解析（socks5h）', async () => {
+    const received: Buffer[] = [];
+    await withStub(async (socket, reader) => {
+      received.push(await reader.read(4));
+      socket.write(Buffer.from([0x05, 0x02]));
+      const [, userLength] = await reader.read(2);
+      const user = await reader.read(userLength);
+      const [passLength] = await reader.read(1);
+      received.push(user, await reader.read(passLength));
+      socket.write(Buffer.from([0x01, 0x00]));
+      received.push(await reader.read(4 + 1 + 'example.com'.length + 2));
+      socket.write(Buffer.concat([socks5Reply(0x00), Buffer.from('hello')]));
+      echo(socket, reader);
+    }, async (stub) => {
+      const tunnel = await openTunnel(stub.url('socks5h', 'alice:secret'), 'example.com', 443);
+      assert.equal(tunnel.head.toString(), 'hello');
+      assert.equal(await roundTrip(tunnel, 'ping'), 'ping');
+      tunnel.socket.destroy();
+    });
+
+    assert.deepEqual(received[0], Buffer.from([0x05, 0x02, 0x00, 0x02]));
+    assert.equal(received[1].toString(), 'alice');
+    assert.equal(received[2].toString(), 'secret');
+    assert.deepEqual(received[3], Buffer.concat([
+      Buffer.from([0x05, 0x01, 0x00, 0x03, 'example.com'.length]),
+      Buffer.from('example.com'),
+      Buffer.from([0x01, 0xbb])
+    ]));
+  });
+
+  it('socks5 使用 resolve 在本地解析目标', async () => {
+    let request: Buffer = Buffer.alloc(0);
+    await withStub(async (socket, reader) => {
+      await reader.read(3);
+      socket.write(Buffer.from([0x05, 0x00]));
+      request = await reader.read(4 + 16 + 2);
+      socket.write(socks5Reply(0x00));
+    }, async (stub) => {
+      const resolve = async () => [{ address: '2001:db8::1', family: 6 }];
+      const tunnel = await openTunnel(stub.url('socks5'), 'example.com', 443, { resolve });
+      tunnel.socket.destroy();
+    });
+
+    assert.deepEqual(request.subarray(0, 4), Buffer.from([0x05, 0x01, 0x00, 0x04]));
+    assert.deepEqual(request.subarray(4, 20), Buffer.from('20010db8000000000000000000000001', 'hex'));
+  });
+
+  it('认证失败', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.read(4);
+      socket.write(Buffer.from([0x05, 0x02]));
+      await reader.read(2 + 'alice'.length + 1 + 'wrong'.length);
+      socket.write(Buffer.from([0x01, 0x01]));
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('socks5h', 'alice:wrong'), 'example.com', 443), /SOCKS5上游认证失败/);
+    });
+  });
+
+  it('上游要求认证但没有配置用户名', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.read(3);
+      socket.write(Buffer.from([0x05, 0xff]));
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('socks5h'), 'example.com', 443), /SOCKS5上游没有可接受的认证方式/);
+    });
+  });
+
+  it('上游拒绝连接时返回对应的原因', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.read(3);
+      socket.write(Buffer.from([0x05, 0x00]));
+      await reader.read(4 + 4 + 2);
+      socket.write(socks5Reply(0x05));
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('socks5h'), '192.0.2.1', 443), /SOCKS5上游连接失败: 连接被拒绝/);
+    });
+  });
+
+  it('不是SOCKS5服务器时失败', async () => {
+    await withStub(async (socket, reader) => {
+      await reader.read(3);
+      socket.write('HTTP/1.1 400 Bad Request\r\n\r\n');
+    }, async (stub) => {
+      await assert.rejects(openTunnel(stub.url('socks5h'), 'example.com', 443), /上游代理不是SOCKS5服务器/);
+    });
+  });
+});
+
+describe('HandshakeReader', () => {
+  let server: net.Server;
+  let port: number;
+  let serverSocket: Promise<net.Socket>;
+
+  before(async () => {
+    server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  async function connect(): Promise<{ client: net.Socket; peer: net.Socket; reader: HandshakeReader }> {
+    serverSocket = new Promise(resolve => server.once('connection', resolve));
+    const client = net.connect(port, '127.0.0.1');
+    const reader = new HandshakeReader(client, 1000);
+    await reader.ready('connect');
+    return { client, peer: await serverSocket, reader };
+  }
+
+  it('按长度和分隔符读取分段到达的数据，detach 返回剩余数据', async () => {
+    const { client, peer, reader } = await connect();
+    const first = reader.read(3);
+    peer.write('ab');
+    setTimeout(() => peer.write('cdef\r\n\r\nrest'), 20);
+    assert.equal((await first).toString(), 'abc');
+    assert.equal((await reader.readUntil('\r\n\r\n')).toString(), 'def\r\n\r\n');
+    assert.equal(reader.detach().toString(), 'rest');
+    assert.ok(client.isPaused());
+    client.destroy();
+    peer.destroy();
+  });
+
+  it('响应头超过16KB时失败', async () => {
+    const { client, peer, reader } = await connect();
+    const pending = reader.readUntil('\r\n\r\n');
+    peer.write(Buffer.alloc(17 * 1024, 'a'));
+    await assert.rejects(pending, /上游代理响应头过大/);
+    client.destroy();
+    peer.destroy();
+  });
+
+  it('连接关闭后之后的读取都失败', async () => {
+    const { client, peer, reader } = await connect();
+    peer.destroy();
+    await assert.rejects(reader.read(1), /上游代理在握手期间关闭了连接/);
+    await assert.rejects(reader.read(1), /上游代理在握手期间关闭了连接/);
+    client.destroy();
+  });
+});
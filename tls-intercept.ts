@@ -0,0 +1,138 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tls from 'tls';
+import { CertificateAuthority } from './cert-authority';
+import { HostPatternList } from './host-pattern';
+import { logger } from './logger';
+
+export interface InterceptOptions {
+  // 需要解密的目标（域名、通配域名、IP/CIDR），不填则解密所有CONNECT隧道
+  hosts?: string[];
+  // 只解密这些端口，不填则不限制端口
+  ports?: number[];
+  // 签发证书用的CA，默认 certs/ca.crt 和 certs/ca.key
+  caCertFile?: string;
+  caKeyFile?: string;
+  // 内存中缓存的证书数量（默认500，LRU淘汰）
+  cacheSize?: number;
+  // 证书磁盘缓存目录，重启后复用已签发的证书
+  cacheDir?: string;
+}
+
+export interface LeafCertificate {
+  key: string;
+  cert: string;
+  context: tls.SecureContext;
+}
+
+// 磁盘缓存的证书剩余有效期少于该值时重新签发
+const MIN_CACHED_VALIDITY = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * TLS 解密（MITM）：判断哪些目标需要解密，并为 SNI 签发/缓存叶子证书
+ */
+export class TlsInterceptor {
+  private ca: CertificateAuthority;
+  private hosts: HostPatternList;
+  private ports: number[] | null;
+  private cacheSize: number;
+  private cacheDir: string | null;
+  private cache: Map<string, LeafCertificate> = new Map();
+  // 所有叶子证书共用一个密钥，只需要为每个主机名签名
+  private leafKey: string;
+  private leafPublicKey: string;
+
+  constructor(options: InterceptOptions, defaults: { caCertFile: string; caKeyFile: string }) {
+    this.ca = CertificateAuthority.fromFiles(options.caCertFile || defaults.caCertFile, options.caKeyFile || defaults.caKeyFile);
+    this.hosts = new HostPatternList(options.hosts);
+    this.ports = options.ports && options.ports.length > 0 ? options.ports : null;
+    this.cacheSize = options.cacheSize || 500;
+    this.cacheDir = options.cacheDir || null;
+
+    if (this.cacheDir) {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+    this.leafKey = this.loadLeafKey();
+    this.leafPublicKey = crypto.createPublicKey(this.leafKey).export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  public shouldIntercept(hostname: string, port: number): boolean {
+    return (this.ports === null || this.ports.includes(port)) && (this.hosts.isEmpty || this.hosts.matchHost(hostname));
+  }
+
+  /**
+   * 获取主机名对应的叶子证书：内存缓存 -> 磁盘缓存 -> 现场签发
+   */
+  public getCertificate(hostname: string): LeafCertificate {
+    const name = hostname.toLowerCase();
+    const cached = this.cache.get(name);
+    if (cached) {
+      // 重新插入，保持LRU顺序
+      this.cache.delete(name);
+      this.cache.set(name, cached);
+      return cached;
+    }
+
+    const certPem = this.readCachedCertificate(name) || this.issueCertificate(name);
+    const leaf: LeafCertificate = {
+      key: this.leafKey,
+      cert: certPem,
+      context: tls.createSecureContext({ key: this.leafKey, cert: certPem })
+    };
+
+    this.cache.set(name, leaf);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return leaf;
+  }
+
+  private issueCertificate(hostname: string): string {
+    const startTime = Date.now();
+    const certPem = this.ca.issue(hostname, this.leafPublicKey);
+    logger.info(`📜 [MITM] 已签发证书 ${hostname} (${Date.now() - startTime}ms)`);
+
+    if (this.cacheDir) {
+      try {
+        fs.writeFileSync(this.cacheFile(hostname), certPem);
+      } catch (error: any) {
+        logger.warn(`⚠️  [MITM] 写入证书缓存失败 ${hostname}:`, error.message);
+      }
+    }
+    return certPem;
+  }
+
+  private readCachedCertificate(hostname: string): string | null {
+    if (!this.cacheDir) return null;
+
+    try {
+      const certPem = fs.readFileSync(this.cacheFile(hostname), 'utf8');
+      // CA更换或即将过期的证书不再使用
+      return this.ca.isValidIssued(certPem, MIN_CACHED_VALIDITY) ? certPem : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private cacheFile(hostname: string): string {
+    return path.join(this.cacheDir!, `${hostname.replace(/[^a-z0-9.-]/gi, '_')}.crt`);
+  }
+
+  /**
+   * 叶子证书密钥：有磁盘缓存时持久化，保证缓存的证书和密钥匹配
+   */
+  private loadLeafKey(): string {
+    const keyFile = this.cacheDir ? path.join(this.cacheDir, 'leaf.key') : null;
+    if (keyFile && fs.existsSync(keyFile)) {
+      return fs.readFileSync(keyFile, 'utf8');
+    }
+
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const keyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    if (keyFile) {
+      fs.writeFileSync(keyFile, keyPem, { mode: 0o600 });
+    }
+    return keyPem;
+  }
+}
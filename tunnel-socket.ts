@@ -0,0 +1,14 @@
+import { Duplex } from 'stream';
+
+/**
+ * 隧道代码用到的客户端socket成员：net.Socket、HTTP/2 的CONNECT流和解密隧道的内存socket都实现了这些成员，
+ * 隧道相关的函数按这个接口使用socket，用到其他 net.Socket 成员时编译器会报错
+ */
+export interface TunnelSocket extends Duplex {
+  readonly remoteAddress?: string;
+  readonly remotePort?: number;
+  readonly readyState: string;
+  setTimeout(timeout: number, callback?: () => void): this;
+  setKeepAlive(enable?: boolean, initialDelay?: number): this;
+  setNoDelay(noDelay?: boolean): this;
+}
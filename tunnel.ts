@@ -0,0 +1,384 @@
+import * as dns from 'dns';
+import * as net from 'net';
+import * as tls from 'tls';
+
+export interface TunnelOptions {
+  // 建立隧道（包括握手）的超时时间，默认30秒
+  timeout?: number;
+  // 是否校验 HTTPS 上游代理的证书，默认校验
+  rejectUnauthorized?: boolean;
+  // SOCKS4 和 SOCKS5（非 socks5h）在本地解析目标时使用，默认使用系统解析
+  resolve?: (host: string) => Promise<dns.LookupAddress[]>;
+}
+
+/**
+ * 通过上游代理建立的原始隧道，head 是握手之后已经收到的目标数据
+ */
+export interface Tunnel {
+  socket: net.Socket;
+  head: Buffer;
+}
+
+/**
+ * 建立隧道失败，status 是应该返回给客户端的状态
+ */
+export class TunnelError extends Error {
+  public readonly status: string;
+
+  constructor(message: string, status: string = '502 Bad Gateway') {
+    super(message);
+    this.name = 'TunnelError';
+    this.status = status;
+  }
+}
+
+export const SOCKS5_REPLIES: Record<number, string> = {
+  0x01: '一般性失败',
+  0x02: '规则不允许连接',
+  0x03: '网络不可达',
+  0x04: '主机不可达',
+  0x05: '连接被拒绝',
+  0x06: 'TTL过期',
+  0x07: '不支持的命令',
+  0x08: '不支持的地址类型'
+};
+
+/**
+ * 通过上游代理建立到 host:port 的原始TCP隧道
+ * 支持 HTTP CONNECT、HTTPS CONNECT（TLS到上游）、SOCKS4/4a、SOCKS5/5h（用户名密码认证）
+ */
+export async function openTunnel(upstream: string, host: string, port: number, options: TunnelOptions = {}): Promise<Tunnel> {
+  const upstreamUrl = new URL(upstream);
+  const protocol = upstreamUrl.protocol.replace(/:$/, '');
+  const upstreamHost = upstreamUrl.hostname.replace(/^\[|\]$/g, '');
+  const upstreamPort = parseInt(upstreamUrl.port || defaultPort(protocol), 10);
+  const username = decodeURIComponent(upstreamUrl.username);
+  const password = decodeURIComponent(upstreamUrl.password);
+
+  const socket = protocol === 'https'
+    ? tls.connect({
+        host: upstreamHost,
+        port: upstreamPort,
+        servername: net.isIP(upstreamHost) ? undefined : upstreamHost,
+        rejectUnauthorized: options.rejectUnauthorized !== false,
+        ALPNProtocols: ['http/1.1']
+      })
+    : net.connect({ host: upstreamHost, port: upstreamPort });
+
+  const reader = new HandshakeReader(socket, options.timeout || 30000);
+
+  try {
+    await reader.ready(protocol === 'https' ? 'secureConnect' : 'connect');
+
+    switch (protocol) {
+      case 'http':
+      case 'https':
+        await httpConnect(socket, reader, host, port, username, password);
+        break;
+      case 'socks4':
+        await socks4Connect(socket, reader, await resolveIPv4(host, options.resolve), port, username);
+        break;
+      case 'socks4a':
+        await socks4Connect(socket, reader, host, port, username);
+        break;
+      case 'socks5':
+        await socks5Connect(socket, reader, await resolveLocally(host, options.resolve), port, username, password);
+        break;
+      case 'socks':
+      case 'socks5h':
+        await socks5Connect(socket, reader, host, port, username, password);
+        break;
+      default:
+        throw new TunnelError(`不支持的上游代理协议: ${upstreamUrl.protocol}`);
+    }
+  } catch (error) {
+    reader.detach();
+    socket.destroy();
+    throw error instanceof TunnelError ? error : new TunnelError((error as Error).message);
+  }
+
+  return { socket, head: reader.detach() };
+}
+
+/**
+ * 日志中隐藏上游代理地址里的密码
+ */
+export function describeUpstream(upstream: string): string {
+  try {
+    const upstreamUrl = new URL(upstream);
+    if (upstreamUrl.password) {
+      upstreamUrl.password = '***';
+    }
+    return upstreamUrl.href.replace(/\/$/, '');
+  } catch (error) {
+    return upstream;
+  }
+}
+
+function defaultPort(protocol: string): string {
+  switch (protocol) {
+    case 'http': return '80';
+    case 'https': return '443';
+    default: return '1080';
+  }
+}
+
+async function httpConnect(socket: net.Socket, reader: HandshakeReader, host: string, port: number,
+                           username: string, password: string): Promise<void> {
+  const authority = net.isIPv6(host) ? `[${host}]:${port}` : `${host}:${port}`;
+  let request = `CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\n`;
+  if (username) {
+    request += `Proxy-Authorization: Basic ${Buffer.from(`${username}:${password}`).toString('base64')}\r\n`;
+  }
+  socket.write(`${request}\r\n`);
+
+  const response = (await reader.readUntil('\r\n\r\n')).toString('latin1');
+  const statusLine = response.slice(0, response.indexOf('\r\n'));
+  const match = /^HTTP\/1\.[01] (\d{3})/.exec(statusLine);
+  if (!match) {
+    throw new TunnelError(`上游代理响应格式错误: ${statusLine}`);
+  }
+  if (match[1] !== '200') {
+    throw new TunnelError(`上游代理拒绝CONNECT: ${statusLine}`);
+  }
+}
+
+async function socks4Connect(socket: net.Socket, reader: HandshakeReader, host: string, port: number,
+                             userId: string): Promise<void> {
+  const portBuffer = Buffer.alloc(2);
+  portBuffer.writeUInt16BE(port);
+
+  // SOCKS4a：IP 填 0.0.0.x，由上游解析域名
+  const isIp = net.isIPv4(host);
+  const parts = [
+    Buffer.from([0x04, 0x01]),
+    portBuffer,
+    isIp ? Buffer.from(host.split('.').map(Number)) : Buffer.from([0, 0, 0, 1]),
+    Buffer.from(userId, 'utf8'),
+    Buffer.from([0x00])
+  ];
+  if (!isIp) {
+    parts.push(Buffer.from(host, 'utf8'), Buffer.from([0x00]));
+  }
+  socket.write(Buffer.concat(parts));
+
+  const reply = await reader.read(8);
+  if (reply[1] !== 0x5a) {
+    throw new TunnelError(`SOCKS4上游拒绝连接 (0x${reply[1].toString(16)})`);
+  }
+}
+
+async function socks5Connect(socket: net.Socket, reader: HandshakeReader, host: string, port: number,
+                             username: string, password: string): Promise<void> {
+  // 协商认证方式：无认证 / 用户名密码
+  socket.write(username ? Buffer.from([0x05, 0x02, 0x00, 0x02]) : Buffer.from([0x05, 0x01, 0x00]));
+  const [version, method] = await reader.read(2);
+  if (version !== 0x05) {
+    throw new TunnelError('上游代理不是SOCKS5服务器');
+  }
+
+  if (method === 0x02) {
+    const user = Buffer.from(username, 'utf8');
+    const pass = Buffer.from(password, 'utf8');
+    if (user.length > 255 || pass.length > 255) {
+      throw new TunnelError('SOCKS5用户名或密码过长');
+    }
+    socket.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([pass.length]), pass]));
+    const [, status] = await reader.read(2);
+    if (status !== 0x00) {
+      throw new TunnelError('SOCKS5上游认证失败');
+    }
+  } else if (method !== 0x00) {
+    throw new TunnelError(method === 0xff ? 'SOCKS5上游没有可接受的认证方式' : `SOCKS5上游选择了不支持的认证方式 (${method})`);
+  }
+
+  const portBuffer = Buffer.alloc(2);
+  portBuffer.writeUInt16BE(port);
+  socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), encodeSocks5Address(host), portBuffer]));
+
+  const header = await reader.read(4);
+  if (header[1] !== 0x00) {
+    throw new TunnelError(`SOCKS5上游连接失败: ${SOCKS5_REPLIES[header[1]] || `0x${header[1].toString(16)}`}`);
+  }
+
+  // 读取并丢弃绑定地址
+  switch (header[3]) {
+    case 0x01: await reader.read(4 + 2); break;
+    case 0x04: await reader.read(16 + 2); break;
+    case 0x03: {
+      const [length] = await reader.read(1);
+      await reader.read(length + 2);
+      break;
+    }
+    default:
+      throw new TunnelError(`SOCKS5上游返回了未知的地址类型 (${header[3]})`);
+  }
+}
+
+export function encodeSocks5Address(host: string): Buffer {
+  if (net.isIPv4(host)) {
+    return Buffer.from([0x01, ...host.split('.').map(Number)]);
+  }
+  if (net.isIPv6(host)) {
+    return Buffer.concat([Buffer.from([0x04]), ipv6ToBuffer(host)]);
+  }
+  const name = Buffer.from(host, 'utf8');
+  if (name.length > 255) {
+    throw new TunnelError(`域名过长: ${host}`);
+  }
+  return Buffer.concat([Buffer.from([0x03, name.length]), name]);
+}
+
+function ipv6ToBuffer(address: string): Buffer {
+  const [head, tail = ''] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = address.includes('::') ? (tail ? tail.split(':') : []) : [];
+
+  // 末尾内嵌的IPv4地址（::ffff:1.2.3.4）转换成两个16位分组
+  const expand = (parts: string[]) => parts.flatMap(part => {
+    if (!part.includes('.')) return [part];
+    const bytes = part.split('.').map(Number);
+    return [((bytes[0] << 8) | bytes[1]).toString(16), ((bytes[2] << 8) | bytes[3]).toString(16)];
+  });
+  const left = expand(headParts);
+  const right = expand(tailParts);
+  const groups = [...left, ...new Array(8 - left.length - right.length).fill('0'), ...right];
+
+  const buffer = Buffer.alloc(16);
+  groups.forEach((group, index) => buffer.writeUInt16BE(parseInt(group, 16), index * 2));
+  return buffer;
+}
+
+async function resolveIPv4(host: string, resolve?: TunnelOptions['resolve']): Promise<string> {
+  if (net.isIPv4(host)) return host;
+  try {
+    if (resolve) {
+      const address = (await resolve(host)).find(item => item.family === 4);
+      if (!address) throw Object.assign(new Error('没有IPv4地址'), { code: 'ENOTFOUND' });
+      return address.address;
+    }
+    return (await dns.promises.lookup(host, { family: 4 })).address;
+  } catch (error: any) {
+    throw new TunnelError(`无法解析目标地址 ${host}: ${error.code || error.message}`);
+  }
+}
+
+async function resolveLocally(host: string, resolve?: TunnelOptions['resolve']): Promise<string> {
+  if (net.isIP(host)) return host;
+  try {
+    return resolve ? (await resolve(host))[0].address : (await dns.promises.lookup(host)).address;
+  } catch (error: any) {
+    throw new TunnelError(`无法解析目标地址 ${host}: ${error.code || error.message}`);
+  }
+}
+
+/**
+ * 握手阶段按字节数或分隔符读取对端数据（上游代理的响应或SOCKS客户端的请求）
+ */
+export class HandshakeReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: { check: () => boolean; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private onData = (chunk: Buffer) => {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    if (this.pending && this.pending.check()) {
+      this.pending = null;
+    }
+  };
+
+  private onError = (error: Error) => this.fail(error);
+  private onClose = () => this.fail(new TunnelError(`${this.peer}在握手期间关闭了连接`));
+  private onTimeout = () => {
+    this.fail(new TunnelError(`${this.peer}握手超时`, '504 Gateway Timeout'));
+    this.socket.destroy();
+  };
+
+  constructor(private socket: net.Socket, timeout: number, private peer: string = '上游代理') {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.setTimeout(timeout, this.onTimeout);
+  }
+
+  public ready(event: 'connect' | 'secureConnect'): Promise<void> {
+    return this.wait<void>((resolve) => {
+      this.socket.once(event, () => resolve());
+      return () => false;
+    });
+  }
+
+  public read(length: number): Promise<Buffer> {
+    return this.wait<Buffer>((resolve) => () => {
+      if (this.buffer.length < length) return false;
+      resolve(this.take(length));
+      return true;
+    });
+  }
+
+  public readUntil(delimiter: string): Promise<Buffer> {
+    return this.wait<Buffer>((resolve) => () => {
+      const index = this.buffer.indexOf(delimiter);
+      if (index === -1) {
+        if (this.buffer.length > 16 * 1024) {
+          throw new TunnelError('上游代理响应头过大');
+        }
+        return false;
+      }
+      resolve(this.take(index + delimiter.length));
+      return true;
+    });
+  }
+
+  /**
+   * 握手完成：移除监听器并返回多读到的数据
+   * socket 保持暂停，直到调用方开始读取（pipe 会自动恢复），避免丢失数据
+   */
+  public detach(): Buffer {
+    this.socket.pause();
+    this.socket.removeListener('data', this.onData);
+    this.socket.removeListener('error', this.onError);
+    this.socket.removeListener('close', this.onClose);
+    this.socket.setTimeout(0);
+    this.socket.removeListener('timeout', this.onTimeout);
+    const rest = this.buffer;
+    this.buffer = Buffer.alloc(0);
+    return rest;
+  }
+
+  private take(length: number): Buffer {
+    const data = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return data;
+  }
+
+  private wait<T>(setup: (resolve: (value: T) => void) => () => boolean): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      const check = setup(resolve);
+      const guardedCheck = () => {
+        try {
+          return check();
+        } catch (error) {
+          reject(error);
+          return true;
+        }
+      };
+      if (!guardedCheck()) {
+        this.pending = { check: guardedCheck, reject };
+      }
+    });
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.pending) {
+      this.pending.reject(error);
+      this.pending = null;
+    }
+  }
+}
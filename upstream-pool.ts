@@ -0,0 +1,266 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { openTunnel, describeUpstream } from './tunnel';
+import { logger } from './logger';
+
+export type PoolStrategy = 'failover' | 'round-robin' | 'least-connections' | 'latency';
+
+export interface HealthCheckOptions {
+  // 探测间隔（默认10秒）
+  interval?: number;
+  // 单次探测超时（默认5秒）
+  timeout?: number;
+  // 通过上游建立到该地址 (host:port) 的隧道判断可用性，不填则只检查能否建立TCP连接
+  probeTarget?: string;
+}
+
+export interface UpstreamPoolOptions {
+  upstreams: string[];
+  // 选择策略（默认 failover，按配置顺序）
+  strategy?: PoolStrategy;
+  // 主动健康检查，不配置则只做被动检查
+  healthCheck?: HealthCheckOptions;
+  // 连续失败多少次后暂时摘除（默认3次）
+  maxFailures?: number;
+  // 被动摘除的时长（默认30秒）
+  ejectionTime?: number;
+}
+
+export interface UpstreamStatus {
+  upstream: string;
+  healthy: boolean;
+  ejected: boolean;
+  consecutiveFailures: number;
+  activeConnections: number;
+  latency: number | null;
+}
+
+interface PoolMember {
+  upstream: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  ejectedUntil: number;
+  activeConnections: number;
+  latency: number | null;
+}
+
+// 延迟的指数加权平均系数
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * 上游代理池：按策略选择、主动健康检查、连续失败后被动摘除
+ */
+export class UpstreamPool {
+  public readonly name: string;
+  public readonly strategy: PoolStrategy;
+  private members: PoolMember[];
+  private healthCheck: HealthCheckOptions | null;
+  private maxFailures: number;
+  private ejectionTime: number;
+  private roundRobinIndex = 0;
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  constructor(name: string, options: UpstreamPoolOptions) {
+    if (!options.upstreams || options.upstreams.length === 0) {
+      throw new Error(`上游代理池 ${name} 没有配置上游代理`);
+    }
+    if (options.strategy && !['failover', 'round-robin', 'least-connections', 'latency'].includes(options.strategy)) {
+      throw new Error(`上游代理池 ${name} 的策略无效: ${options.strategy}`);
+    }
+
+    this.name = name;
+    this.strategy = options.strategy || 'failover';
+    this.members = options.upstreams.map(upstream => ({
+      upstream,
+      healthy: true,
+      consecutiveFailures: 0,
+      ejectedUntil: 0,
+      activeConnections: 0,
+      latency: null
+    }));
+    this.healthCheck = options.healthCheck || null;
+    this.maxFailures = options.maxFailures || 3;
+    this.ejectionTime = options.ejectionTime || 30000;
+  }
+
+  public get upstreams(): string[] {
+    return this.members.map(member => member.upstream);
+  }
+
+  /**
+   * 按策略排序的可用上游列表，第一个失败后依次重试后面的
+   * 全部不可用时返回所有上游，尽力而为
+   */
+  public select(): string[] {
+    const now = Date.now();
+    let candidates = this.members.filter(member => member.healthy && member.ejectedUntil <= now);
+    if (candidates.length === 0) {
+      candidates = [...this.members].sort((a, b) => a.consecutiveFailures - b.consecutiveFailures);
+      return candidates.map(member => member.upstream);
+    }
+
+    switch (this.strategy) {
+      case 'round-robin': {
+        const offset = this.roundRobinIndex++ % candidates.length;
+        candidates = [...candidates.slice(offset), ...candidates.slice(0, offset)];
+        break;
+      }
+      case 'least-connections':
+        candidates = [...candidates].sort((a, b) => a.activeConnections - b.activeConnections);
+        break;
+      case 'latency':
+        // 还没有测量过延迟的上游排在前面，尽快得到测量值
+        candidates = [...candidates].sort((a, b) => (a.latency ?? 0) - (b.latency ?? 0));
+        break;
+    }
+
+    return candidates.map(member => member.upstream);
+  }
+
+  public has(upstream: string): boolean {
+    return this.find(upstream) !== undefined;
+  }
+
+  /**
+   * 记录一个使用该上游的连接，返回释放函数
+   */
+  public acquire(upstream: string): () => void {
+    const member = this.find(upstream);
+    if (!member) return () => {};
+
+    member.activeConnections++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      member.activeConnections--;
+    };
+  }
+
+  public reportSuccess(upstream: string, latency: number): void {
+    const member = this.find(upstream);
+    if (!member) return;
+
+    if (member.ejectedUntil > 0 || !member.healthy) {
+      logger.info(`💚 上游代理恢复 ${this.name}/${describeUpstream(upstream)}`);
+    }
+    member.healthy = true;
+    member.consecutiveFailures = 0;
+    member.ejectedUntil = 0;
+    member.latency = member.latency === null
+      ? latency
+      : Math.round(member.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+  }
+
+  public reportFailure(upstream: string): void {
+    const member = this.find(upstream);
+    if (!member) return;
+
+    member.consecutiveFailures++;
+    if (member.consecutiveFailures >= this.maxFailures && member.ejectedUntil <= Date.now()) {
+      member.ejectedUntil = Date.now() + this.ejectionTime;
+      logger.info(`💔 上游代理 ${this.name}/${describeUpstream(upstream)} 连续失败 ${member.consecutiveFailures} 次，摘除 ${this.ejectionTime / 1000} 秒`);
+    }
+  }
+
+  public status(): UpstreamStatus[] {
+    const now = Date.now();
+    return this.members.map(member => ({
+      upstream: member.upstream,
+      healthy: member.healthy,
+      ejected: member.ejectedUntil > now,
+      consecutiveFailures: member.consecutiveFailures,
+      activeConnections: member.activeConnections,
+      latency: member.latency
+    }));
+  }
+
+  /**
+   * 启动主动健康检查
+   */
+  public startHealthChecks(): void {
+    if (!this.healthCheck || this.healthTimer) return;
+
+    const run = () => {
+      for (const member of this.members) {
+        this.probe(member);
+      }
+    };
+    run();
+    this.healthTimer = setInterval(run, this.healthCheck.interval || 10000);
+    this.healthTimer.unref();
+  }
+
+  public stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  private find(upstream: string): PoolMember | undefined {
+    return this.members.find(member => member.upstream === upstream);
+  }
+
+  private probe(member: PoolMember): void {
+    const startTime = Date.now();
+    probeUpstream(member.upstream, this.healthCheck!).then(() => {
+      if (!member.healthy) {
+        logger.info(`💚 健康检查通过 ${this.name}/${describeUpstream(member.upstream)}`);
+      }
+      member.healthy = true;
+      member.ejectedUntil = 0;
+      member.consecutiveFailures = 0;
+      const latency = Date.now() - startTime;
+      member.latency = member.latency === null
+        ? latency
+        : Math.round(member.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+    }).catch((error: Error) => {
+      if (member.healthy) {
+        logger.info(`💔 健康检查失败 ${this.name}/${describeUpstream(member.upstream)}: ${error.message}`);
+      }
+      member.healthy = false;
+    });
+  }
+}
+
+/**
+ * 探测上游代理：配置了 probeTarget 时通过上游建立到该地址的隧道，否则只检查能否建立TCP（TLS）连接；
+ * HTTPS 上游的证书与真实隧道一样校验，证书无效的上游不会被判定为健康
+ */
+async function probeUpstream(upstream: string, options: HealthCheckOptions): Promise<void> {
+  const timeout = options.timeout || 5000;
+
+  if (options.probeTarget) {
+    const separator = options.probeTarget.lastIndexOf(':');
+    const host = options.probeTarget.slice(0, separator).replace(/^\[|\]$/g, '');
+    const port = parseInt(options.probeTarget.slice(separator + 1), 10);
+    const { socket } = await openTunnel(upstream, host, port, { timeout });
+    socket.destroy();
+    return;
+  }
+
+  const upstreamUrl = new URL(upstream);
+  const isTls = upstreamUrl.protocol === 'https:';
+  const port = parseInt(upstreamUrl.port || (isTls ? '443' : upstreamUrl.protocol === 'http:' ? '80' : '1080'), 10);
+  const host = upstreamUrl.hostname.replace(/^\[|\]$/g, '');
+
+  await new Promise<void>((resolve, reject) => {
+    const socket: net.Socket = isTls
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+      : net.connect({ host, port });
+
+    socket.setTimeout(timeout, () => {
+      socket.destroy();
+      reject(new Error('探测超时'));
+    });
+    socket.on('error', (error) => {
+      socket.destroy();
+      reject(error);
+    });
+    socket.once(isTls ? 'secureConnect' : 'connect', () => {
+      socket.destroy();
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,182 @@
+import * as dns from 'dns';
+import { HostPatternList, normalizeHost } from './host-pattern';
+import { UpstreamPool, UpstreamPoolOptions } from './upstream-pool';
+import { logger } from './logger';
+
+/**
+ * 路由规则：hosts 匹配时使用 target
+ * target 可以是 DIRECT、REJECT 或 upstreams 中配置的上游代理名称
+ */
+export interface RouteRule {
+  id?: string;
+  hosts: string[];
+  target: string;
+}
+
+export interface UpstreamRouterOptions {
+  // 上游代理名称 -> 代理地址 (http://、https://、socks4://、socks5://) 或上游代理池
+  upstreams?: Record<string, string | UpstreamPoolOptions>;
+  rules?: RouteRule[];
+  // 没有规则匹配时的路由（默认 DIRECT）
+  defaultRoute?: string;
+  // NO_PROXY 格式的直连列表，例如 "localhost,.internal,10.0.0.0/8"
+  noProxy?: string;
+}
+
+export type Route =
+  | { type: 'direct'; ruleId: string }
+  | { type: 'reject'; ruleId: string }
+  | { type: 'proxy'; ruleId: string; name: string; pool: UpstreamPool };
+
+interface CompiledRoute {
+  id: string;
+  hosts: HostPatternList;
+  target: string;
+}
+
+const SUPPORTED_PROTOCOLS = ['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'];
+
+/**
+ * 按目标地址选择上游代理的路由表
+ */
+export class UpstreamRouter {
+  private upstreams: Map<string, UpstreamPool> = new Map();
+  private rules: CompiledRoute[];
+  private defaultRoute: string;
+  private noProxyAll = false;
+  private noProxy: Array<{ hosts: HostPatternList; port: number | null }> = [];
+
+  constructor(options: UpstreamRouterOptions = {}) {
+    for (const [name, upstream] of Object.entries(options.upstreams || {})) {
+      // 单个上游代理按只有一个成员的代理池处理
+      const poolOptions = typeof upstream === 'string' ? { upstreams: [upstream] } : upstream;
+      if (['DIRECT', 'REJECT'].includes(name.toUpperCase())) {
+        throw new Error(`上游代理名称不能使用保留字: ${name}`);
+      }
+      for (const member of poolOptions.upstreams || []) {
+        validateUpstream(name, member);
+      }
+      this.upstreams.set(name, new UpstreamPool(name, poolOptions));
+    }
+
+    this.rules = (options.rules || []).map((rule, index) => {
+      const id = rule.id || `route-${index + 1}`;
+      this.validateTarget(id, rule.target);
+      try {
+        return { id, hosts: new HostPatternList(rule.hosts), target: rule.target };
+      } catch (error: any) {
+        throw new Error(`路由规则 ${id} 无效: ${error.message}`);
+      }
+    });
+
+    this.defaultRoute = options.defaultRoute || 'DIRECT';
+    this.validateTarget('default', this.defaultRoute);
+
+    if (options.noProxy) {
+      this.parseNoProxy(options.noProxy);
+    }
+  }
+
+  /**
+   * 已配置的上游代理（池）
+   */
+  public get pools(): UpstreamPool[] {
+    return Array.from(this.upstreams.values());
+  }
+
+  public get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * 为目标选择路由：NO_PROXY 优先，然后按顺序匹配规则，最后使用默认路由
+   */
+  public route(hostname: string, port: number, addresses: dns.LookupAddress[] = []): Route {
+    const host = normalizeHost(hostname);
+
+    if (this.matchNoProxy(host, port, addresses)) {
+      return { type: 'direct', ruleId: 'no-proxy' };
+    }
+
+    for (const rule of this.rules) {
+      if (rule.hosts.matchHost(host) || rule.hosts.matchAddresses(addresses)) {
+        return this.resolveTarget(rule.id, rule.target);
+      }
+    }
+
+    return this.resolveTarget('default', this.defaultRoute);
+  }
+
+  private resolveTarget(ruleId: string, target: string): Route {
+    const keyword = target.toUpperCase();
+    if (keyword === 'DIRECT') {
+      return { type: 'direct', ruleId };
+    }
+    if (keyword === 'REJECT') {
+      return { type: 'reject', ruleId };
+    }
+    return { type: 'proxy', ruleId, name: target, pool: this.upstreams.get(target)! };
+  }
+
+  private validateTarget(ruleId: string, target: string): void {
+    const keyword = (target || '').toUpperCase();
+    if (keyword !== 'DIRECT' && keyword !== 'REJECT' && !this.upstreams.has(target)) {
+      throw new Error(`路由规则 ${ruleId} 引用了未定义的上游代理: ${target}`);
+    }
+  }
+
+  /**
+   * 解析 NO_PROXY：逗号或空格分隔，支持 *、域名（包含子域名）、.域名、host:port、IP 和 CIDR
+   */
+  private parseNoProxy(value: string): void {
+    for (const rawEntry of value.split(/[\s,]+/)) {
+      const entry = rawEntry.trim().toLowerCase();
+      if (!entry) continue;
+
+      if (entry === '*') {
+        this.noProxyAll = true;
+        continue;
+      }
+
+      // host:port（IPv6需要方括号，避免与地址中的冒号混淆）
+      let host = entry;
+      let port: number | null = null;
+      const portMatch = /^(\[[^\]]+\]|[^:]+):(\d+)$/.exec(entry);
+      if (portMatch) {
+        host = portMatch[1].replace(/^\[|\]$/g, '');
+        port = parseInt(portMatch[2], 10);
+      }
+
+      try {
+        const hosts = new HostPatternList([host]);
+        // curl 等工具的约定：example.com 同时匹配其子域名
+        if (!host.startsWith('.') && !host.startsWith('*') && !/^[\d.:/]+$/.test(host) && !host.includes(':')) {
+          hosts.add(`.${host}`);
+        }
+        this.noProxy.push({ hosts, port });
+      } catch (error) {
+        logger.warn(`⚠️  忽略无效的NO_PROXY条目: ${rawEntry}`);
+      }
+    }
+  }
+
+  private matchNoProxy(host: string, port: number, addresses: dns.LookupAddress[]): boolean {
+    if (this.noProxyAll) return true;
+    return this.noProxy.some(entry =>
+      (entry.port === null || entry.port === port) &&
+      (entry.hosts.matchHost(host) || entry.hosts.matchAddresses(addresses))
+    );
+  }
+}
+
+function validateUpstream(name: string, upstream: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(upstream);
+  } catch (error) {
+    throw new Error(`上游代理 ${name} 地址无效: ${upstream}`);
+  }
+  if (!SUPPORTED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new Error(`上游代理 ${name} 协议不支持: ${parsed.protocol}`);
+  }
+}
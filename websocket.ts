@@ -0,0 +1,179 @@
+import * as crypto from 'crypto';
+import { HostPatternList, normalizeHost } from './host-pattern';
+import { TunnelSocket } from './tunnel-socket';
+
+export interface KeepAliveOptions {
+  // 两个方向都没有数据多久后断开（毫秒）
+  idleTimeout?: number;
+  // 对端多久没有发来数据时由代理发送 WebSocket ping（毫秒，默认不发送），只对代理能看到帧的连接有效
+  pingInterval?: number;
+  // 发送 ping 后等待对端数据（pong）的时间，超时断开（默认 10 秒）
+  pongTimeout?: number;
+}
+
+/**
+ * 针对特定目标的设置，hosts 格式与访问控制规则相同
+ */
+export interface KeepAliveRule extends KeepAliveOptions {
+  id?: string;
+  hosts: string[];
+}
+
+export interface WebSocketOptions extends KeepAliveOptions {
+  // 按顺序匹配，第一个匹配的规则覆盖上面的默认值；同样作用于到该目标的 CONNECT 隧道（只有 idleTimeout 生效）
+  rules?: KeepAliveRule[];
+}
+
+interface CompiledRule {
+  hosts: HostPatternList;
+  options: KeepAliveOptions;
+}
+
+/**
+ * 按目标主机选择长连接（WebSocket 和隧道）的空闲超时和 ping 参数
+ */
+export class WebSocketPolicy {
+  private defaults: KeepAliveOptions;
+  private rules: CompiledRule[];
+
+  constructor(options: WebSocketOptions = {}) {
+    const { rules, ...defaults } = options;
+    this.defaults = defaults;
+    this.rules = (rules || []).map((rule, index) => {
+      const { id = `rule-${index + 1}`, hosts, ...ruleOptions } = rule;
+      if (!hosts || hosts.length === 0) {
+        throw new Error(`WebSocket规则 ${id} 缺少 hosts`);
+      }
+      return { hosts: new HostPatternList(hosts), options: ruleOptions };
+    });
+  }
+
+  /**
+   * 升级后的 WebSocket 连接使用的参数，规则中没有设置的项使用默认值
+   */
+  public forUpgrade(hostname: string): KeepAliveOptions {
+    const rule = this.match(hostname);
+    return { ...this.defaults, ...(rule && rule.options) };
+  }
+
+  /**
+   * CONNECT 隧道的空闲超时，没有匹配的规则或规则没有设置时返回 undefined
+   */
+  public tunnelIdleTimeout(hostname: string): number | undefined {
+    const rule = this.match(hostname);
+    return rule ? rule.options.idleTimeout : undefined;
+  }
+
+  private match(hostname: string): CompiledRule | undefined {
+    const host = normalizeHost(hostname);
+    return this.rules.find(rule => rule.hosts.matchHost(host));
+  }
+}
+
+/**
+ * 在双向透传的 WebSocket 连接上保活：某一端超过 pingInterval 没有发来数据时向它发送 ping，
+ * pongTimeout 内仍然没有数据则调用 onTimeout。heads 是开始透传前已经转发给两端的帧数据
+ */
+export function keepWebSocketAlive(clientSocket: TunnelSocket, serverSocket: TunnelSocket, options: KeepAliveOptions,
+                                   heads: { toClient: Buffer; toServer: Buffer },
+                                   onTimeout: (side: 'client' | 'server') => void): void {
+  const interval = options.pingInterval;
+  if (!interval) return;
+  const pongTimeout = options.pongTimeout || 10000;
+
+  // 发往客户端的帧来自服务器，反之亦然；只能在帧边界插入 ping
+  const toClient = new FrameTracker();
+  const toServer = new FrameTracker();
+  toClient.feed(heads.toClient);
+  toServer.feed(heads.toServer);
+  serverSocket.on('data', (chunk: Buffer) => toClient.feed(chunk));
+  clientSocket.on('data', (chunk: Buffer) => toServer.feed(chunk));
+
+  const timers: Map<string, NodeJS.Timeout> = new Map();
+  const peers = [
+    { side: 'client' as const, socket: clientSocket, outgoing: toClient, masked: false },
+    // 客户端发出的帧必须加掩码
+    { side: 'server' as const, socket: serverSocket, outgoing: toServer, masked: true }
+  ];
+
+  for (const peer of peers) {
+    let lastSeen = Date.now();
+    let pingSent = 0;
+    peer.socket.on('data', () => {
+      lastSeen = Date.now();
+      pingSent = 0;
+    });
+
+    const check = () => {
+      const now = Date.now();
+      if (pingSent) {
+        if (now - pingSent >= pongTimeout) {
+          onTimeout(peer.side);
+          return;
+        }
+      } else if (now - lastSeen >= interval) {
+        // 正在发送的帧还没有结束时等下一次检查
+        if (peer.outgoing.atBoundary && !peer.socket.destroyed) {
+          peer.socket.write(pingFrame(peer.masked));
+          pingSent = now;
+        }
+      }
+      timers.set(peer.side, setTimeout(check, Math.min(interval, pongTimeout, 1000)));
+    };
+    timers.set(peer.side, setTimeout(check, Math.min(interval, 1000)));
+  }
+
+  const stop = () => timers.forEach(timer => clearTimeout(timer));
+  clientSocket.once('close', stop);
+  serverSocket.once('close', stop);
+}
+
+function pingFrame(masked: boolean): Buffer {
+  // FIN + opcode 0x9（ping），没有数据
+  return masked ? Buffer.concat([Buffer.from([0x89, 0x80]), crypto.randomBytes(4)]) : Buffer.from([0x89, 0x00]);
+}
+
+/**
+ * 按帧头跟踪一个方向的 WebSocket 数据，判断当前是否位于帧边界
+ */
+class FrameTracker {
+  private header: number[] = [];
+  private remaining = 0;
+
+  public get atBoundary(): boolean {
+    return this.remaining === 0 && this.header.length === 0;
+  }
+
+  public feed(chunk: Buffer): void {
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.remaining > 0) {
+        const skip = Math.min(this.remaining, chunk.length - offset);
+        this.remaining -= skip;
+        offset += skip;
+        continue;
+      }
+
+      this.header.push(chunk[offset++]);
+      const length = headerLength(this.header);
+      if (length !== null && this.header.length === length) {
+        this.remaining = payloadLength(this.header);
+        this.header = [];
+      }
+    }
+  }
+}
+
+function headerLength(header: number[]): number | null {
+  if (header.length < 2) return null;
+  const length = header[1] & 0x7f;
+  const extended = length === 126 ? 2 : length === 127 ? 8 : 0;
+  return 2 + extended + (header[1] & 0x80 ? 4 : 0);
+}
+
+function payloadLength(header: number[]): number {
+  const length = header[1] & 0x7f;
+  if (length < 126) return length;
+  const bytes = Buffer.from(header.slice(2, length === 126 ? 4 : 10));
+  return length === 126 ? bytes.readUInt16BE(0) : Number(bytes.readBigUInt64BE(0));
+}